@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { runCli, EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE } from './index';
+import { reloadProject } from '../services/project-reload/index';
+import { clearOperationJournal } from '../utils/operation-journal';
+
+describe('runCli', () => {
+  let testDir: string;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (...args: string[]) =>
+    runCli(args, {
+      stdout: text => {
+        stdout += text;
+      },
+      stderr: text => {
+        stderr += text;
+      },
+    });
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-')));
+    fs.writeFileSync(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    fs.writeFileSync(path.join(testDir, 'a.ts'), "import { b } from './b';\nexport const a = b;\n");
+    fs.writeFileSync(path.join(testDir, 'b.ts'), 'export const b = 1;\n');
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(async () => {
+    clearOperationJournal();
+    await reloadProject();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should map positional arguments to the tool options', async () => {
+    const exitCode = await run('move', path.join(testDir, 'b.ts'), path.join(testDir, 'lib', 'b.ts'));
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(fs.existsSync(path.join(testDir, 'lib', 'b.ts'))).toBe(true);
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toContain("from './lib/b'");
+  });
+
+  it('should print previews as unified diffs', async () => {
+    const exitCode = await run('rename-symbol', path.join(testDir, 'b.ts'), 'b', 'c', '--type', 'variable', '--preview');
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(stdout).toContain('-import { b } from');
+    expect(stdout).toContain('+import { c } from');
+    expect(fs.readFileSync(path.join(testDir, 'b.ts'), 'utf-8')).toBe('export const b = 1;\n');
+  });
+
+  it('should print the structured result with --json', async () => {
+    const exitCode = await run('deps', path.join(testDir, 'b.ts'), '--direction=upstream', '--no-include-types', '--json');
+    const result = JSON.parse(stdout);
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(result.target).toBe(path.join(testDir, 'b.ts'));
+    expect(result.dependencies[0].filePath).toBe(path.join(testDir, 'a.ts'));
+  });
+
+  it('should switch to the dependency graph with deps --graph', async () => {
+    const exitCode = await run('deps', '--graph', testDir, '--format', 'dot', '--max-depth', '3');
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(stdout).toContain('digraph Dependencies');
+  });
+
+  it('should move symbols between files', async () => {
+    const exitCode = await run('move-symbol', path.join(testDir, 'b.ts'), 'b', path.join(testDir, 'c.ts'));
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(fs.readFileSync(path.join(testDir, 'c.ts'), 'utf-8')).toContain('export const b = 1;');
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toContain("from './c'");
+  });
+
+  it('should parse comma-separated arguments of list options', async () => {
+    fs.writeFileSync(path.join(testDir, 'c.ts'), 'export const c = 2;\n');
+    const exitCode = await run('merge', path.join(testDir, 'd.ts'), `${path.join(testDir, 'b.ts')},${path.join(testDir, 'c.ts')}`);
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(fs.readFileSync(path.join(testDir, 'd.ts'), 'utf-8')).toBe('export const b = 1;\n\nexport const c = 2;\n');
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toContain("from './d'");
+  });
+
+  it('should parse JSON arguments of list options', async () => {
+    const operations = [
+      { operation: 'move', source: path.join(testDir, 'b.ts'), destination: path.join(testDir, 'lib', 'b.ts') },
+      { operation: 'rename_symbol', filePath: path.join(testDir, 'lib', 'b.ts'), oldName: 'b', newName: 'c', type: 'variable' },
+    ];
+    const exitCode = await run('batch', JSON.stringify(operations));
+
+    expect(exitCode).toBe(EXIT_SUCCESS);
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toBe("import { c } from './lib/b';\nexport const a = c;\n");
+    expect(await run('batch', '[{"operation":')).toBe(EXIT_USAGE);
+  });
+
+  it('should exit with 1 when the tool fails', async () => {
+    const exitCode = await run('move', path.join(testDir, 'missing.ts'), path.join(testDir, 'c.ts'));
+
+    expect(exitCode).toBe(EXIT_FAILURE);
+    expect(stderr).toStartWith('Error (FILE_NOT_FOUND):');
+  });
+
+  it('should exit with 1 when a check does not pass', async () => {
+    const exitCode = await run('check-deletable', path.join(testDir, 'b.ts'));
+
+    expect(exitCode).toBe(EXIT_FAILURE);
+    expect(stdout).toContain('isDeletable: false');
+  });
+
+  it('should exit with 2 on invalid command lines', async () => {
+    expect(await run('move', path.join(testDir, 'b.ts'))).toBe(EXIT_USAGE);
+    expect(stderr).toContain('--destination: Required');
+
+    expect(await run('move', 'a', 'b', 'c')).toBe(EXIT_USAGE);
+    expect(await run('graph', '--max-depth')).toBe(EXIT_USAGE);
+    expect(await run('unknown-command')).toBe(EXIT_USAGE);
+
+    expect(await run('rename-symbol', path.join(testDir, 'b.ts'), 'b', 'c')).toBe(EXIT_USAGE);
+    expect(stderr).toContain('Missing --type');
+  });
+
+  it('should exit with 1 when the tool rejects valid arguments', async () => {
+    fs.writeFileSync(path.join(testDir, 'c.ts'), 'export default 1;\n');
+
+    const exitCode = await run('merge', path.join(testDir, 'merged.ts'), `${path.join(testDir, 'b.ts')},${path.join(testDir, 'c.ts')}`);
+
+    expect(exitCode).toBe(EXIT_FAILURE);
+    expect(stderr).toContain('cannot be merged');
+  });
+
+  it('should describe the options of a command', async () => {
+    expect(await run('help', 'move')).toBe(EXIT_SUCCESS);
+
+    expect(stdout).toContain('Usage: ts-tools move <source> <destination>');
+    expect(stdout).toContain('--[no-]update-imports');
+
+    stdout = '';
+    expect(await run('rename-symbol', '--help')).toBe(EXIT_SUCCESS);
+    expect(stdout).toContain('Usage: ts-tools rename-symbol <filePath> <oldName> <newName> --type <variable|function|');
+  });
+});
@@ -0,0 +1,131 @@
+export type CliCommand = {
+  name: string;
+  tool: string;
+  summary: string;
+  // Option names filled from positional arguments, in order
+  positionals: string[];
+  // Options the command cannot run without that are not positionals, shown in its usage line
+  requiredFlags?: string[];
+  // Applied before the flags, for options the CLI can default but the tool cannot
+  defaults?: Record<string, unknown>;
+  // Flags that hand the call over to another command, e.g. `deps --graph`
+  switches?: Record<string, string>;
+  // Results that should fail a script even though the tool itself succeeded
+  isFailure?: (result: Record<string, unknown>) => boolean;
+};
+
+export const CLI_COMMANDS: CliCommand[] = [
+  {
+    name: 'move',
+    tool: 'move_typescript_file',
+    summary: 'Move a file and update the imports that reference it',
+    positionals: ['source', 'destination'],
+  },
+  {
+    name: 'rename',
+    tool: 'rename_file_or_folder',
+    summary: 'Rename a file or folder and update the imports that reference it',
+    positionals: ['sourcePath', 'destinationPath'],
+  },
+  {
+    name: 'rename-symbol',
+    tool: 'rename_typescript_symbol',
+    summary: 'Rename a symbol and every reference to it',
+    positionals: ['filePath', 'oldName', 'newName'],
+    requiredFlags: ['type'],
+  },
+  {
+    name: 'deps',
+    tool: 'analyze_typescript_dependencies',
+    summary: 'List the files a file imports and the files importing it',
+    positionals: ['filePath'],
+    defaults: { direction: 'both' },
+    switches: { '--graph': 'graph' },
+  },
+  {
+    name: 'graph',
+    tool: 'visualize_dependencies',
+    summary: 'Print the dependency graph of a directory (also `deps --graph`)',
+    positionals: ['rootPath'],
+    defaults: { rootPath: '.' },
+  },
+  {
+    name: 'validate-package',
+    tool: 'validate_package_json',
+    summary: 'Check that package.json entry points, exports and types resolve',
+    positionals: ['packageJsonPath'],
+    defaults: { packageJsonPath: 'package.json' },
+    isFailure: result => result.isValid === false,
+  },
+  {
+    name: 'optimize-imports',
+    tool: 'optimize_imports',
+    summary: 'Remove unused imports and merge duplicate ones',
+    positionals: ['filePath'],
+  },
+  {
+    name: 'optimize-conditionals',
+    tool: 'optimize_conditionals',
+    summary: 'Simplify if-else chains and boolean expressions',
+    positionals: ['filePath'],
+  },
+  {
+    name: 'check-deletable',
+    tool: 'check_deletable',
+    summary: 'Check whether a file can be deleted (fails when it is still referenced)',
+    positionals: ['filePath'],
+    isFailure: result => (result.analysis as { isDeletable?: boolean } | undefined)?.isDeletable === false,
+  },
+  {
+    name: 'repair-imports',
+    tool: 'repair_import_paths',
+    summary: 'Point broken import paths at the files they were meant to import',
+    positionals: ['filePath'],
+  },
+  {
+    name: 'organize-comments',
+    tool: 'organize_comments',
+    summary: 'Move file-level comments to the top and remove duplicates',
+    positionals: ['filePath'],
+  },
+  {
+    name: 'batch',
+    tool: 'batch_refactor',
+    summary: 'Apply a JSON array of moves, renames and import optimizations as one unit',
+    positionals: ['operations'],
+  },
+  {
+    name: 'rename-module',
+    tool: 'rename_file_and_symbol',
+    summary: 'Rename the primary export of a file and name the file after it',
+    positionals: ['filePath', 'newName'],
+  },
+  {
+    name: 'move-symbol',
+    tool: 'move_symbol',
+    summary: 'Move a declaration with the helpers only it uses to another file',
+    positionals: ['filePath', 'symbolName', 'destination'],
+  },
+  {
+    name: 'split',
+    tool: 'split_file',
+    summary: 'Move the symbols of a file to the files a JSON object maps them to',
+    positionals: ['filePath', 'mapping'],
+  },
+  {
+    name: 'merge',
+    tool: 'merge_files',
+    summary: 'Merge comma-separated files into one and point their importers at it',
+    positionals: ['destination', 'sources'],
+  },
+  {
+    name: 'move-files',
+    tool: 'move_files',
+    summary: 'Move the files a glob matches to a destination template such as src/api/{dir}.{ext}',
+    positionals: ['pattern', 'destination'],
+  },
+];
+
+export const findCliCommand = (name: string | undefined): CliCommand | undefined => {
+  return CLI_COMMANDS.find(command => command.name === name);
+};
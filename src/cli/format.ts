@@ -0,0 +1,83 @@
+import type { ChangePreview } from '../types';
+
+// Renders a tool result for people: previews as diffs, generated content
+// as-is, everything else as an indented outline
+export const formatResult = (result: Record<string, unknown>): string => {
+  const { preview, content, format, ...rest } = result;
+
+  if (isChangePreview(preview)) {
+    return formatPreview(preview);
+  }
+  if (typeof content === 'string' && content.length > 0) {
+    return content.endsWith('\n') ? content : `${content}\n`;
+  }
+
+  return formatValue(rest, 0).join('\n') + '\n';
+};
+
+export const formatError = (result: Record<string, unknown>): string => {
+  const lines = [`Error (${result.errorCode}): ${result.error}`];
+
+  const issues = Array.isArray(result.issues) ? (result.issues as Array<{ path: string; message: string }>) : [];
+  for (const issue of issues) {
+    lines.push(`  ${toFlag(issue.path)}: ${issue.message}`);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+export const toFlag = (optionName: string): string => {
+  return `--${optionName.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+};
+
+const formatPreview = (preview: ChangePreview): string => {
+  const lines = preview.diffs.map(fileDiff => fileDiff.diff.replace(/\n$/, ''));
+
+  for (const filePath of preview.createdFiles) {
+    lines.push(`created: ${filePath}`);
+  }
+  for (const filePath of preview.deletedFiles) {
+    lines.push(`deleted: ${filePath}`);
+  }
+  for (const move of preview.movedFiles) {
+    lines.push(`moved: ${move.from} -> ${move.to}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : 'No changes\n';
+};
+
+const formatValue = (value: unknown, depth: number): string[] => {
+  const indent = '  '.repeat(depth);
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isScalar(item)) {
+        return [`${indent}- ${item}`];
+      }
+      const [first = '', ...others] = formatValue(item, depth + 1);
+      return [`${indent}- ${first.trimStart()}`, ...others];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, entry]) => {
+      if (entry === undefined || (Array.isArray(entry) && entry.length === 0)) {
+        return [];
+      }
+      if (isScalar(entry)) {
+        return [`${indent}${key}: ${entry}`];
+      }
+      return [`${indent}${key}:`, ...formatValue(entry, depth + 1)];
+    });
+  }
+
+  return [`${indent}${value}`];
+};
+
+const isScalar = (value: unknown): boolean => {
+  return value === null || typeof value !== 'object';
+};
+
+const isChangePreview = (value: unknown): value is ChangePreview => {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ChangePreview).diffs);
+};
@@ -0,0 +1,213 @@
+import { callTool, listTools } from '../tools/index';
+import { CLI_COMMANDS, findCliCommand, type CliCommand } from './commands';
+import { formatError, formatResult, toFlag } from './format';
+
+export type CliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+export const EXIT_SUCCESS = 0;
+// The tool failed or its check did not pass
+export const EXIT_FAILURE = 1;
+// The command line itself was wrong
+export const EXIT_USAGE = 2;
+
+type PropertySchema = {
+  type?: string;
+  description?: string;
+  enum?: string[];
+};
+
+const defaultOutput: CliOutput = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+// Runs one subcommand through the same tool registry the MCP server uses and
+// returns the process exit code
+export const runCli = async (args: string[], output: CliOutput = defaultOutput): Promise<number> => {
+  const [name, ...rest] = args;
+
+  if (name === 'help') {
+    const topic = findCliCommand(rest[0]);
+    output.stdout(topic ? formatCommandHelp(topic) : formatHelp());
+    return EXIT_SUCCESS;
+  }
+
+  let command = findCliCommand(name);
+  if (!command) {
+    output.stderr(`Unknown command: ${name}\n\n${formatHelp()}`);
+    return EXIT_USAGE;
+  }
+  if (rest.includes('--help')) {
+    output.stdout(formatCommandHelp(command));
+    return EXIT_SUCCESS;
+  }
+
+  const switchFlag = Object.keys(command.switches ?? {}).find(flag => rest.includes(flag));
+  if (switchFlag) {
+    command = findCliCommand(command.switches![switchFlag])!;
+    rest.splice(rest.indexOf(switchFlag), 1);
+  }
+
+  const json = rest.includes('--json');
+  const parsed = parseArguments(command, rest.filter(arg => arg !== '--json'));
+  if ('error' in parsed) {
+    output.stderr(`${parsed.error}\n\n${formatCommandHelp(command)}`);
+    return EXIT_USAGE;
+  }
+
+  const result = (await callTool(command.tool, parsed.options)).structuredContent ?? {};
+
+  if (json) {
+    output.stdout(JSON.stringify(result, null, 2) + '\n');
+  } else if (result.errorCode) {
+    output.stderr(formatError(result));
+  } else {
+    output.stdout(formatResult(result));
+  }
+
+  // Only arguments the registry rejected are a usage error, not a tool refusing valid ones
+  if (result.issues) {
+    return EXIT_USAGE;
+  }
+  if (result.errorCode || result.success === false || command.isFailure?.(result)) {
+    return EXIT_FAILURE;
+  }
+  return EXIT_SUCCESS;
+};
+
+// Positionals fill the command's option names in order; `--some-flag value`,
+// `--some-flag=value`, `--flag` and `--no-flag` set the camelCase option.
+// Object options take JSON and list options JSON or comma-separated values.
+// Unknown flags are passed on so the registry reports them with the others.
+const parseArguments = (
+  command: CliCommand,
+  args: string[]
+): { options: Record<string, unknown> } | { error: string } => {
+  const properties = getToolProperties(command.tool);
+  const options: Record<string, unknown> = { ...command.defaults };
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [flag, inlineValue] = splitFlag(arg.slice(2));
+    const optionName = toOptionName(flag);
+    const negatedName = flag.startsWith('no-') ? toOptionName(flag.slice(3)) : undefined;
+
+    if (negatedName && properties[negatedName]?.type === 'boolean' && inlineValue === undefined) {
+      options[negatedName] = false;
+      continue;
+    }
+
+    const type = properties[optionName]?.type;
+    if (type === 'boolean' && inlineValue === undefined) {
+      options[optionName] = true;
+      continue;
+    }
+
+    const value = inlineValue ?? args[++index];
+    if (value === undefined) {
+      return { error: `Missing value for --${flag}` };
+    }
+    options[optionName] = parseValue(value, type);
+  }
+
+  if (positionals.length > command.positionals.length) {
+    return { error: `Unexpected argument: ${positionals[command.positionals.length]}` };
+  }
+  positionals.forEach((value, index) => {
+    const optionName = command.positionals[index]!;
+    options[optionName] = parseValue(value, properties[optionName]?.type);
+  });
+
+  const missingFlag = command.requiredFlags?.find(name => options[name] === undefined);
+  if (missingFlag) {
+    return { error: `Missing ${toFlag(missingFlag)}` };
+  }
+
+  return { options };
+};
+
+const splitFlag = (flag: string): [string, string | undefined] => {
+  const separator = flag.indexOf('=');
+  return separator === -1 ? [flag, undefined] : [flag.slice(0, separator), flag.slice(separator + 1)];
+};
+
+const toOptionName = (flag: string): string => {
+  return flag.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+};
+
+const parseValue = (value: string, type: string | undefined): unknown => {
+  if (type === 'boolean') {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if ((type === 'number' || type === 'integer') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === 'array' && !value.trimStart().startsWith('[')) {
+    return value.split(',');
+  }
+  if (type === 'array' || type === 'object') {
+    // Invalid JSON is passed on as text for the registry to report
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+const getToolProperties = (toolName: string): Record<string, PropertySchema> => {
+  const tool = listTools().find(candidate => candidate.name === toolName);
+  return (tool?.inputSchema.properties ?? {}) as Record<string, PropertySchema>;
+};
+
+const formatHelp = (): string => {
+  const width = Math.max(...CLI_COMMANDS.map(command => command.name.length));
+  const lines = [
+    'Usage: ts-tools <command> [arguments] [options] [--json]',
+    '',
+    'Commands:',
+    ...CLI_COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Run `ts-tools <command> --help` for the options of a command.',
+    'Exit codes: 0 success, 1 the tool failed or its check did not pass, 2 invalid command line.',
+  ];
+  return lines.join('\n') + '\n';
+};
+
+const formatCommandHelp = (command: CliCommand): string => {
+  const properties = getToolProperties(command.tool);
+  const usage = [
+    ...command.positionals.map(name => (command.defaults?.[name] !== undefined ? `[${name}]` : `<${name}>`)),
+    ...(command.requiredFlags ?? []).map(name => formatFlag(name, properties[name] ?? {})),
+  ];
+  const flags = Object.entries(properties).filter(([name]) => !command.positionals.includes(name));
+
+  const lines = [`Usage: ts-tools ${[command.name, ...usage].join(' ')} [options] [--json]`, '', command.summary];
+  if (flags.length > 0) {
+    const labels = flags.map(([name, property]) => formatFlag(name, property));
+    const width = Math.max(...labels.map(label => label.length));
+
+    lines.push('', 'Options:');
+    flags.forEach(([, property], index) => {
+      lines.push(`  ${labels[index]!.padEnd(width)}  ${property.description ?? ''}`.trimEnd());
+    });
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const formatFlag = (name: string, property: PropertySchema): string => {
+  return property.type === 'boolean'
+    ? `--[no-]${toFlag(name).slice(2)}`
+    : `${toFlag(name)} <${property.enum?.join('|') ?? property.type ?? 'value'}>`;
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerOptions } from './http-server';
+
+describe('HTTP transport', () => {
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  const startServer = async (token?: string, options?: Partial<HttpServerOptions>) => {
+    httpServer = await startHttpServer({ port: 0, host: '127.0.0.1', token, ...options });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  };
+
+  afterEach(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  describe('with a bearer token', () => {
+    beforeEach(async () => {
+      await startServer('secret');
+    });
+
+    it('should serve the tool registry over streamable HTTP', async () => {
+      const client = new Client({ name: 'http-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+          requestInit: { headers: { Authorization: 'Bearer secret' } },
+        })
+      );
+
+      const { tools } = await client.listTools();
+      const result = await client.callTool({ name: 'undo_last_operation', arguments: {} });
+      await client.close();
+
+      expect(tools.map(tool => tool.name)).toContain('move_typescript_file');
+      expect(result.structuredContent).toMatchObject({ errorCode: 'NOTHING_TO_UNDO' });
+    });
+
+    it('should keep sessions of different clients apart', async () => {
+      const connect = async () => {
+        const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+          requestInit: { headers: { Authorization: 'Bearer secret' } },
+        });
+        const client = new Client({ name: 'http-client', version: '1.0.0' });
+        await client.connect(transport);
+        return { client, transport };
+      };
+
+      const first = await connect();
+      const second = await connect();
+
+      expect(first.transport.sessionId).toBeDefined();
+      expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+      expect((await second.client.listTools()).tools.length).toBeGreaterThan(0);
+
+      await first.client.close();
+      await second.client.close();
+    });
+
+    it('should reject requests without the token', async () => {
+      const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+      const wrong = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        body: '{}',
+        headers: { Authorization: 'Bearer wrong' },
+      });
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should require a session for requests other than initialize', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('without a token', () => {
+    beforeEach(async () => {
+      await startServer();
+    });
+
+    it('should reject requests for other host names', async () => {
+      // fetch does not let the Host header be overridden
+      const requestWithHost = (method: string, pathname: string, host: string) =>
+        new Promise<number>((resolve, reject) => {
+          const request = http.request(`${baseUrl}${pathname}`, { method, headers: { Host: host } }, (response) => {
+            response.resume();
+            resolve(response.statusCode ?? 0);
+          });
+          request.on('error', reject);
+          request.end(
+            method === 'POST'
+              ? JSON.stringify({
+                  jsonrpc: '2.0',
+                  id: 1,
+                  method: 'initialize',
+                  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'c', version: '1' } },
+                })
+              : undefined
+          );
+        });
+
+      const port = new URL(baseUrl).port;
+      expect(await requestWithHost('POST', '/mcp', `attacker.example:${port}`)).toBe(403);
+      expect(await requestWithHost('GET', '/sse', `attacker.example:${port}`)).toBe(403);
+      expect(await requestWithHost('POST', '/mcp', `localhost:${port}`)).not.toBe(403);
+    });
+
+    it('should serve clients of the older HTTP+SSE transport', async () => {
+      const client = new Client({ name: 'sse-client', version: '1.0.0' });
+      await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+      const { tools } = await client.listTools();
+      await client.close();
+
+      expect(tools.map(tool => tool.name)).toContain('rename_typescript_symbol');
+    });
+  });
+
+  describe('with a short idle timeout', () => {
+    beforeEach(async () => {
+      await startServer(undefined, { sessionIdleTimeout: 50 });
+    });
+
+    it('should close sessions that stay idle', async () => {
+      const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+      const client = new Client({ name: 'http-client', version: '1.0.0' });
+      await client.connect(transport);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'mcp-session-id': transport.sessionId!,
+        },
+      });
+      await client.close();
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
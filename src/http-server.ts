@@ -0,0 +1,224 @@
+import * as http from 'http';
+import * as os from 'os';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AddressInfo } from 'net';
+import { createServer } from './server';
+
+export type HttpServerOptions = {
+  port: number;
+  host: string;
+  // Clients must send `Authorization: Bearer <token>` when set
+  token?: string;
+  // Extra `Host` header values to accept, e.g. `devcontainer:3000`
+  allowedHosts?: string[];
+  // Sessions without requests for this long are closed, in milliseconds
+  sessionIdleTimeout?: number;
+};
+
+type Session<T> = {
+  transport: T;
+  lastActivity: number;
+};
+
+export const MCP_ENDPOINT = '/mcp';
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '']);
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+// Serves the tools over streamable HTTP at /mcp, plus the older HTTP+SSE
+// transport at /sse for clients that do not support it yet. Every session gets
+// its own MCP server instance backed by the shared tool registry and project cache.
+export const startHttpServer = async (options: HttpServerOptions): Promise<http.Server> => {
+  const streamableTransports = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseTransports = new Map<string, Session<SSEServerTransport>>();
+  const sessionIdleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+  // Filled in once the port is known; rejects pages on other origins that
+  // resolve their own host name to this server
+  const allowedHosts: string[] = [];
+
+  const handleStreamableRequest = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    const body = request.method === 'POST' ? await readJsonBody(request) : undefined;
+    const sessionId = request.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? touch(streamableTransports.get(sessionId)) : undefined;
+
+    if (!transport) {
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        sendJsonRpcError(response, sessionId === undefined ? 400 : 404, 'No valid session ID provided');
+        return;
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableTransports.set(id, { transport: newTransport, lastActivity: Date.now() });
+        },
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableTransports.delete(newTransport.sessionId);
+        }
+      };
+      await createServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(request, response, body);
+  };
+
+  const handleSseRequest = async (request: http.IncomingMessage, response: http.ServerResponse, url: URL) => {
+    if (request.method === 'GET' && url.pathname === SSE_ENDPOINT) {
+      // The transport only checks the host of the messages it is posted
+      if (!allowedHosts.includes(request.headers.host ?? '')) {
+        response.writeHead(403).end(`Invalid Host header: ${request.headers.host}`);
+        return;
+      }
+
+      const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, response, {
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+      });
+      sseTransports.set(transport.sessionId, { transport, lastActivity: Date.now() });
+      transport.onclose = () => {
+        sseTransports.delete(transport.sessionId);
+      };
+      await createServer().connect(transport);
+      return;
+    }
+
+    const transport = touch(sseTransports.get(url.searchParams.get('sessionId') ?? ''));
+    if (request.method !== 'POST' || !transport) {
+      sendJsonRpcError(response, 404, 'Unknown SSE session');
+      return;
+    }
+    await transport.handlePostMessage(request, response, await readJsonBody(request));
+  };
+
+  const httpServer = http.createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (!isAuthorized(request, options.token)) {
+      response.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      response.end();
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_ENDPOINT) {
+      handled = handleStreamableRequest(request, response);
+    } else if (url.pathname === SSE_ENDPOINT || url.pathname === SSE_MESSAGES_ENDPOINT) {
+      handled = handleSseRequest(request, response, url);
+    } else {
+      response.writeHead(404).end();
+      return;
+    }
+
+    handled.catch((error) => {
+      console.error('Failed to handle MCP request:', error);
+      if (!response.headersSent) {
+        sendJsonRpcError(response, getErrorStatus(error), String(error));
+      }
+    });
+  });
+
+  // Clients that go away without closing their session leave it behind
+  const closeIdleSessions = () => {
+    const idleSince = Date.now() - sessionIdleTimeout;
+    for (const sessions of [streamableTransports, sseTransports]) {
+      for (const [id, session] of sessions) {
+        if (session.lastActivity <= idleSince) {
+          sessions.delete(id);
+          session.transport.close().catch(() => undefined);
+        }
+      }
+    }
+  };
+  const idleTimer = setInterval(closeIdleSessions, Math.min(sessionIdleTimeout, 60 * 1000));
+  idleTimer.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(idleTimer);
+    for (const session of [...streamableTransports.values(), ...sseTransports.values()]) {
+      session.transport.close().catch(() => undefined);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      const { port } = httpServer.address() as AddressInfo;
+      allowedHosts.push(...getAllowedHosts(options.host, port), ...(options.allowedHosts ?? []));
+      resolve();
+    });
+  });
+
+  return httpServer;
+};
+
+const touch = <T>(session: Session<T> | undefined): T | undefined => {
+  if (session) {
+    session.lastActivity = Date.now();
+  }
+  return session?.transport;
+};
+
+// The `Host` header values browsers send for the bound address. A wildcard
+// address accepts the addresses of every network interface.
+const getAllowedHosts = (host: string, port: number): string[] => {
+  let hosts = [host];
+  if (WILDCARD_HOSTS.has(host)) {
+    hosts = Object.values(os.networkInterfaces())
+      .flatMap(addresses => addresses ?? [])
+      .map(address => address.address)
+      .concat('localhost');
+  } else if (LOOPBACK_HOSTS.has(host)) {
+    hosts = [...LOOPBACK_HOSTS];
+  }
+  return hosts.map(name => `${name.includes(':') ? `[${name}]` : name}:${port}`);
+};
+
+const isAuthorized = (request: http.IncomingMessage, token: string | undefined): boolean => {
+  if (!token) {
+    return true;
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(request.headers.authorization ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+const readJsonBody = async (request: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw Object.assign(new Error('Request body is too large'), { status: 413 });
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+};
+
+const getErrorStatus = (error: unknown): number => {
+  if (error instanceof SyntaxError) {
+    return 400;
+  }
+  return (error as { status?: number }).status ?? 500;
+};
+
+const sendJsonRpcError = (response: http.ServerResponse, status: number, message: string): void => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+};
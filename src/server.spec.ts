@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { pathToFileURL } from 'url';
+import { createServer } from './server';
+import { reloadProject } from './services/project-reload/index';
+import { clearOperationJournal } from './utils/operation-journal';
+
+describe('MCP server', () => {
+  let client: Client;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-test-')));
+    fs.writeFileSync(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    fs.writeFileSync(path.join(testDir, 'a.ts'), "import { b } from './b';\nexport const a = b;\n");
+    fs.writeFileSync(path.join(testDir, 'b.ts'), 'export const b = 1;\n');
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)]);
+    // Loads the output schemas the client validates results against
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    clearOperationJournal();
+    await reloadProject();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should declare an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type).toBe('object');
+    }
+  });
+
+  it('should return structured content that matches the output schema', async () => {
+    const result = await client.callTool({
+      name: 'move_typescript_file',
+      arguments: { source: path.join(testDir, 'b.ts'), destination: path.join(testDir, 'lib', 'b.ts') },
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({ success: true });
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0]!.text)).toEqual(result.structuredContent);
+  });
+
+  it('should flag failed calls with isError and an error code', async () => {
+    const missing = await client.callTool({
+      name: 'move_typescript_file',
+      arguments: { source: path.join(testDir, 'missing.ts'), destination: path.join(testDir, 'c.ts') },
+    });
+    expect(missing.isError).toBe(true);
+    expect(missing.structuredContent).toMatchObject({ success: false, errorCode: 'FILE_NOT_FOUND' });
+
+    const taken = await client.callTool({
+      name: 'rename_file_or_folder',
+      arguments: { sourcePath: path.join(testDir, 'a.ts'), destinationPath: path.join(testDir, 'b.ts') },
+    });
+    expect(taken.structuredContent).toMatchObject({ errorCode: 'DESTINATION_EXISTS' });
+
+    const undo = await client.callTool({ name: 'undo_last_operation', arguments: {} });
+    expect(undo.structuredContent).toMatchObject({ errorCode: 'NOTHING_TO_UNDO' });
+  });
+
+  it('should report invalid arguments field by field', async () => {
+    const result = await client.callTool({ name: 'rename_typescript_symbol', arguments: { filePath: 1 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ errorCode: 'INVALID_ARGUMENTS' });
+    expect((result.structuredContent as { issues: unknown[] }).issues).toHaveLength(2);
+  });
+
+  it('should send progress notifications when the request carries a progress token', async () => {
+    const updates: Array<{ progress: number; total?: number }> = [];
+    const result = await client.callTool(
+      { name: 'visualize_dependencies', arguments: { rootPath: testDir } },
+      undefined,
+      { onprogress: progress => updates.push(progress) }
+    );
+
+    expect(result.isError).toBe(false);
+    expect(updates.length).toBeGreaterThan(0);
+    expect(updates[updates.length - 1]).toMatchObject({ progress: 4, total: 4 });
+  });
+
+  describe('workspace roots', () => {
+    let rootsClient: Client;
+    let roots: string[];
+    let listRootsFails: boolean;
+    let outsideDir: string;
+
+    beforeEach(async () => {
+      outsideDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-outside-')));
+      fs.writeFileSync(path.join(outsideDir, 'c.ts'), 'export const c = 1;\n');
+      roots = [testDir];
+      listRootsFails = false;
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      rootsClient = new Client({ name: 'roots-client', version: '1.0.0' }, { capabilities: { roots: { listChanged: true } } });
+      rootsClient.setRequestHandler(ListRootsRequestSchema, async () => {
+        if (listRootsFails) {
+          throw new Error('roots unavailable');
+        }
+        return { roots: roots.map(root => ({ uri: pathToFileURL(root).href })) };
+      });
+      await Promise.all([createServer().connect(serverTransport), rootsClient.connect(clientTransport)]);
+      await rootsClient.listTools();
+    });
+
+    afterEach(async () => {
+      await rootsClient.close();
+      fs.rmSync(outsideDir, { recursive: true, force: true });
+    });
+
+    it('should resolve relative paths and the tsconfig from the workspace root', async () => {
+      const result = await rootsClient.callTool({
+        name: 'rename_typescript_symbol',
+        arguments: { filePath: 'b.ts', oldName: 'b', newName: 'renamed', type: 'variable' },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({ success: true });
+      expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toContain("import { renamed } from './b';");
+    });
+
+    it('should reject paths outside the workspace roots', async () => {
+      const result = await rootsClient.callTool({
+        name: 'move_typescript_file',
+        arguments: { source: path.join(outsideDir, 'c.ts'), destination: path.join(testDir, 'c.ts') },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        errorCode: 'PATH_OUTSIDE_ROOTS',
+        issues: [{ path: 'source' }],
+      });
+      expect(fs.existsSync(path.join(outsideDir, 'c.ts'))).toBe(true);
+    });
+
+    it('should refuse operations that would write files outside the workspace roots', async () => {
+      fs.mkdirSync(path.join(testDir, 'lib'));
+      fs.renameSync(path.join(testDir, 'b.ts'), path.join(testDir, 'lib', 'b.ts'));
+      fs.writeFileSync(path.join(testDir, 'a.ts'), "import { b } from './lib/b';\nexport const a = b;\n");
+      roots = [path.join(testDir, 'lib')];
+      await rootsClient.sendRootsListChanged();
+
+      const result = await rootsClient.callTool({
+        name: 'move_typescript_file',
+        arguments: { source: path.join(testDir, 'lib', 'b.ts'), destination: path.join(testDir, 'lib', 'c.ts') },
+      });
+
+      expect(result.structuredContent).toMatchObject({ success: false, errorCode: 'PATH_OUTSIDE_ROOTS' });
+      expect(fs.existsSync(path.join(testDir, 'lib', 'b.ts'))).toBe(true);
+      expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toContain("from './lib/b'");
+    });
+
+    it('should refuse to write files while the roots cannot be listed', async () => {
+      listRootsFails = true;
+      await rootsClient.sendRootsListChanged();
+
+      const refused = await rootsClient.callTool({
+        name: 'move_typescript_file',
+        arguments: { source: path.join(testDir, 'b.ts'), destination: path.join(testDir, 'c.ts') },
+      });
+
+      expect(refused.isError).toBe(true);
+      expect(refused.structuredContent).toMatchObject({ errorCode: 'PATH_OUTSIDE_ROOTS' });
+      expect((refused.structuredContent as { error: string }).error).toContain('roots unavailable');
+      expect(fs.existsSync(path.join(testDir, 'b.ts'))).toBe(true);
+
+      const analysis = await rootsClient.callTool({
+        name: 'analyze_typescript_dependencies',
+        arguments: { filePath: path.join(testDir, 'b.ts'), direction: 'upstream' },
+      });
+      expect(analysis.isError).toBe(false);
+
+      listRootsFails = false;
+      await rootsClient.sendRootsListChanged();
+
+      const moved = await rootsClient.callTool({
+        name: 'move_typescript_file',
+        arguments: { source: path.join(testDir, 'b.ts'), destination: path.join(testDir, 'c.ts') },
+      });
+      expect(moved.structuredContent).toMatchObject({ success: true });
+    });
+
+    it('should pick up roots added by the client', async () => {
+      roots = [testDir, outsideDir];
+      await rootsClient.sendRootsListChanged();
+
+      const result = await rootsClient.callTool({
+        name: 'analyze_typescript_dependencies',
+        arguments: { filePath: path.join(outsideDir, 'c.ts'), direction: 'downstream', projectRoot: outsideDir },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({ target: path.join(outsideDir, 'c.ts') });
+    });
+  });
+});
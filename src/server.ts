@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  RootsListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { callTool, listTools } from './tools/index';
+import type { OperationContext } from './types';
+import { describeError } from './utils/errors';
+import { clearOperationJournal, withOperationSession } from './utils/operation-journal';
+import { withWorkspaceRoots } from './utils/workspace-roots';
+
+export const createServer = (): Server => {
+  const server = new Server(
+    {
+      name: 'typescript-tools-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  const sessionId = randomUUID();
+  let workspaceRoots: string[] = [];
+  let rootsError: string | undefined;
+  let pendingRoots: Promise<void> | undefined;
+
+  // Clients without the roots capability leave every path allowed. When a
+  // client declares roots but they cannot be listed, nothing may be written.
+  const refreshRoots = () => {
+    if (!server.getClientCapabilities()?.roots) {
+      return;
+    }
+
+    pendingRoots = server
+      .listRoots()
+      .then(({ roots }) => {
+        workspaceRoots = roots.filter(root => root.uri.startsWith('file://')).map(root => fileURLToPath(root.uri));
+        rootsError = undefined;
+      })
+      .catch((error) => {
+        console.error('Failed to list workspace roots:', error);
+        rootsError = describeError(error).error;
+      });
+  };
+
+  server.oninitialized = refreshRoots;
+  server.onclose = () => clearOperationJournal(sessionId);
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => refreshRoots());
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: listTools(),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args, _meta } = request.params;
+    const progressToken = _meta?.progressToken;
+    const context: OperationContext = {
+      signal: extra.signal,
+      onProgress:
+        progressToken === undefined
+          ? undefined
+          : (update) => {
+              extra
+                .sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } })
+                .catch(() => undefined);
+            },
+    };
+
+    // Paths are checked against the roots this client reported last
+    await pendingRoots;
+    return withOperationSession(sessionId, () =>
+      withWorkspaceRoots(workspaceRoots, () => callTool(name, args, context), rootsError)
+    );
+  });
+
+  return server;
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import { batchRefactor } from './index';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('batchRefactor', () => {
+  const { file, read } = useTestWorkspace('batch-refactor');
+
+  beforeEach(() => {
+    fs.writeFileSync(file('tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    fs.mkdirSync(file('utils'));
+    fs.writeFileSync(file('utils/math.ts'), 'export const add = (a: number, b: number) => a + b;\n');
+    fs.writeFileSync(file('utils/format.ts'), "import { add } from './math';\nexport const total = String(add(1, 2));\n");
+    fs.writeFileSync(file('app.ts'), "import { add } from './utils/math';\nexport const result = add(2, 3);\n");
+  });
+
+  it('should run each operation on the result of the previous ones and write once', async () => {
+    const result = await batchRefactor({
+      operations: [
+        { operation: 'move', source: file('utils/math.ts'), destination: file('utils/arithmetic.ts') },
+        { operation: 'rename_symbol', filePath: file('utils/arithmetic.ts'), oldName: 'add', newName: 'sum', type: 'variable' },
+        { operation: 'rename_file', sourcePath: file('utils'), destinationPath: file('lib') },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.operations.map(operation => operation.success)).toEqual([true, true, true]);
+    expect(fs.existsSync(file('utils'))).toBe(false);
+    expect(read('lib/arithmetic.ts')).toBe('export const sum = (a: number, b: number) => a + b;\n');
+    expect(read('lib/format.ts')).toContain("import { sum } from './arithmetic';");
+    expect(read('app.ts')).toContain("import { sum } from './lib/arithmetic';");
+    expect(result.movedFiles).toContainEqual({ from: file('utils/math.ts'), to: file('lib/arithmetic.ts') });
+
+    expect(getLastOperation()?.tool).toBe('batch_refactor');
+  });
+
+  it('should leave every file untouched when an operation fails', async () => {
+    const result = await batchRefactor({
+      operations: [
+        { operation: 'move', source: file('utils/math.ts'), destination: file('math.ts') },
+        { operation: 'rename_symbol', filePath: file('math.ts'), oldName: 'missing', newName: 'other', type: 'variable' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('SYMBOL_NOT_FOUND');
+    expect(result.error).toStartWith('Operation 2 (rename_symbol) failed:');
+    expect(result.operations.map(operation => operation.success)).toEqual([true, false]);
+    expect(fs.existsSync(file('math.ts'))).toBe(false);
+    expect(read('app.ts')).toContain("from './utils/math'");
+    expect(getLastOperation()).toBeUndefined();
+  });
+
+  it('should reject a batch that introduces compile errors', async () => {
+    const result = await batchRefactor({
+      operations: [
+        { operation: 'move', source: file('utils/math.ts'), destination: file('math.ts'), updateImports: false },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('COMPILE_ERRORS');
+    expect(result.diagnostics?.map(diagnostic => diagnostic.filePath)).toContain(file('app.ts'));
+    expect(fs.existsSync(file('utils/math.ts'))).toBe(true);
+
+    const unchecked = await batchRefactor({
+      operations: [
+        { operation: 'move', source: file('utils/math.ts'), destination: file('math.ts'), updateImports: false },
+      ],
+      typeCheck: false,
+    });
+
+    expect(unchecked.success).toBe(true);
+    expect(fs.existsSync(file('math.ts'))).toBe(true);
+  });
+
+  it('should preview the combined changes without writing', async () => {
+    const result = await batchRefactor({
+      operations: [
+        { operation: 'move', source: file('utils/math.ts'), destination: file('math.ts') },
+        { operation: 'move', source: file('math.ts'), destination: file('core/math.ts') },
+      ],
+      preview: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.preview?.movedFiles).toEqual([{ from: file('utils/math.ts'), to: file('core/math.ts') }]);
+    expect(result.preview?.diffs.map(fileDiff => fileDiff.filePath)).toContain(file('app.ts'));
+    expect(fs.existsSync(file('core'))).toBe(false);
+    expect(read('app.ts')).toContain("from './utils/math'");
+  });
+
+  it('should keep .js extensions when renaming a folder under NodeNext', async () => {
+    fs.writeFileSync(file('tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true, module: 'nodenext' } }));
+    fs.writeFileSync(file('utils/format.ts'), "import { add } from './math.js';\nexport const total = String(add(1, 2));\n");
+    fs.writeFileSync(file('app.ts'), "import { add } from './utils/math.js';\nexport const result = add(2, 3);\n");
+
+    const result = await batchRefactor({
+      operations: [{ operation: 'rename_file', sourcePath: file('utils'), destinationPath: file('lib') }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(read('app.ts')).toContain("from './lib/math.js'");
+    expect(read('lib/format.ts')).toContain("from './math.js'");
+  });
+
+  it('should rewrite require and mock references when renaming a folder', async () => {
+    fs.writeFileSync(file('math.spec.ts'), "jest.mock('./utils/math');\nconst math = require('./utils/math');\nexport { math };\n");
+
+    const result = await batchRefactor({
+      operations: [{ operation: 'rename_file', sourcePath: file('utils'), destinationPath: file('lib') }],
+      typeCheck: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.operations[0]?.updatedFiles).toContain(file('math.spec.ts'));
+    expect(read('math.spec.ts')).toBe("jest.mock('./lib/math');\nconst math = require('./lib/math');\nexport { math };\n");
+  });
+});
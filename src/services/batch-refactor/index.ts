@@ -0,0 +1,313 @@
+import { Project, ts, type Diagnostic } from 'ts-morph';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  BatchOperation,
+  BatchOperationResult,
+  BatchRefactorOptions,
+  BatchRefactorResult,
+  CompileDiagnostic,
+  OperationContext,
+} from '../../types';
+import { collectTrackedChanges, collectTrackedFileChanges, createMoveTracker, type MoveTracker } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
+import { createProgressTracker } from '../../utils/progress';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { moveFileInProject, moveFilesInProject } from '../file-move/index';
+import { renameSymbolInProject } from '../rename/index';
+import { optimizeImportsInFile } from '../import-optimization/index';
+
+type OperationOutcome = Omit<BatchOperationResult, 'operation'>;
+
+// Runs every operation against the same in-memory project, in order, and
+// writes the end state in one journaled operation. Any failure, or a new
+// compile error, discards the whole batch. Tools built on batches pass their
+// own journal entry.
+export const batchRefactor = async (
+  options: BatchRefactorOptions,
+  context?: OperationContext,
+  journalEntry?: { tool: string; description: string }
+): Promise<BatchRefactorResult> => {
+  const { operations, typeCheck = true, preview = false, projectRoot } = options;
+
+  if (operations.length === 0) {
+    return { success: true, operations: [] };
+  }
+
+  try {
+    const location = resolveProjectLocation(getOperationPath(operations[0]!), projectRoot);
+
+    return await withProject(location, async (project) => {
+      const tracker = createMoveTracker();
+      const progress = createProgressTracker(context, operations.length);
+      const baseline = typeCheck ? countErrors(project) : undefined;
+      const results: BatchOperationResult[] = [];
+      const renamedDirectories: string[] = [];
+
+      for (const [index, operation] of operations.entries()) {
+        progress.step(`Operation ${index + 1} of ${operations.length} (${operation.operation})`);
+        const outcome = await runOperation(project, tracker, operation, renamedDirectories).catch(
+          (error): OperationOutcome => ({ success: false, ...describeError(error) })
+        );
+        results.push({ operation: operation.operation, ...outcome });
+
+        if (!outcome.success) {
+          return {
+            success: false,
+            operations: results,
+            error: `Operation ${index + 1} (${operation.operation}) failed: ${outcome.error}`,
+            errorCode: outcome.errorCode,
+          };
+        }
+      }
+
+      const movedFiles = tracker.getMoves();
+      const updatedFiles = project
+        .getSourceFiles()
+        .filter(sourceFile => !sourceFile.isSaved())
+        .map(sourceFile => sourceFile.getFilePath() as string);
+
+      if (baseline) {
+        const diagnostics = findNewErrors(project, baseline);
+        if (diagnostics.length > 0) {
+          return {
+            success: false,
+            operations: results,
+            diagnostics,
+            error: `The batch introduces ${diagnostics.length} compile error(s); no files were changed`,
+            errorCode: 'COMPILE_ERRORS',
+          };
+        }
+      }
+
+      if (preview) {
+        return {
+          success: true,
+          operations: results,
+          updatedFiles,
+          movedFiles,
+          preview: collectTrackedChanges(project, tracker),
+        };
+      }
+
+      await applyOperation({
+        tool: journalEntry?.tool ?? 'batch_refactor',
+        description: journalEntry?.description ?? `Apply ${operations.length} refactoring operation(s)`,
+        changes: collectTrackedFileChanges(project, tracker),
+        removeEmptyDirectories: renamedDirectories,
+        signal: context?.signal,
+      });
+
+      return {
+        success: true,
+        operations: results,
+        updatedFiles,
+        movedFiles,
+      };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      operations: [],
+      ...describeError(error),
+    };
+  }
+};
+
+const runOperation = async (
+  project: Project,
+  tracker: MoveTracker,
+  operation: BatchOperation,
+  renamedDirectories: string[]
+): Promise<OperationOutcome> => {
+  switch (operation.operation) {
+    case 'move':
+      return relocateFile(project, tracker, operation.source, operation.destination, operation.updateImports ?? true);
+
+    case 'rename_file': {
+      const sourcePath = path.resolve(operation.sourcePath);
+      const destinationPath = path.resolve(operation.destinationPath);
+      if (project.getSourceFile(sourcePath)) {
+        return relocateFile(project, tracker, sourcePath, destinationPath, operation.updateImports ?? true);
+      }
+
+      const failure = checkMove(tracker, sourcePath, destinationPath);
+      if (failure) {
+        return failure;
+      }
+
+      // Every reference inside and outside the folder is rewritten in one pass,
+      // with the extension rules and reference kinds of the standalone tools,
+      // before the files are relocated in memory
+      const directory = project.getDirectory(sourcePath);
+      const sourceFilePaths = directory?.getDescendantSourceFiles().map(sourceFile => sourceFile.getFilePath() as string) ?? [];
+      const moves = [...sourceFilePaths, ...listAssets(project, tracker, sourcePath)].map(filePath => ({
+        from: filePath,
+        to: destinationPath + filePath.slice(sourcePath.length),
+      }));
+      const updatedFiles = (operation.updateImports ?? true) ? moveFilesInProject(project, moves) : [];
+      for (const move of moves.filter(move => sourceFilePaths.includes(move.from))) {
+        relocateWithoutImports(project, move.from, move.to);
+      }
+
+      tracker.move(sourcePath, destinationPath);
+      renamedDirectories.push(sourcePath);
+      return { success: true, updatedFiles };
+    }
+
+    case 'rename_symbol': {
+      const { filePath, oldName, newName, type } = operation;
+      const { success, updatedFiles, error, errorCode } = renameSymbolInProject(project, {
+        filePath: path.resolve(filePath),
+        oldName,
+        newName,
+        type,
+      });
+      return { success, updatedFiles, error, errorCode };
+    }
+
+    case 'optimize_imports': {
+      const { operation: _, filePath, ...optimizeOptions } = operation;
+      const sourceFile = project.getSourceFile(path.resolve(filePath));
+      if (!sourceFile) {
+        return { success: false, error: `Source file not found: ${filePath}`, errorCode: 'FILE_NOT_FOUND' };
+      }
+
+      const changes = await optimizeImportsInFile(sourceFile, optimizeOptions);
+      return { success: true, updatedFiles: changes.length > 0 ? [sourceFile.getFilePath()] : [] };
+    }
+  }
+};
+
+// Moves one file; files the project does not parse (assets, JSON) are only
+// relocated on disk when the batch is written
+const relocateFile = async (
+  project: Project,
+  tracker: MoveTracker,
+  source: string,
+  destination: string,
+  updateImports: boolean
+): Promise<OperationOutcome> => {
+  const absoluteSource = path.resolve(source);
+  const absoluteDestination = path.resolve(destination);
+  const failure = checkMove(tracker, absoluteSource, absoluteDestination);
+  if (failure) {
+    return failure;
+  }
+
+  const sourceFile = project.getSourceFile(absoluteSource);
+  let updatedFiles: string[] = [];
+  if (sourceFile && updateImports) {
+    updatedFiles = await moveFileInProject(project, sourceFile, absoluteDestination);
+  } else if (sourceFile) {
+    relocateWithoutImports(project, absoluteSource, absoluteDestination);
+  }
+
+  tracker.move(absoluteSource, absoluteDestination);
+  return { success: true, updatedFiles };
+};
+
+// Files on disk under a folder that the project does not parse (assets) and
+// that no earlier operation moved away
+const listAssets = (project: Project, tracker: MoveTracker, directoryPath: string): string[] => {
+  const listFiles = (targetPath: string): string[] =>
+    fs
+      .readdirSync(targetPath, { withFileTypes: true })
+      .flatMap(entry => (entry.isDirectory() ? listFiles(path.join(targetPath, entry.name)) : [path.join(targetPath, entry.name)]));
+
+  if (!fs.statSync(directoryPath, { throwIfNoEntry: false })?.isDirectory()) {
+    return [];
+  }
+  return listFiles(directoryPath).filter(
+    filePath => !project.getSourceFile(filePath) && tracker.getOriginalPath(filePath) === filePath
+  );
+};
+
+// SourceFile.move() also rewrites the importers, so the file is recreated
+// instead; deleting the original keeps module resolution from finding it
+const relocateWithoutImports = (project: Project, source: string, destination: string): void => {
+  const sourceFile = project.getSourceFileOrThrow(source);
+  // Refreshes ts-morph's module references of edited files first: adding a file
+  // re-resolves them, and earlier edits may have forgotten their literals
+  sourceFile.getReferencingSourceFiles();
+  project.createSourceFile(destination, sourceFile.getFullText());
+  sourceFile.delete();
+};
+
+const checkMove = (tracker: MoveTracker, source: string, destination: string): OperationOutcome | undefined => {
+  if (!tracker.exists(source)) {
+    return { success: false, error: `Source path not found: ${source}`, errorCode: 'FILE_NOT_FOUND' };
+  }
+  if (tracker.exists(destination)) {
+    return { success: false, error: `Destination already exists: ${destination}`, errorCode: 'DESTINATION_EXISTS' };
+  }
+  return undefined;
+};
+
+const getOperationPath = (operation: BatchOperation): string => {
+  switch (operation.operation) {
+    case 'move':
+      return operation.source;
+    case 'rename_file':
+      return operation.sourcePath;
+    case 'rename_symbol':
+    case 'optimize_imports':
+      return operation.filePath;
+  }
+};
+
+// Errors are compared by code and message rather than position, since the
+// batch moves files and shifts lines
+const countErrors = (project: Project): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const diagnostic of getErrors(project)) {
+    const key = getDiagnosticKey(diagnostic);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const findNewErrors = (project: Project, baseline: Map<string, number>): CompileDiagnostic[] => {
+  const remaining = new Map(baseline);
+  const newErrors: CompileDiagnostic[] = [];
+
+  for (const diagnostic of getErrors(project)) {
+    const key = getDiagnosticKey(diagnostic);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      continue;
+    }
+
+    newErrors.push({
+      filePath: diagnostic.getSourceFile()?.getFilePath(),
+      line: diagnostic.getLineNumber(),
+      code: diagnostic.getCode(),
+      message: getMessage(diagnostic),
+    });
+  }
+
+  return newErrors;
+};
+
+// Only the project's own files are checked; checking lib.d.ts on every batch
+// takes seconds and cannot be affected by a refactoring
+const getErrors = (project: Project): Diagnostic[] => {
+  const program = project.getProgram();
+  return project
+    .getSourceFiles()
+    .flatMap(sourceFile => [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)])
+    .filter(diagnostic => diagnostic.getCategory() === ts.DiagnosticCategory.Error);
+};
+
+const getDiagnosticKey = (diagnostic: Diagnostic): string => {
+  return `${diagnostic.getCode()}:${getMessage(diagnostic)}`;
+};
+
+const getMessage = (diagnostic: Diagnostic): string => {
+  const messageText = diagnostic.getMessageText();
+  return typeof messageText === 'string'
+    ? messageText
+    : ts.flattenDiagnosticMessageText(messageText.compilerObject, '\n');
+};
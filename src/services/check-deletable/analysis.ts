@@ -1,14 +1,17 @@
 import { Project, SourceFile, SyntaxKind } from 'ts-morph';
 import * as path from 'path';
 import * as fs from 'fs';
-import type { DeletableAnalysisResult } from '../../types';
+import type { DeletableAnalysisResult, OperationContext } from '../../types';
+import { describeError } from '../../utils/errors';
+import { createProgressTracker } from '../../utils/progress';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
 
 export const analyzeFileDeletability = async (
   filePath: string,
-  includeTypes: boolean = true
+  includeTypes: boolean = true,
+  projectRoot?: string,
+  context?: OperationContext
 ): Promise<DeletableAnalysisResult> => {
-  let project: Project | undefined;
-
   try {
     // Verify the target file exists
     if (!fs.existsSync(filePath)) {
@@ -16,71 +19,53 @@ export const analyzeFileDeletability = async (
         filePath,
         isDeletable: false,
         error: `File not found: ${filePath}`,
+        errorCode: 'FILE_NOT_FOUND',
         references: [],
         exports: [],
       };
     }
 
-    const tsConfigPath = path.join(process.cwd(), 'tsconfig.json');
-    const hasValidTsConfig = fs.existsSync(tsConfigPath);
-
-    project = new Project({
-      ...(hasValidTsConfig ? { tsConfigFilePath: tsConfigPath } : {}),
-      useInMemoryFileSystem: false,
-    });
-
-    // Add all TypeScript files in the current directory
-    project.addSourceFilesAtPaths('**/*.{ts,tsx}');
-
-    // Ensure the target file is added - normalize path to handle symlinks
-    const normalizedFilePath = fs.realpathSync(filePath);
-    let targetFile = project.getSourceFile(normalizedFilePath) || project.getSourceFile(filePath);
-    if (!targetFile) {
-      try {
-        targetFile = project.addSourceFileAtPath(filePath);
-      } catch (addError) {
-        return {
-          filePath,
-          isDeletable: false,
-          error: `Unable to parse file: ${filePath}. ${addError}`,
-          references: [],
-          exports: [],
-        };
+    const location = resolveProjectLocation(filePath, projectRoot);
+
+    return await withProject(location, async (project) => {
+      // Ensure the target file is added - normalize path to handle symlinks
+      const normalizedFilePath = fs.realpathSync(filePath);
+      let targetFile = project.getSourceFile(normalizedFilePath) || project.getSourceFile(filePath);
+      if (!targetFile) {
+        try {
+          targetFile = project.addSourceFileAtPath(filePath);
+        } catch (addError) {
+          return {
+            filePath,
+            isDeletable: false,
+            error: `Unable to parse file: ${filePath}. ${addError}`,
+            errorCode: 'PARSE_ERROR',
+            references: [],
+            exports: [],
+          };
+        }
       }
-    }
 
-    const references = await findAllReferences(targetFile, project, includeTypes);
-    const exports = extractExports(targetFile);
-    const isDeletable = references.length === 0;
+      const references = await findAllReferences(targetFile, project, includeTypes, context);
+      const exports = extractExports(targetFile);
+      const isDeletable = references.length === 0;
 
-    return {
-      filePath,
-      isDeletable,
-      references,
-      exports,
-      summary: generateSummary(isDeletable, references),
-    };
+      return {
+        filePath,
+        isDeletable,
+        references,
+        exports,
+        summary: generateSummary(isDeletable, references),
+      };
+    });
   } catch (error) {
     return {
       filePath,
       isDeletable: false,
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
       references: [],
       exports: [],
     };
-  } finally {
-    // Clean up project resources
-    if (project) {
-      try {
-        const host = project.getModuleResolutionHost?.();
-        if (host && 'clearCache' in host && typeof host.clearCache === 'function') {
-          host.clearCache();
-        }
-        (project as any)._context?.compilerFactory?.removeCompilerApi?.();
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
 };
 
@@ -153,7 +138,8 @@ const extractExports = (targetFile: SourceFile): DeletableAnalysisResult['export
 const findAllReferences = async (
   targetFile: SourceFile,
   project: Project,
-  includeTypes: boolean
+  includeTypes: boolean,
+  context?: OperationContext
 ): Promise<DeletableAnalysisResult['references']> => {
   const references: DeletableAnalysisResult['references'] = [];
   const targetPath = targetFile.getFilePath();
@@ -170,7 +156,11 @@ const findAllReferences = async (
   }
 
   // Search through all source files in the project
-  for (const sourceFile of project.getSourceFiles()) {
+  const sourceFiles = project.getSourceFiles();
+  const progress = createProgressTracker(context, sourceFiles.length);
+  for (const sourceFile of sourceFiles) {
+    progress.step('Scanning files for references');
+
     // Skip the target file itself
     if (sourceFile === targetFile) continue;
 
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { checkDeletable } from './index';
+import { undoLastOperation } from '../operation-history/index';
+import { clearOperationJournal } from '../../utils/operation-journal';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -29,6 +31,7 @@ describe('checkDeletable', () => {
   });
 
   afterEach(() => {
+    clearOperationJournal();
     // Clean up test directory
     if (fs.existsSync(testDir)) {
       fs.rmSync(testDir, { recursive: true, force: true });
@@ -373,4 +376,26 @@ export const useTarget = () => {
       expect(fs.existsSync(mockFile)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  it('should not overwrite existing files unless asked to', async () => {
+    const targetFile = path.join(testDir, 'target.ts');
+    const specFile = path.join(testDir, 'target.spec.ts');
+    fs.writeFileSync(targetFile, 'export const targetFunction = () => 1;\n');
+    fs.writeFileSync(specFile, '// hand-written spec\n');
+
+    const refused = await checkDeletable({ filePath: targetFile, generateTests: true });
+
+    expect(refused.errorCode).toBe('DESTINATION_EXISTS');
+    expect(refused.testFileGenerated).toBeUndefined();
+    expect(fs.readFileSync(specFile, 'utf-8')).toBe('// hand-written spec\n');
+
+    const result = await checkDeletable({ filePath: targetFile, generateTests: true, overwrite: true });
+
+    expect(result.testFileGenerated).toBe(specFile);
+    expect(fs.readFileSync(specFile, 'utf-8')).toContain('target - Deletion Safety Test');
+
+    // Generated files are journaled like any other change
+    await undoLastOperation();
+    expect(fs.readFileSync(specFile, 'utf-8')).toBe('// hand-written spec\n');
+  });
+});
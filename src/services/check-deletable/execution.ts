@@ -1,72 +1,47 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import type { DeletableAnalysisResult } from '../../types';
+import type { FileChange } from '../../utils/operation-journal';
 
-export const generateTestFile = async (
-  analysis: DeletableAnalysisResult
-): Promise<string | undefined> => {
-  try {
-    const { filePath, isDeletable, references, exports } = analysis;
-    const fileName = path.basename(filePath, path.extname(filePath));
-    const fileDir = path.dirname(filePath);
-    const testFilePath = path.join(fileDir, `${fileName}.spec.ts`);
+export const generateTestFile = (analysis: DeletableAnalysisResult): FileChange => {
+  const { filePath, isDeletable, references, exports } = analysis;
+  const fileName = path.basename(filePath, path.extname(filePath));
+  const fileDir = path.dirname(filePath);
 
-    const testContent = generateTestContent(fileName, isDeletable, references, exports, filePath);
-    
-    fs.writeFileSync(testFilePath, testContent);
-    return testFilePath;
-  } catch (error) {
-    console.error('Failed to generate test file:', error);
-    return undefined;
-  }
+  return {
+    filePath: path.join(fileDir, `${fileName}.spec.ts`),
+    content: generateTestContent(fileName, isDeletable, references, exports, filePath),
+  };
 };
 
-export const createMockStructure = async (
-  analysis: DeletableAnalysisResult
-): Promise<string[]> => {
+export const createMockStructure = (analysis: DeletableAnalysisResult): FileChange[] => {
   const { filePath, references } = analysis;
-  const mockFiles: string[] = [];
-  
-  try {
-    const fileDir = path.dirname(filePath);
-    const mocksDir = path.join(fileDir, '__mocks__');
-    
-    // Create __mocks__ directory if it doesn't exist
-    if (!fs.existsSync(mocksDir)) {
-      fs.mkdirSync(mocksDir, { recursive: true });
-    }
+  const mocksDir = path.join(path.dirname(filePath), '__mocks__');
+  const mockFiles: FileChange[] = [];
 
-    // Create mock files for each referencing file
-    const referencingFiles = new Set(references.map(ref => ref.file));
-    
-    for (const refFile of referencingFiles) {
-      const refFileName = path.basename(refFile, path.extname(refFile));
-      const mockFilePath = path.join(mocksDir, `${refFileName}.mock.ts`);
-      
-      const mockContent = generateMockContent(refFile, references.filter(ref => ref.file === refFile));
-      
-      fs.writeFileSync(mockFilePath, mockContent);
-      mockFiles.push(mockFilePath);
-    }
+  // Create mock files for each referencing file
+  const referencingFiles = new Set(references.map(ref => ref.file));
 
-    // Create a package mock if there are external-looking references
-    const hasExternalLookingRefs = references.some(ref => 
-      ref.type === 'dynamic_import' || ref.importedNames.includes('*')
-    );
-    
-    if (hasExternalLookingRefs) {
-      const packageMockPath = path.join(mocksDir, 'package.mock.ts');
-      const packageMockContent = generatePackageMockContent(analysis);
-      
-      fs.writeFileSync(packageMockPath, packageMockContent);
-      mockFiles.push(packageMockPath);
-    }
+  for (const refFile of referencingFiles) {
+    const refFileName = path.basename(refFile, path.extname(refFile));
+    mockFiles.push({
+      filePath: path.join(mocksDir, `${refFileName}.mock.ts`),
+      content: generateMockContent(refFile, references.filter(ref => ref.file === refFile)),
+    });
+  }
 
-    return mockFiles;
-  } catch (error) {
-    console.error('Failed to create mock structure:', error);
-    return [];
+  // Create a package mock if there are external-looking references
+  const hasExternalLookingRefs = references.some(ref => 
+    ref.type === 'dynamic_import' || ref.importedNames.includes('*')
+  );
+
+  if (hasExternalLookingRefs) {
+    mockFiles.push({
+      filePath: path.join(mocksDir, 'package.mock.ts'),
+      content: generatePackageMockContent(analysis),
+    });
   }
+
+  return mockFiles;
 };
 
 const generateTestContent = (
@@ -1,50 +1,76 @@
-import type { CheckDeletableOptions, CheckDeletableResult } from '../../types';
+import * as fs from 'fs';
+import type { CheckDeletableOptions, CheckDeletableResult, OperationContext } from '../../types';
+import { describeError } from '../../utils/errors';
+import { applyOperation, type FileChange } from '../../utils/operation-journal';
+import { throwIfCancelled } from '../../utils/progress';
 import { analyzeFileDeletability } from './analysis';
 import { generateTestFile, createMockStructure } from './execution';
 
 export const checkDeletable = async (
-  options: CheckDeletableOptions
+  options: CheckDeletableOptions,
+  context?: OperationContext
 ): Promise<CheckDeletableResult> => {
-  const { filePath, includeTypes = true, generateTests = false, createMocks = false } = options;
+  const {
+    filePath,
+    includeTypes = true,
+    generateTests = false,
+    createMocks = false,
+    overwrite = false,
+    projectRoot,
+  } = options;
 
   try {
     // Phase 1: Analysis
-    const analysis = await analyzeFileDeletability(filePath, includeTypes);
+    const analysis = await analyzeFileDeletability(filePath, includeTypes, projectRoot, context);
     
     if (analysis.error) {
       return {
         analysis,
         error: analysis.error,
+        errorCode: analysis.errorCode,
       };
     }
 
     // Phase 2: Execution (optional)
-    let testFileGenerated: string | undefined;
-    let mockFilesGenerated: string[] = [];
+    throwIfCancelled(context?.signal);
+    const testFile = generateTests ? generateTestFile(analysis) : undefined;
+    const mockFiles = createMocks ? createMockStructure(analysis) : [];
+    const changes: FileChange[] = [...(testFile ? [testFile] : []), ...mockFiles];
 
-    if (generateTests) {
-      testFileGenerated = await generateTestFile(analysis);
+    // Generated files never replace existing ones (e.g. a hand-written spec) unless asked to
+    const existingFile = overwrite ? undefined : changes.find(change => fs.existsSync(change.filePath));
+    if (existingFile) {
+      return {
+        analysis,
+        error: `File already exists: ${existingFile.filePath}; pass overwrite to replace it`,
+        errorCode: 'DESTINATION_EXISTS',
+      };
     }
 
-    if (createMocks) {
-      mockFilesGenerated = await createMockStructure(analysis);
+    if (changes.length > 0) {
+      await applyOperation({
+        tool: 'check_deletable',
+        description: `Generate ${changes.length} file${changes.length === 1 ? '' : 's'} for ${filePath}`,
+        changes,
+        signal: context?.signal,
+      });
     }
 
     return {
       analysis,
-      testFileGenerated,
-      mockFilesGenerated,
+      testFileGenerated: testFile?.filePath,
+      mockFilesGenerated: mockFiles.map(change => change.filePath),
     };
   } catch (error) {
     return {
       analysis: {
         filePath,
         isDeletable: false,
-        error: error instanceof Error ? error.message : String(error),
+        ...describeError(error),
         references: [],
         exports: [],
       },
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
   }
 };
@@ -174,4 +174,27 @@ test('should handle invalid TypeScript file', async () => {
   const result = await organizeComments(testFile);
 
   expect(result.success).toBe(true);
-});
\ No newline at end of file
+});
+test('should return a diff without writing the file in preview mode', async () => {
+  const testFile = join(tempDir, 'preview.ts');
+  const content = `/**
+ * @file Shared values
+ */
+/**
+ * @file Shared values
+ */
+export const value = 1;
+`;
+
+  await writeFile(testFile, content);
+  const result = await organizeComments(testFile, {
+    deduplicateComments: true,
+    moveToTop: true,
+    preview: true
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.preview?.diffs).toHaveLength(1);
+  expect(result.preview?.diffs[0]?.diff).toContain('- * @file Shared values');
+  expect(await readFile(testFile, 'utf-8')).toBe(content);
+});
@@ -1,10 +1,15 @@
-import { readFile, writeFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
+import type { ChangePreview, ErrorCode } from '../../types';
+import { createFilePreview } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
 
 export type CommentOrganizationOptions = {
   deduplicateComments?: boolean;
   moveToTop?: boolean;
   preserveInlineComments?: boolean;
   removeEmptyComments?: boolean;
+  preview?: boolean;
 };
 
 export type CommentOrganizationResult = {
@@ -15,7 +20,9 @@ export type CommentOrganizationResult = {
     moved: string[];
     deduplicated: string[];
   };
+  preview?: ChangePreview;
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export const organizeComments = async (
@@ -27,6 +34,7 @@ export const organizeComments = async (
     moveToTop = true,
     preserveInlineComments = true,
     removeEmptyComments = true,
+    preview = false,
   } = options;
 
   try {
@@ -43,8 +51,17 @@ export const organizeComments = async (
     };
 
     const processedContent = processFileContent(content, options, result);
+
+    if (preview) {
+      result.preview = createFilePreview(filePath, content, processedContent);
+      return result;
+    }
     
-    await writeFile(filePath, processedContent, 'utf-8');
+    await applyOperation({
+      tool: 'organize_comments',
+      description: `Organize comments in ${filePath}`,
+      changes: [{ filePath, content: processedContent }],
+    });
     
     return result;
   } catch (error) {
@@ -56,7 +73,7 @@ export const organizeComments = async (
         moved: [],
         deduplicated: []
       },
-      error: error instanceof Error ? error.message : String(error)
+      ...describeError(error)
     };
   }
 };
@@ -5,6 +5,9 @@ import type {
   ConditionalOptimizationResult,
   ConditionalOptimization,
 } from '../../types';
+import { createFilePreview } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
 import { cleanupProject } from '../../utils/project-cleanup';
 
 export const optimizeConditionals = async (
@@ -15,6 +18,7 @@ export const optimizeConditionals = async (
     convertToSwitch = true,
     flattenNestedConditions: shouldFlattenNestedConditions = true,
     optimizeBoolean = true,
+    preview = false,
   } = options;
   let project: Project | undefined;
 
@@ -51,8 +55,12 @@ export const optimizeConditionals = async (
     const optimizedCode = sourceFile.getFullText();
     const hasChanges = optimizedCode !== originalContent;
 
-    if (hasChanges) {
-      await sourceFile.save();
+    if (hasChanges && !preview) {
+      await applyOperation({
+        tool: 'optimize_conditionals',
+        description: `Optimize conditionals in ${filePath}`,
+        changes: [{ filePath: sourceFile.getFilePath(), content: optimizedCode }],
+      });
     }
 
     return {
@@ -60,13 +68,14 @@ export const optimizeConditionals = async (
       optimized: hasChanges,
       optimizations,
       optimizedCode: hasChanges ? optimizedCode : undefined,
+      preview: preview ? createFilePreview(sourceFile.getFilePath(), originalContent, optimizedCode) : undefined,
     };
   } catch (error) {
     return {
       filePath,
       optimized: false,
       optimizations: [],
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
   } finally {
     if (project) {
@@ -1,63 +1,51 @@
 import { Project, SourceFile, Node, ImportDeclaration, ExportDeclaration } from 'ts-morph';
 import * as path from 'path';
 import type { DependencyAnalysisOptions, DependencyAnalysisResult, DependencyInfo } from '../../types';
+import { describeError } from '../../utils/errors';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
 
 export const analyzeDependencies = async (
   options: DependencyAnalysisOptions
 ): Promise<DependencyAnalysisResult> => {
-  const { filePath, direction, includeTypes = true } = options;
-  let project: Project | undefined;
+  const { filePath, direction, includeTypes = true, projectRoot } = options;
 
   try {
-    project = new Project({
-      tsConfigFilePath: path.join(process.cwd(), 'tsconfig.json'),
-      useInMemoryFileSystem: false,
-    });
-
-    const targetFile = project.getSourceFile(filePath);
-    if (!targetFile) {
-      return {
-        target: filePath,
-        dependencies: [],
-        error: `File not found: ${filePath}`,
-      };
-    }
+    const location = resolveProjectLocation(filePath, projectRoot);
+
+    return await withProject(location, async (project) => {
+      const targetFile = project.getSourceFile(filePath);
+      if (!targetFile) {
+        return {
+          target: filePath,
+          dependencies: [],
+          error: `File not found: ${filePath}`,
+          errorCode: 'FILE_NOT_FOUND',
+        };
+      }
 
-    const dependencies: DependencyInfo[] = [];
+      const dependencies: DependencyInfo[] = [];
 
-    if (direction === 'downstream' || direction === 'both') {
-      const downstreamDeps = await getDownstreamDependencies(targetFile, project, includeTypes);
-      dependencies.push(...downstreamDeps);
-    }
+      if (direction === 'downstream' || direction === 'both') {
+        const downstreamDeps = await getDownstreamDependencies(targetFile, project, includeTypes);
+        dependencies.push(...downstreamDeps);
+      }
 
-    if (direction === 'upstream' || direction === 'both') {
-      const upstreamDeps = await getUpstreamDependencies(targetFile, project, includeTypes);
-      dependencies.push(...upstreamDeps);
-    }
+      if (direction === 'upstream' || direction === 'both') {
+        const upstreamDeps = await getUpstreamDependencies(targetFile, project, includeTypes);
+        dependencies.push(...upstreamDeps);
+      }
 
-    return {
-      target: filePath,
-      dependencies: removeDuplicates(dependencies),
-    };
+      return {
+        target: filePath,
+        dependencies: removeDuplicates(dependencies),
+      };
+    });
   } catch (error) {
     return {
       target: filePath,
       dependencies: [],
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
-  } finally {
-    // Clean up project resources
-    if (project) {
-      try {
-        const host = project.getModuleResolutionHost?.();
-        if (host && 'clearCache' in host && typeof host.clearCache === 'function') {
-          host.clearCache();
-        }
-        (project as any)._context?.compilerFactory?.removeCompilerApi?.();
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
 };
 
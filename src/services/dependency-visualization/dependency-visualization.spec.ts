@@ -1,5 +1,6 @@
 import { test, expect, describe, beforeEach, afterEach } from 'bun:test';
 import { visualizeDependencies } from './index';
+import { acquireProject, clearProjectRegistry, resolveProjectLocation } from '../../utils/project-registry';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -13,6 +14,7 @@ describe('visualizeDependencies', () => {
   });
 
   afterEach(async () => {
+    clearProjectRegistry();
     await fs.rm(testDir, { recursive: true, force: true });
   });
 
@@ -84,4 +86,40 @@ describe('visualizeDependencies', () => {
     expect(parsed.nodes).toBeDefined();
     expect(Array.isArray(parsed.nodes)).toBe(true);
   });
-});
\ No newline at end of file
+
+  test('should report progress while parsing and scanning files', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'main.ts'), "import { helper } from '../utils/helper';\n");
+    await fs.writeFile(path.join(testDir, 'utils', 'helper.ts'), "export const helper = () => 'hello';\n");
+
+    const updates: Array<{ progress: number; total?: number; message?: string }> = [];
+    const result = await visualizeDependencies({ rootPath: testDir }, { onProgress: update => updates.push(update) });
+
+    expect(result.error).toBeUndefined();
+    expect(updates[0]).toMatchObject({ progress: 1, total: 4, message: 'Parsing files' });
+    expect(updates[updates.length - 1]).toEqual({ progress: 4, total: 4, message: 'Scanning imports' });
+  });
+
+  test('should stop when cancelled', async () => {
+    await fs.writeFile(path.join(testDir, 'simple.ts'), "export const simple = 'test';\n");
+
+    const controller = new AbortController();
+    controller.abort();
+    const result = await visualizeDependencies({ rootPath: testDir }, { signal: controller.signal });
+
+    expect(result.errorCode).toBe('CANCELLED');
+    expect(result.nodes).toEqual([]);
+  });
+
+  test('should not keep node_modules files in the cached project', async () => {
+    await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+    await fs.mkdir(path.join(testDir, 'node_modules', 'lib'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'node_modules', 'lib', 'index.ts'), 'export const lib = 1;\n');
+    await fs.writeFile(path.join(testDir, 'src', 'main.ts'), 'export const main = 1;\n');
+
+    const result = await visualizeDependencies({ rootPath: testDir, includeNodeModules: true });
+
+    expect(result.statistics.totalFiles).toBe(2);
+    const project = acquireProject(resolveProjectLocation(testDir));
+    expect(project.getSourceFile(path.resolve(testDir, 'node_modules', 'lib', 'index.ts'))).toBeUndefined();
+  });
+});
@@ -1,17 +1,21 @@
-import { Project, SourceFile } from 'ts-morph';
+import type { SourceFile } from 'ts-morph';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { glob } from 'glob';
 import type {
+  OperationContext,
   DependencyVisualizationOptions,
   DependencyVisualizationResult,
   DependencyNode,
   CircularDependency,
 } from '../../types';
-import { cleanupProject } from '../../utils/project-cleanup';
+import { describeError } from '../../utils/errors';
+import { createProgressTracker } from '../../utils/progress';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
 
 export const visualizeDependencies = async (
-  options: DependencyVisualizationOptions
+  options: DependencyVisualizationOptions,
+  context?: OperationContext
 ): Promise<DependencyVisualizationResult> => {
   const {
     rootPath,
@@ -20,13 +24,8 @@ export const visualizeDependencies = async (
     maxDepth = 10,
     detectCircular = true,
   } = options;
-  let project: Project | undefined;
 
   try {
-    project = new Project({
-      useInMemoryFileSystem: false,
-    });
-
     // Find all TypeScript files
     const pattern = includeNodeModules 
       ? '**/*.{ts,tsx}' 
@@ -42,41 +41,62 @@ export const visualizeDependencies = async (
       absolute: true,
     });
 
-    // Add files to project
-    for (const file of files) {
-      try {
-        project.addSourceFileAtPath(file);
-      } catch {
-        // Skip files that can't be parsed
+    return await withProject(resolveProjectLocation(rootPath), async (project) => {
+      // Every file is parsed once and scanned once
+      const progress = createProgressTracker(context, files.length * 2);
+
+      // Reuse already parsed files and add the rest to the project
+      const sourceFiles: SourceFile[] = [];
+      const addedFiles: SourceFile[] = [];
+      for (const file of files) {
+        try {
+          const sourceFile = project.getSourceFile(file);
+          if (sourceFile) {
+            sourceFiles.push(sourceFile);
+          } else {
+            const addedFile = project.addSourceFileAtPath(file);
+            sourceFiles.push(addedFile);
+            addedFiles.push(addedFile);
+          }
+        } catch {
+          // Skip files that can't be parsed
+        }
+        progress.step('Parsing files');
       }
-    }
 
-    // Build dependency graph
-    const nodes = await buildDependencyGraph(project, rootPath, maxDepth);
-    
-    // Detect circular dependencies
-    let circularDependencies: CircularDependency[] = [];
-    if (detectCircular) {
-      circularDependencies = detectCircularDependencies(nodes);
-    }
+      try {
+        // Build dependency graph
+        const nodes = await buildDependencyGraph(sourceFiles, rootPath, maxDepth, () => progress.step('Scanning imports'));
 
-    // Generate output based on format
-    const content = generateVisualization(nodes, circularDependencies, format);
+        // Detect circular dependencies
+        let circularDependencies: CircularDependency[] = [];
+        if (detectCircular) {
+          circularDependencies = detectCircularDependencies(nodes);
+        }
 
-    const statistics = {
-      totalFiles: nodes.filter(n => n.type === 'file').length,
-      totalImports: nodes.reduce((sum, n) => sum + n.imports.length, 0),
-      maxDepth: calculateMaxDepth(nodes, rootPath),
-      circularCount: circularDependencies.length,
-    };
+        // Generate output based on format
+        const content = generateVisualization(nodes, circularDependencies, format);
 
-    return {
-      format,
-      content,
-      nodes,
-      circularDependencies,
-      statistics,
-    };
+        const statistics = {
+          totalFiles: nodes.filter(n => n.type === 'file').length,
+          totalImports: nodes.reduce((sum, n) => sum + n.imports.length, 0),
+          maxDepth: calculateMaxDepth(nodes, rootPath),
+          circularCount: circularDependencies.length,
+        };
+
+        return {
+          format,
+          content,
+          nodes,
+          circularDependencies,
+          statistics,
+        };
+      } finally {
+        // Files outside the project (e.g. node_modules) are parsed for this call
+        // only, so that they do not stay in the shared cached project
+        addedFiles.forEach(addedFile => project.removeSourceFile(addedFile));
+      }
+    });
   } catch (error) {
     return {
       format,
@@ -88,24 +108,21 @@ export const visualizeDependencies = async (
         maxDepth: 0,
         circularCount: 0,
       },
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
-  } finally {
-    if (project) {
-      cleanupProject(project);
-    }
   }
 };
 
 const buildDependencyGraph = async (
-  project: Project,
+  sourceFiles: SourceFile[],
   rootPath: string,
-  maxDepth: number
+  maxDepth: number,
+  onFileScanned: () => void
 ): Promise<DependencyNode[]> => {
   const nodes: DependencyNode[] = [];
-  const sourceFiles = project.getSourceFiles();
 
   for (const sourceFile of sourceFiles) {
+    onFileScanned();
     const filePath = sourceFile.getFilePath();
     const relativePath = path.relative(rootPath, filePath);
     
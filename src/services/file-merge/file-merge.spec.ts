@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import { mergeFiles } from './index';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('mergeFiles', () => {
+  const { file, read, write } = useTestWorkspace('file-merge');
+
+  beforeEach(() => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+    write(
+      'strings/trim.ts',
+      "import { EOL } from 'os';\n\nconst WHITESPACE = /\\s+/g;\n\nexport const squash = (value: string) => value.replace(WHITESPACE, ' ') + EOL;\n"
+    );
+    write(
+      'strings/case.ts',
+      "import { EOL, platform } from 'os';\nimport { squash } from './trim';\n\nexport const shout = (value: string) => squash(value).toUpperCase() + platform() + EOL;\n"
+    );
+    write('strings/index.ts', "export * from './trim';\nexport * from './case';\n");
+    write('app.ts', "import { shout } from './strings/case';\nimport { squash } from './strings/trim';\nexport const run = () => shout(squash('a'));\n");
+  });
+
+  it('should merge declarations and imports, delete the sources and rewrite importers', async () => {
+    const result = await mergeFiles({
+      sources: [file('strings/trim.ts'), file('strings/case.ts')],
+      destination: file('strings/text.ts'),
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      mergedSymbols: ['WHITESPACE', 'squash', 'shout'],
+      createdFile: true,
+      deletedFiles: [file('strings/trim.ts'), file('strings/case.ts')],
+    });
+    expect(fs.existsSync(file('strings/trim.ts'))).toBe(false);
+    expect(fs.existsSync(file('strings/case.ts'))).toBe(false);
+
+    const merged = read('strings/text.ts');
+    expect(merged.match(/from 'os'/g)).toHaveLength(1);
+    expect(merged).toContain("import { EOL, platform } from 'os';");
+    expect(merged).not.toContain("'./trim'");
+    expect(merged).toContain('const WHITESPACE = /\\s+/g;');
+    expect(merged).not.toContain('export const WHITESPACE');
+    expect(merged.indexOf('export const squash')).toBeLessThan(merged.indexOf('export const shout'));
+
+    expect(read('strings/index.ts')).toBe("export * from './text';\n");
+    expect(read('app.ts')).toContain("import { squash, shout } from './strings/text';");
+    expect(getLastOperation()?.tool).toBe('merge_files');
+  });
+
+  it('should redirect dynamic imports, require calls and mocks of the merged files', async () => {
+    write(
+      'lazy.ts',
+      "export const load = () => import('./strings/case');\nconst trim = require('./strings/trim');\njest.mock('./strings/trim');\nexport { trim };\n"
+    );
+
+    const result = await mergeFiles({
+      sources: [file('strings/trim.ts'), file('strings/case.ts')],
+      destination: file('strings/text.ts'),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.updatedFiles).toContain(file('lazy.ts'));
+    expect(read('lazy.ts')).toBe(
+      "export const load = () => import('./strings/text');\nconst trim = require('./strings/text');\njest.mock('./strings/text');\nexport { trim };\n"
+    );
+  });
+
+  it('should refuse names declared in more than one file', async () => {
+    write('strings/pad.ts', "const WHITESPACE = ' ';\nexport const pad = (value: string) => WHITESPACE + value;\n");
+
+    const result = await mergeFiles({
+      sources: [file('strings/trim.ts'), file('strings/pad.ts')],
+      destination: file('strings/text.ts'),
+    });
+
+    expect(result.errorCode).toBe('NAME_COLLISION');
+    expect(result.error).toContain('WHITESPACE');
+    expect(fs.existsSync(file('strings/trim.ts'))).toBe(true);
+    expect(fs.existsSync(file('strings/text.ts'))).toBe(false);
+  });
+
+  it('should refuse files with statements that are not declarations', async () => {
+    write('strings/setup.ts', "console.log('loaded');\nexport const ready = true;\n");
+
+    const result = await mergeFiles({
+      sources: [file('strings/trim.ts'), file('strings/setup.ts')],
+      destination: file('strings/text.ts'),
+    });
+
+    expect(result.errorCode).toBe('INVALID_ARGUMENTS');
+    expect(result.error).toContain("console.log('loaded');");
+  });
+});
@@ -0,0 +1,220 @@
+import { Node, type Project, type SourceFile } from 'ts-morph';
+import * as path from 'path';
+import type { FileMergeOptions, FileMergeResult } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { getRelativeModuleSpecifier, getSourcePaths } from '../../utils/import-extensions';
+import { updateModuleReferences } from '../../utils/module-references';
+import { applyOperation } from '../../utils/operation-journal';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { consolidateImportsFromSameModule } from '../import-optimization/index';
+import { getDeclaredNames } from '../symbol-move/dependencies';
+import { moveSymbolsInProject } from '../symbol-move/index';
+
+export const mergeFiles = async (options: FileMergeOptions): Promise<FileMergeResult> => {
+  const { preview = false, projectRoot } = options;
+  const sources = [...new Set(options.sources.map(source => path.resolve(source)))];
+  const destination = path.resolve(options.destination);
+
+  if (sources.length === 0) {
+    return { success: false, error: 'No files to merge', errorCode: 'INVALID_ARGUMENTS' };
+  }
+  if (sources.includes(destination)) {
+    return {
+      success: false,
+      error: `The destination is one of the files to merge: ${destination}`,
+      errorCode: 'INVALID_ARGUMENTS',
+    };
+  }
+
+  try {
+    const location = resolveProjectLocation(sources[0]!, projectRoot);
+
+    return await withProject(location, async (project) => {
+      const sourceFiles: SourceFile[] = [];
+      for (const source of sources) {
+        const sourceFile = project.getSourceFile(source);
+        if (!sourceFile) {
+          return { success: false, error: `Source file not found: ${source}`, errorCode: 'FILE_NOT_FOUND' };
+        }
+        sourceFiles.push(sourceFile);
+      }
+
+      const invalid = findUnmergeableStatement(sourceFiles);
+      if (invalid) {
+        return { success: false, error: invalid, errorCode: 'INVALID_ARGUMENTS' };
+      }
+      const collision = findNameCollision([...sourceFiles, project.getSourceFile(destination)]);
+      if (collision) {
+        return { success: false, error: collision, errorCode: 'NAME_COLLISION' };
+      }
+
+      const createdFile = !project.getSourceFile(destination);
+      const mergedSymbols: string[] = [];
+      const updatedFiles = new Set<string>();
+
+      // Files move in one after another; importers of a file merged earlier,
+      // including the files still to come, already point at the destination
+      for (const sourceFile of sourceFiles) {
+        const names = sourceFile.getStatements().flatMap(getDeclaredNames);
+        if (names.length === 0) {
+          continue;
+        }
+        const moved = moveSymbolsInProject(project, sourceFile.getFilePath(), names, destination);
+        if (!moved.success) {
+          return { success: false, error: moved.error, errorCode: moved.errorCode };
+        }
+        mergedSymbols.push(...(moved.movedSymbols ?? []));
+        moved.updatedFiles?.forEach(file => updatedFiles.add(file));
+      }
+
+      const destinationFile = project.getSourceFile(destination) ?? project.createSourceFile(destination, '');
+      await consolidateImportsFromSameModule(destinationFile, []);
+      redirectRemainingImports(project, sourceFiles, destinationFile, updatedFiles);
+
+      sourceFiles.forEach(sourceFile => sourceFile.delete());
+      sources.forEach(source => updatedFiles.delete(source));
+      updatedFiles.add(destination);
+
+      const result: FileMergeResult = {
+        success: true,
+        mergedSymbols,
+        createdFile,
+        deletedFiles: sources,
+        updatedFiles: [...updatedFiles],
+      };
+
+      if (preview) {
+        return { ...result, preview: { ...collectProjectChanges(project), deletedFiles: sources } };
+      }
+
+      await applyOperation({
+        tool: 'merge_files',
+        description: `Merge ${sources.length} file${sources.length === 1 ? '' : 's'} into ${destination}`,
+        changes: [...collectProjectFileChanges(project), ...sources.map(source => ({ filePath: source }))],
+      });
+
+      return result;
+    });
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
+
+// Only declarations, imports and local export lists can be moved; anything
+// else (side effects, re-exports, default exports) would be lost or change meaning
+const findUnmergeableStatement = (sourceFiles: SourceFile[]): string | undefined => {
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.getStatements()) {
+      const isMergeable =
+        Node.isImportDeclaration(statement) ||
+        (Node.isExportDeclaration(statement) && !statement.getModuleSpecifier()) ||
+        (getDeclaredNames(statement).length > 0 && !(Node.isExportable(statement) && statement.isDefaultExport()));
+      if (!isMergeable) {
+        const firstLine = statement.getText().split('\n')[0];
+        return `${sourceFile.getFilePath()}:${statement.getStartLineNumber()} cannot be merged: ${firstLine}`;
+      }
+    }
+  }
+  return undefined;
+};
+
+// Top-level names declared by more than one of the files, private helpers included
+const findNameCollision = (files: Array<SourceFile | undefined>): string | undefined => {
+  const declaredIn = new Map<string, string>();
+  for (const file of files) {
+    if (!file) {
+      continue;
+    }
+    for (const name of new Set(file.getStatements().flatMap(getDeclaredNames))) {
+      const other = declaredIn.get(name);
+      if (other) {
+        return `"${name}" is declared in both ${other} and ${file.getFilePath()}`;
+      }
+      declaredIn.set(name, file.getFilePath());
+    }
+  }
+  return undefined;
+};
+
+// Side-effect imports and `export *` of the merged files name no symbol, so
+// they are pointed at the destination directly
+const redirectRemainingImports = (
+  project: Project,
+  sourceFiles: SourceFile[],
+  destinationFile: SourceFile,
+  updatedFiles: Set<string>
+): void => {
+  for (const file of project.getSourceFiles()) {
+    if (sourceFiles.includes(file)) {
+      continue;
+    }
+    let reExportsAll = file
+      .getExportDeclarations()
+      .some(declaration => isStarExport(declaration) && declaration.getModuleSpecifierSourceFile() === destinationFile);
+
+    for (const declaration of [...file.getImportDeclarations(), ...file.getExportDeclarations()]) {
+      // Emptied files are no modules, so they no longer resolve
+      const isOfMergedFile = sourceFiles.some(
+        sourceFile =>
+          declaration.getModuleSpecifierSourceFile() === sourceFile ||
+          declaration.getModuleSpecifierValue() === getRelativeModuleSpecifier(file, sourceFile)
+      );
+      if (!isOfMergedFile) {
+        continue;
+      }
+      updatedFiles.add(file.getFilePath());
+
+      if (file === destinationFile || (isStarExport(declaration) && reExportsAll)) {
+        declaration.remove();
+        continue;
+      }
+      declaration.setModuleSpecifier(getRelativeModuleSpecifier(file, destinationFile));
+      reExportsAll ||= isStarExport(declaration);
+    }
+
+    if (reExportsAll) {
+      removeRedundantReExports(file, destinationFile);
+    }
+
+    // `import()`, `require()`, `jest.mock()` and the other references
+    const updates = updateModuleReferences(file, ({ kind, specifier }) => {
+      if (kind === 'import' || kind === 'export' || kind === 'referencePath' || !specifier.startsWith('.')) {
+        return undefined;
+      }
+      const resolvedPath = path.resolve(path.dirname(file.getFilePath()), specifier);
+      const isOfMergedFile = getSourcePaths(resolvedPath)
+        .flatMap(candidate => ['', '.ts', '.tsx', '/index.ts', '/index.tsx'].map(suffix => candidate + suffix))
+        .some(candidate => sourceFiles.some(sourceFile => sourceFile.getFilePath() === candidate));
+      return isOfMergedFile ? getRelativeModuleSpecifier(file, destinationFile) : undefined;
+    });
+    if (updates.length > 0) {
+      updatedFiles.add(file.getFilePath());
+    }
+  }
+};
+
+const isStarExport = (declaration: Node): boolean => {
+  return Node.isExportDeclaration(declaration) && !declaration.hasNamedExports() && !declaration.getNamespaceExport();
+};
+
+// Names a barrel re-exports one by one are covered by its `export *` of the
+// destination once the files are merged
+const removeRedundantReExports = (file: SourceFile, destinationFile: SourceFile): void => {
+  for (const declaration of file.getExportDeclarations()) {
+    const isOfDestination = declaration.getModuleSpecifierValue() === getRelativeModuleSpecifier(file, destinationFile);
+    if (!declaration.hasNamedExports() || !isOfDestination) {
+      continue;
+    }
+    declaration
+      .getNamedExports()
+      .filter(specifier => !specifier.getAliasNode())
+      .forEach(specifier => specifier.remove());
+    if (!declaration.wasForgotten() && declaration.getNamedExports().length === 0) {
+      declaration.remove();
+    }
+  }
+};
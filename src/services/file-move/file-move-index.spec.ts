@@ -93,4 +93,33 @@ describe('moveTypeScriptFile - index file handling', () => {
     const updatedContent = await fs.readFile(importerFile, 'utf-8');
     expect(updatedContent).toContain("import { helper } from './helpers/helper';");
   });
-});
\ No newline at end of file
+
+  test('should return diffs without touching disk in preview mode', async () => {
+    const utilFile = path.join(testDir, 'src', 'utils', 'helper.ts');
+    const importerFile = path.join(testDir, 'src', 'main.ts');
+    const newUtilFile = path.join(testDir, 'src', 'helpers', 'helper.ts');
+    const importerContent = "import { helper } from './utils/helper';\nconsole.log(helper());";
+
+    await fs.mkdir(path.join(testDir, 'src', 'utils'), { recursive: true });
+    await fs.writeFile(utilFile, 'export const helper = () => {};');
+    await fs.writeFile(importerFile, importerContent);
+
+    const result = await moveTypeScriptFile({
+      source: utilFile,
+      destination: newUtilFile,
+      preview: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.preview?.movedFiles).toEqual([{ from: path.resolve(utilFile), to: path.resolve(newUtilFile) }]);
+
+    const importerDiff = result.preview?.diffs.find(d => d.filePath === path.resolve(importerFile));
+    expect(importerDiff?.diff).toContain("-import { helper } from './utils/helper';");
+    expect(importerDiff?.diff).toContain("+import { helper } from './helpers/helper';");
+
+    // Nothing was written
+    expect(await fs.readFile(importerFile, 'utf-8')).toBe(importerContent);
+    expect(await fs.access(utilFile).then(() => true).catch(() => false)).toBe(true);
+    expect(await fs.access(newUtilFile).then(() => true).catch(() => false)).toBe(false);
+  });
+});
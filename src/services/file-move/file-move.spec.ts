@@ -39,4 +39,160 @@ describe('moveTypeScriptFile', () => {
     expect(await fs.access(destFile).then(() => true).catch(() => false)).toBe(true);
     expect(await fs.access(sourceFile).then(() => true).catch(() => false)).toBe(false);
   });
-});
\ No newline at end of file
+
+  test('should keep path aliases in the imports it rewrites', async () => {
+    await fs.mkdir(path.join(testDir, 'src', 'lib'), { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, paths: { '@/*': ['./src/*'] } } })
+    );
+    await fs.writeFile(path.join(testDir, 'src', 'format.ts'), 'export const format = (value: string) => value;\n');
+    await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "import { format } from '@/format';\nexport const run = format;\n");
+
+    const result = await moveTypeScriptFile({
+      source: path.join(testDir, 'src', 'format.ts'),
+      destination: path.join(testDir, 'src', 'lib', 'format.ts'),
+    });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8')).toContain("from '@/lib/format'");
+  });
+
+  test('should keep .js extensions and avoid directory imports under NodeNext', async () => {
+    await fs.mkdir(path.join(testDir, 'src', 'util'), { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, module: 'nodenext' } })
+    );
+    await fs.writeFile(path.join(testDir, 'src', 'util', 'index.ts'), 'export const util = 1;\n');
+    await fs.writeFile(path.join(testDir, 'src', 'format.ts'), "import { util } from './util/index.js';\nexport const format = util;\n");
+    await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "import { format } from './format.js';\nexport const run = format;\n");
+
+    const result = await moveTypeScriptFile({
+      source: path.join(testDir, 'src', 'format.ts'),
+      destination: path.join(testDir, 'src', 'lib', 'format.ts'),
+    });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8')).toContain("from './lib/format.js'");
+    expect(await fs.readFile(path.join(testDir, 'src', 'lib', 'format.ts'), 'utf-8')).toContain("from '../util/index.js'");
+  });
+
+  test('should update require, mock, import type, augmentation and reference path references', async () => {
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    await fs.writeFile(path.join(testDir, 'src', 'api.ts'), 'export type Client = { get(): string };\nexport const client: Client = { get: () => "" };\n');
+    await fs.writeFile(path.join(testDir, 'src', 'globals.d.ts'), 'declare const VERSION: string;\n');
+    await fs.writeFile(
+      path.join(testDir, 'src', 'api.test.ts'),
+      [
+        '/// <reference path="./globals.d.ts" />',
+        "jest.mock('./api');",
+        "vi.mock('./api', () => ({}));",
+        "const api = require('./api');",
+        "const apiPath = require.resolve('./api');",
+        "import legacy = require('./api');",
+        "type Client = import('./api').Client;",
+        "declare module './api' { interface Client { post(): void } }",
+        '',
+      ].join('\n')
+    );
+
+    const result = await moveTypeScriptFile({
+      source: path.join(testDir, 'src', 'api.test.ts'),
+      destination: path.join(testDir, 'test', 'api.test.ts'),
+    });
+
+    expect(result.success).toBe(true);
+    const content = await fs.readFile(path.join(testDir, 'test', 'api.test.ts'), 'utf-8');
+    expect(content).toContain('/// <reference path="../src/globals.d.ts" />');
+    expect(content).toContain("jest.mock('../src/api');");
+    expect(content).toContain("vi.mock('../src/api', () => ({}));");
+    expect(content).toContain("require('../src/api');");
+    expect(content).toContain("require.resolve('../src/api');");
+    expect(content).toContain("import legacy = require('../src/api');");
+    expect(content).toContain("import('../src/api').Client");
+    expect(content).toContain("declare module '../src/api'");
+    expect(result.referenceKinds).toEqual({
+      referencePath: 1,
+      mock: 2,
+      require: 1,
+      requireResolve: 1,
+      importEquals: 1,
+      importType: 1,
+      moduleAugmentation: 1,
+    });
+
+    // And the other way around: references to the moved file
+    const moveBack = await moveTypeScriptFile({
+      source: path.join(testDir, 'src', 'api.ts'),
+      destination: path.join(testDir, 'src', 'client', 'api.ts'),
+    });
+
+    expect(moveBack.success).toBe(true);
+    const updated = await fs.readFile(path.join(testDir, 'test', 'api.test.ts'), 'utf-8');
+    expect(updated).toContain("jest.mock('../src/client/api');");
+    expect(updated).toContain("declare module '../src/client/api'");
+    expect(moveBack.affectedImports?.find(entry => entry.kind === 'requireResolve')).toEqual({
+      file: path.resolve(testDir, 'test', 'api.test.ts'),
+      kind: 'requireResolve',
+      oldImport: '../src/api',
+      newImport: '../src/client/api',
+    });
+  });
+
+  test('should update imports of moved assets and carry co-located files along', async () => {
+    const component = path.join(testDir, 'src', 'components');
+    await fs.mkdir(component, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    await fs.writeFile(path.join(component, 'Button.module.css'), '.button {}\n');
+    await fs.writeFile(path.join(component, 'logo.svg'), '<svg />\n');
+    await fs.writeFile(path.join(component, 'legacy.js'), 'module.exports = {};\n');
+    await fs.writeFile(
+      path.join(component, 'Button.tsx'),
+      "import styles from './Button.module.css';\nimport logo from './logo.svg';\nimport legacy from './legacy';\nexport const Button = () => [styles, logo, legacy];\n"
+    );
+    await fs.writeFile(path.join(component, 'Button.stories.tsx'), "import { Button } from './Button';\nexport default { component: Button };\n");
+    await fs.writeFile(path.join(component, 'Button.spec.ts'), "import { Button } from './Button';\njest.mock('./logo.svg');\nButton();\n");
+    await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "import { Button } from './components/Button';\nexport const app = Button;\n");
+
+    const assetMove = await moveTypeScriptFile({
+      source: path.join(component, 'logo.svg'),
+      destination: path.join(testDir, 'src', 'assets', 'logo.svg'),
+    });
+
+    expect(assetMove.success).toBe(true);
+    expect(await fs.readFile(path.join(component, 'Button.tsx'), 'utf-8')).toContain("import logo from '../assets/logo.svg';");
+    expect(await fs.readFile(path.join(component, 'Button.spec.ts'), 'utf-8')).toContain("jest.mock('../assets/logo.svg');");
+
+    const componentMove = await moveTypeScriptFile({
+      source: path.join(component, 'Button.tsx'),
+      destination: path.join(testDir, 'src', 'ui', 'Button.tsx'),
+      includeColocated: true,
+    });
+
+    expect(componentMove.success).toBe(true);
+    expect(componentMove.movedFiles?.map(move => path.basename(move.to))).toEqual([
+      'Button.tsx',
+      'Button.module.css',
+      'Button.spec.ts',
+      'Button.stories.tsx',
+    ]);
+    const button = await fs.readFile(path.join(testDir, 'src', 'ui', 'Button.tsx'), 'utf-8');
+    expect(button).toContain("import styles from './Button.module.css';");
+    expect(button).toContain("import logo from '../assets/logo.svg';");
+    expect(button).toContain("import legacy from '../components/legacy';");
+    expect(await fs.readFile(path.join(testDir, 'src', 'ui', 'Button.stories.tsx'), 'utf-8')).toContain("from './Button'");
+    expect(await fs.readFile(path.join(testDir, 'src', 'ui', 'Button.spec.ts'), 'utf-8')).toContain("jest.mock('../assets/logo.svg');");
+    expect(await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8')).toContain("from './ui/Button'");
+    expect(await fs.readdir(component)).toEqual(['legacy.js']);
+    // Files moved along report the paths they were moved to
+    expect(componentMove.updatedFiles?.sort()).toEqual([
+      path.resolve(testDir, 'src', 'app.ts'),
+      path.resolve(testDir, 'src', 'ui', 'Button.tsx'),
+    ]);
+    expect(componentMove.affectedImports?.find(entry => entry.oldImport === './legacy')?.file).toBe(
+      path.resolve(testDir, 'src', 'ui', 'Button.tsx')
+    );
+  });
+});
@@ -1,177 +1,311 @@
 import { Project, SourceFile } from 'ts-morph';
 import * as path from 'path';
-import * as fs from 'fs/promises';
-import type { FileMoveOptions, FileMoveResult } from '../../types';
-import { cleanupProject } from '../../utils/project-cleanup';
+import * as fs from 'fs';
+import type { AffectedImport, FileMoveOptions, FileMoveResult } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges, createEmptyPreview, type PathMove } from '../../utils/change-preview';
+import { getColocatedMoves } from '../../utils/colocated-files';
+import { describeError } from '../../utils/errors';
+import { getImportExtension, getImportStyle, getSourcePaths, stripExtension, type ImportStyle } from '../../utils/import-extensions';
+import { countReferenceKinds, getModuleReferences, updateModuleReferences, type ModuleReference } from '../../utils/module-references';
+import { applyOperation } from '../../utils/operation-journal';
+import { getPathAliases, resolveAliasedSpecifier, toAliasedSpecifier, type PathAliases } from '../../utils/path-aliases';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+
+const SOURCE_FILE_PATTERN = /\.[mc]?tsx?$/;
 
 export const moveTypeScriptFile = async (options: FileMoveOptions): Promise<FileMoveResult> => {
-  const { source, destination, updateImports = true } = options;
-  let project: Project | undefined;
+  const { source, destination, updateImports = true, includeColocated = false, preview = false, projectRoot } = options;
 
   try {
     const absoluteSource = path.resolve(source);
     const absoluteDestination = path.resolve(destination);
 
     // Find tsconfig.json starting from the source file directory
-    const sourceDir = path.dirname(absoluteSource);
-    const tsConfigPath = await findTsConfig(sourceDir);
+    const location = resolveProjectLocation(path.dirname(absoluteSource), projectRoot);
 
-    project = new Project({
-      tsConfigFilePath: tsConfigPath,
-      useInMemoryFileSystem: false,
-    });
+    return await withProject(location, async (project) => {
+      if (!fs.statSync(absoluteSource, { throwIfNoEntry: false })?.isFile()) {
+        return {
+          success: false,
+          error: `Source file not found: ${source}`,
+          errorCode: 'FILE_NOT_FOUND',
+        };
+      }
 
-    // Add source file if not already in project
-    const sourceFile = project.getSourceFile(absoluteSource) || project.addSourceFileAtPath(absoluteSource);
-    
-    if (!sourceFile) {
-      return {
-        success: false,
-        error: `Source file not found: ${source}`,
-      };
-    }
+      const moves: PathMove[] = [
+        { from: absoluteSource, to: absoluteDestination },
+        ...(includeColocated ? getColocatedMoves(absoluteSource, absoluteDestination) : []),
+      ];
+      const takenMove = moves.find(move => fs.existsSync(move.to));
+      if (takenMove) {
+        return {
+          success: false,
+          error: `Destination already exists: ${takenMove.to}`,
+          errorCode: 'DESTINATION_EXISTS',
+        };
+      }
 
-    if (updateImports) {
-      // Add all relevant TypeScript files to the project
-      await addProjectFiles(project, path.dirname(tsConfigPath || process.cwd()));
-      
-      const updatedFiles = await updateImportPaths(project, absoluteSource, absoluteDestination);
-      
-      await fs.mkdir(path.dirname(absoluteDestination), { recursive: true });
-      await sourceFile.move(absoluteDestination);
-      
-      await project.save();
-
-      return {
-        success: true,
-        updatedFiles,
-      };
-    } else {
-      await fs.mkdir(path.dirname(absoluteDestination), { recursive: true });
-      await fs.rename(absoluteSource, absoluteDestination);
+      // Add source file if not already in project; assets are never parsed
+      const sourceFile =
+        project.getSourceFile(absoluteSource) ??
+        (SOURCE_FILE_PATTERN.test(absoluteSource) ? project.addSourceFileAtPath(absoluteSource) : undefined);
 
-      return {
-        success: true,
-      };
-    }
+      if (updateImports) {
+        const affectedImports: AffectedImport[] = [];
+        // Assets and groups of co-located files are rewritten in place, in one pass
+        const updatedFiles =
+          sourceFile && moves.length === 1
+            ? await moveFileInProject(project, sourceFile, absoluteDestination, affectedImports)
+            : moveFilesInProject(project, moves, affectedImports);
+        const referenceKinds = countReferenceKinds(affectedImports);
+
+        if (preview) {
+          return {
+            success: true,
+            movedFiles: moves,
+            updatedFiles,
+            affectedImports,
+            referenceKinds,
+            preview: collectProjectChanges(project, moves),
+          };
+        }
+
+        await applyOperation({
+          tool: 'move_typescript_file',
+          description: `Move ${source} to ${destination}`,
+          changes: collectProjectFileChanges(project, moves),
+        });
+
+        return {
+          success: true,
+          movedFiles: moves,
+          updatedFiles,
+          affectedImports,
+          referenceKinds,
+        };
+      } else {
+        if (preview) {
+          return {
+            success: true,
+            movedFiles: moves,
+            preview: {
+              ...createEmptyPreview(),
+              movedFiles: moves,
+            },
+          };
+        }
+
+        await applyOperation({
+          tool: 'move_typescript_file',
+          description: `Move ${source} to ${destination}`,
+          changes: collectProjectFileChanges(project, moves),
+        });
+
+        return {
+          success: true,
+          movedFiles: moves,
+        };
+      }
+    });
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
-  } finally {
-    // Clean up project resources
-    if (project) {
-      cleanupProject(project);
+  }
+};
+
+// Moves a source file in memory and points every reference to it at the new
+// location. Nothing is written; returns the files whose references changed and
+// records each rewritten reference in affectedImports.
+export const moveFileInProject = async (
+  project: Project,
+  sourceFile: SourceFile,
+  destination: string,
+  affectedImports: AffectedImport[] = []
+): Promise<string[]> => {
+  const updatedFiles = await updateImportPaths(project, sourceFile.getFilePath(), destination, affectedImports);
+  const ownUpdates = moveWithOwnReferences(sourceFile, destination);
+  affectedImports.push(...ownUpdates);
+  if (ownUpdates.length > 0 && !updatedFiles.includes(sourceFile.getFilePath())) {
+    updatedFiles.push(sourceFile.getFilePath());
+  }
+  return updatedFiles;
+};
+
+// Moves several files at once. Every reference is rewritten in one pass against
+// the final layout, so files moving together keep importing each other. The
+// files are edited where they are; the moves are applied when the changes are
+// collected with the same list. Returns the files whose references changed, at
+// the paths they are moved to.
+export const moveFilesInProject = (
+  project: Project,
+  moves: PathMove[],
+  affectedImports: AffectedImport[] = []
+): string[] => {
+  const destinations = new Map(moves.map(move => [path.resolve(move.from), path.resolve(move.to)]));
+  const pathAliases = getPathAliases(project);
+  const importStyle = getImportStyle(project);
+  const updatedFiles: string[] = [];
+
+  for (const file of project.getSourceFiles()) {
+    const filePath = file.getFilePath();
+    const newFilePath = destinations.get(filePath) ?? filePath;
+    const importerDir = path.dirname(filePath);
+    const newImporterDir = path.dirname(newFilePath);
+
+    const updates = updateModuleReferences(file, reference => {
+      const target = resolveReferencedFile(project, pathAliases, importerDir, reference.specifier);
+      const newTarget = target && destinations.get(target);
+      // Aliased imports of files that stay put resolve from anywhere
+      if (!target || (!newTarget && (newImporterDir === importerDir || !reference.specifier.startsWith('.')))) {
+        return undefined;
+      }
+      const newSpecifier = createSpecifier(newImporterDir, reference, newTarget ?? target, pathAliases, importStyle);
+      return newSpecifier === reference.specifier ? undefined : newSpecifier;
+    });
+
+    if (updates.length > 0) {
+      affectedImports.push(...updates.map(update => ({ ...update, file: newFilePath })));
+      updatedFiles.push(newFilePath);
     }
   }
+
+  return updatedFiles;
 };
 
-const findTsConfig = async (startDir: string): Promise<string | undefined> => {
-  let currentDir = startDir;
-  
-  while (currentDir !== path.dirname(currentDir)) {
-    const tsConfigPath = path.join(currentDir, 'tsconfig.json');
-    try {
-      await fs.access(tsConfigPath);
-      return tsConfigPath;
-    } catch {
-      currentDir = path.dirname(currentDir);
+// SourceFile.move() only rewrites the moved file's own import and export
+// declarations, and drops their extensions, so every relative reference is
+// pointed back at its target from the new location
+const moveWithOwnReferences = (sourceFile: SourceFile, destination: string): AffectedImport[] => {
+  const project = sourceFile.getProject();
+  const importStyle = getImportStyle(project);
+  const sourceDir = path.dirname(sourceFile.getFilePath());
+  const previousReferences = getModuleReferences(sourceFile);
+  const targets = previousReferences.map(reference =>
+    reference.specifier.startsWith('.') ? findReferencedFile(project, path.resolve(sourceDir, reference.specifier)) : undefined
+  );
+
+  sourceFile.move(destination);
+
+  const importerDir = path.dirname(sourceFile.getFilePath());
+  const previousSpecifiers: string[] = [];
+  const updates = updateModuleReferences(sourceFile, (reference, index) => {
+    const previous = previousReferences[index];
+    const target = targets[index];
+    if (!previous || !target) {
+      return undefined;
+    }
+    const newSpecifier =
+      reference.kind === 'referencePath'
+        ? toRelativePath(importerDir, target)
+        : createOptimalImportPath(importerDir, target, getImportExtension(target, previous.specifier, importStyle));
+    // References SourceFile.move() already rewrote are still reported
+    if (newSpecifier === reference.specifier && newSpecifier === previous.specifier) {
+      return undefined;
+    }
+    previousSpecifiers.push(previous.specifier);
+    return newSpecifier;
+  });
+
+  // Reported against the specifiers as they were before the move
+  return updates
+    .map((update, index) => ({ ...update, oldImport: previousSpecifiers[index] ?? update.oldImport }))
+    .filter(update => update.oldImport !== update.newImport);
+};
+
+// The file a reference resolved to resolvedPath names, probing extensions and
+// index files the way TypeScript does
+const findReferencedFile = (project: Project, resolvedPath: string): string | undefined => {
+  const candidates = getSourcePaths(resolvedPath).flatMap(candidate =>
+    ['', '.ts', '.tsx', '.d.ts', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'].map(suffix => candidate + suffix)
+  );
+  return candidates.find(
+    candidate => project.getSourceFile(candidate) !== undefined || fs.statSync(candidate, { throwIfNoEntry: false })?.isFile()
+  );
+};
+
+const resolveReferencedFile = (
+  project: Project,
+  pathAliases: PathAliases,
+  importerDir: string,
+  specifier: string
+): string | undefined => {
+  const resolvedPaths = specifier.startsWith('.')
+    ? [path.resolve(importerDir, specifier)]
+    : resolveAliasedSpecifier(pathAliases, specifier);
+  for (const resolvedPath of resolvedPaths) {
+    const referencedFile = findReferencedFile(project, resolvedPath);
+    if (referencedFile) {
+      return referencedFile;
     }
   }
-  
   return undefined;
 };
 
-const addProjectFiles = async (project: Project, projectDir: string): Promise<void> => {
-  const glob = require('glob');
-  
-  try {
-    const tsFiles = glob.sync('**/*.{ts,tsx}', {
-      cwd: projectDir,
-      ignore: ['node_modules/**', 'dist/**', '**/*.d.ts'],
-      absolute: true,
-    });
+// A reference to targetPath from importerDir, in the same style (relative or
+// aliased, with or without extension) as the reference it replaces
+const createSpecifier = (
+  importerDir: string,
+  { kind, specifier }: ModuleReference,
+  targetPath: string,
+  pathAliases: PathAliases,
+  importStyle: ImportStyle
+): string => {
+  // Path directives name the file itself
+  if (kind === 'referencePath') {
+    return toRelativePath(importerDir, targetPath);
+  }
 
-    for (const filePath of tsFiles) {
-      if (!project.getSourceFile(filePath)) {
-        try {
-          project.addSourceFileAtPath(filePath);
-        } catch {
-          // Ignore errors when adding files
-        }
-      }
-    }
-  } catch {
-    // Fallback: don't add files if glob fails
+  const extension = getImportExtension(targetPath, specifier, importStyle);
+  const relativePath = createOptimalImportPath(importerDir, targetPath, extension);
+  if (specifier.startsWith('.')) {
+    return relativePath;
   }
+  const modulePath = path.resolve(importerDir, relativePath);
+  return toAliasedSpecifier(pathAliases, modulePath, specifier) ?? relativePath;
+};
+
+const toRelativePath = (fromDir: string, toPath: string): string => {
+  const relativePath = path.relative(fromDir, toPath).replace(/\\/g, '/');
+  return relativePath.startsWith('.') ? relativePath : './' + relativePath;
 };
 
 const updateImportPaths = async (
   project: Project,
   oldPath: string,
-  newPath: string
+  newPath: string,
+  affectedImports: AffectedImport[]
 ): Promise<string[]> => {
   const updatedFiles: string[] = [];
-  
-  // Get all source files or add them if not already included
-  const sourceFiles = project.getSourceFiles();
-  
-  // Also scan for TypeScript files in the project directory if needed
-  const compilerOptions = project.getCompilerOptions();
-  const configFilePath = compilerOptions.configFilePath;
-  const projectDir = path.dirname(typeof configFilePath === 'string' ? configFilePath : process.cwd());
-  
-  for (const file of sourceFiles) {
-    let hasChanges = false;
-
-    file.getImportDeclarations().forEach((importDecl) => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      
-      if (moduleSpecifier.startsWith('.')) {
-        const importerDir = path.dirname(file.getFilePath());
-        const resolvedPath = path.resolve(importerDir, moduleSpecifier);
-        
-        const possiblePaths = [
-          resolvedPath,
-          resolvedPath + '.ts',
-          resolvedPath + '.tsx',
-          path.join(resolvedPath, 'index.ts'),
-          path.join(resolvedPath, 'index.tsx'),
-        ];
-
-        if (possiblePaths.some(p => p === oldPath)) {
-          const newRelativePath = createOptimalImportPath(importerDir, newPath);
-          importDecl.setModuleSpecifier(newRelativePath);
-          hasChanges = true;
-        }
-      }
-    });
+  const pathAliases = getPathAliases(project);
+  const importStyle = getImportStyle(project);
 
-    file.getExportDeclarations().forEach((exportDecl) => {
-      const moduleSpecifier = exportDecl.getModuleSpecifierValue();
-      
-      if (moduleSpecifier && moduleSpecifier.startsWith('.')) {
-        const exporterDir = path.dirname(file.getFilePath());
-        const resolvedPath = path.resolve(exporterDir, moduleSpecifier);
-        
-        const possiblePaths = [
-          resolvedPath,
-          resolvedPath + '.ts',
-          resolvedPath + '.tsx',
-          path.join(resolvedPath, 'index.ts'),
-          path.join(resolvedPath, 'index.tsx'),
-        ];
-
-        if (possiblePaths.some(p => p === oldPath)) {
-          const newRelativePath = createOptimalImportPath(exporterDir, newPath);
-          exportDecl.setModuleSpecifier(newRelativePath);
-          hasChanges = true;
-        }
-      }
-    });
+  // The new specifier for a reference to the moved file, in the same style
+  // (relative or aliased) as the old one
+  const getNewSpecifier = (importerDir: string, reference: ModuleReference): string | undefined => {
+    const { specifier } = reference;
+    const resolvedPaths = specifier.startsWith('.')
+      ? [path.resolve(importerDir, specifier)]
+      : resolveAliasedSpecifier(pathAliases, specifier);
+    const refersToMovedFile = resolvedPaths.flatMap(getSourcePaths).some(resolvedPath =>
+      [
+        resolvedPath,
+        resolvedPath + '.ts',
+        resolvedPath + '.tsx',
+        path.join(resolvedPath, 'index.ts'),
+        path.join(resolvedPath, 'index.tsx'),
+      ].includes(oldPath)
+    );
+    return refersToMovedFile ? createSpecifier(importerDir, reference, newPath, pathAliases, importStyle) : undefined;
+  };
+
+  for (const file of project.getSourceFiles()) {
+    const importerDir = path.dirname(file.getFilePath());
+    const updates = updateModuleReferences(file, reference => getNewSpecifier(importerDir, reference));
 
-    if (hasChanges) {
+    if (updates.length > 0) {
+      affectedImports.push(...updates);
       updatedFiles.push(file.getFilePath());
     }
   }
@@ -179,11 +313,18 @@ const updateImportPaths = async (
   return updatedFiles;
 };
 
-const createOptimalImportPath = (fromDir: string, toPath: string): string => {
+const createOptimalImportPath = (fromDir: string, toPath: string, extension?: string): string => {
   const fs = require('fs');
-  
-  // Remove file extension from target path
-  const targetPath = toPath.replace(/\.(ts|tsx)$/, '');
+
+  // Imports with an extension name the file itself; a directory import might not resolve
+  if (extension) {
+    const relativePath = path.relative(fromDir, stripExtension(toPath) + extension);
+    const normalizedPath = relativePath.startsWith('.') ? relativePath : './' + relativePath;
+    return normalizedPath.replace(/\\/g, '/');
+  }
+
+  // Remove the extension TypeScript resolves without; assets keep theirs
+  const targetPath = toPath.replace(/\.d\.ts$|\.(ts|tsx|js|jsx)$/, '');
   
   // Check if target is an index file
   const isIndexFile = path.basename(targetPath) === 'index';
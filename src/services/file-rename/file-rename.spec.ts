@@ -1221,4 +1221,215 @@ describe('renameFileOrFolder', () => {
       process.chdir(path.dirname(testDir));
     });
   });
+
+  describe('Cancellation', () => {
+    it('should keep tsconfig path aliases when rewriting imports', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'components'), { recursive: true });
+      await fs.mkdir(path.join(testDir, 'src', 'lib'), { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, 'tsconfig.json'),
+        JSON.stringify({
+          compilerOptions: {
+            strict: true,
+            paths: { '@/*': ['./src/*'], '~ui/*': ['./src/components/*'], '~lib/*': ['./src/lib/*'] },
+          },
+        })
+      );
+      await fs.writeFile(path.join(testDir, 'src', 'components', 'button.ts'), 'export const Button = () => null;\n');
+      await fs.writeFile(path.join(testDir, 'src', 'lib', 'placeholder.ts'), 'export {};\n');
+      await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "import { Button } from '@/components/button';\nexport const app = Button;\n");
+      await fs.writeFile(path.join(testDir, 'src', 'page.ts'), "import { Button } from '~ui/button';\nexport const page = Button;\n");
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'src', 'components', 'button.ts'),
+        destinationPath: path.join(testDir, 'src', 'lib', 'button.ts'),
+      });
+
+      expect(result.success).toBe(true);
+      // The alias the import used still reaches the new location
+      expect(await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8')).toContain("from '@/lib/button'");
+      // `~ui/*` does not, so the most specific alias that does is used
+      expect(await fs.readFile(path.join(testDir, 'src', 'page.ts'), 'utf-8')).toContain("from '~lib/button'");
+    });
+
+    it('should rewrite baseUrl imports of a renamed folder', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'shared'), { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { strict: true, baseUrl: './src' } })
+      );
+      await fs.writeFile(path.join(testDir, 'src', 'shared', 'constants.ts'), 'export const API_URL = "/api";\n');
+      await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "import { API_URL } from 'shared/constants';\nexport const url = API_URL;\n");
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'src', 'shared'),
+        destinationPath: path.join(testDir, 'src', 'common'),
+      });
+
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8')).toContain("from 'common/constants'");
+    });
+
+    it('should update require, mock and reference path references and report them by kind', async () => {
+      await fs.mkdir(path.join(testDir, 'lib'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+      await fs.writeFile(path.join(testDir, 'lib', 'store.ts'), 'export const store = {};\n');
+      await fs.writeFile(path.join(testDir, 'lib', 'env.d.ts'), 'declare const ENV: string;\n');
+      await fs.writeFile(
+        path.join(testDir, 'store.test.ts'),
+        [
+          '/// <reference path="./lib/env.d.ts" />',
+          "jest.mock('./lib/store');",
+          "const actual = jest.requireActual('./lib/store');",
+          "const { store } = require('./lib/store');",
+          "type Store = typeof import('./lib/store').store;",
+          '',
+        ].join('\n')
+      );
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'lib'),
+        destinationPath: path.join(testDir, 'shared'),
+      });
+
+      expect(result.success).toBe(true);
+      const content = await fs.readFile(path.join(testDir, 'store.test.ts'), 'utf-8');
+      expect(content).toContain('/// <reference path="./shared/env.d.ts" />');
+      expect(content).toContain("jest.mock('./shared/store');");
+      expect(content).toContain("jest.requireActual('./shared/store');");
+      expect(content).toContain("require('./shared/store');");
+      expect(content).toContain("import('./shared/store').store");
+      expect(result.referenceKinds).toEqual({ referencePath: 1, mock: 2, require: 1, importType: 1 });
+    });
+
+    it('should update imports of renamed assets and rename co-located files with a component', async () => {
+      await fs.mkdir(path.join(testDir, 'components'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+      await fs.writeFile(path.join(testDir, 'components', 'data.json'), '{}\n');
+      await fs.writeFile(path.join(testDir, 'components', 'format.mjs'), 'export const format = String;\n');
+      await fs.writeFile(path.join(testDir, 'components', 'Button.module.css'), '.button {}\n');
+      await fs.writeFile(
+        path.join(testDir, 'components', 'Button.tsx'),
+        "import styles from './Button.module.css';\nimport data from './data.json';\nimport { format } from './format.mjs';\nexport const Button = () => [styles, data, format];\n"
+      );
+      await fs.writeFile(path.join(testDir, 'components', 'Button.test.tsx'), "import { Button } from './Button';\nButton();\n");
+      await fs.writeFile(path.join(testDir, 'app.ts'), "import { Button } from './components/Button';\nimport data from './components/data.json';\nexport { Button, data };\n");
+
+      const assetRename = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'components', 'data.json'),
+        destinationPath: path.join(testDir, 'components', 'labels.json'),
+      });
+
+      expect(assetRename.success).toBe(true);
+      expect(await fs.readFile(path.join(testDir, 'app.ts'), 'utf-8')).toContain("import data from './components/labels.json';");
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'components', 'Button.tsx'),
+        destinationPath: path.join(testDir, 'components', 'Card.tsx'),
+        includeColocated: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.colocatedFiles?.map(move => path.basename(move.to))).toEqual(['Card.module.css', 'Card.test.tsx']);
+      const card = await fs.readFile(path.join(testDir, 'components', 'Card.tsx'), 'utf-8');
+      expect(card).toContain("import styles from './Card.module.css';");
+      expect(card).toContain("import data from './labels.json';");
+      expect(card).toContain("import { format } from './format.mjs';");
+      expect(await fs.readFile(path.join(testDir, 'components', 'Card.test.tsx'), 'utf-8')).toContain("from './Card'");
+      expect(await fs.readFile(path.join(testDir, 'app.ts'), 'utf-8')).toContain("from './components/Card'");
+      expect(await fs.access(path.join(testDir, 'components', 'Button.module.css')).then(() => true).catch(() => false)).toBe(false);
+    });
+
+    it('should leave sibling folders whose name starts with the renamed one alone', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'util'), { recursive: true });
+      await fs.mkdir(path.join(testDir, 'src', 'util-extra'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+      await fs.writeFile(path.join(testDir, 'src', 'util', 'd.ts'), 'export const d = 1;\n');
+      await fs.writeFile(path.join(testDir, 'src', 'util-extra', 'e.ts'), 'export const e = 2;\n');
+      await fs.writeFile(
+        path.join(testDir, 'src', 'app.ts'),
+        "import { d } from './util/d';\nimport { e } from './util-extra/e';\nexport { d, e };\n"
+      );
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'src', 'util'),
+        destinationPath: path.join(testDir, 'src', 'lib'),
+      });
+
+      expect(result.success).toBe(true);
+      const app = await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8');
+      expect(app).toContain("from './lib/d'");
+      expect(app).toContain("from './util-extra/e'");
+      expect(result.affectedImports?.map(entry => entry.oldImport)).toEqual(['./util/d']);
+    });
+
+    it('should rewrite the outward imports of files in a folder moved to another depth', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'util'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+      await fs.writeFile(path.join(testDir, 'src', 'c.ts'), 'export const c = 1;\n');
+      await fs.writeFile(path.join(testDir, 'src', 'util', 'b.ts'), 'export const b = 2;\n');
+      await fs.writeFile(
+        path.join(testDir, 'src', 'util', 'a.ts'),
+        "import { c } from '../c';\nimport { b } from './b';\nexport const a = c + b;\n"
+      );
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'src', 'util'),
+        destinationPath: path.join(testDir, 'src', 'deep', 'lib'),
+      });
+
+      expect(result.success).toBe(true);
+      const a = await fs.readFile(path.join(testDir, 'src', 'deep', 'lib', 'a.ts'), 'utf-8');
+      expect(a).toContain("from '../../c'");
+      expect(a).toContain("from './b'");
+    });
+
+    it('should keep import extensions when renaming a folder under NodeNext', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'shared'), { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { strict: true, module: 'nodenext', allowImportingTsExtensions: true, noEmit: true } })
+      );
+      await fs.writeFile(path.join(testDir, 'src', 'shared', 'index.ts'), 'export const shared = 1;\n');
+      await fs.writeFile(path.join(testDir, 'src', 'shared', 'paths.mts'), 'export const root = "/";\n');
+      await fs.writeFile(
+        path.join(testDir, 'src', 'app.ts'),
+        "import { shared } from './shared/index.js';\nimport { root } from './shared/paths.mjs';\nexport { shared, root };\n"
+      );
+      await fs.writeFile(path.join(testDir, 'src', 'cli.ts'), "import { shared } from './shared/index.ts';\nexport const cli = shared;\n");
+
+      const result = await renameFileOrFolder({
+        sourcePath: path.join(testDir, 'src', 'shared'),
+        destinationPath: path.join(testDir, 'src', 'common'),
+      });
+
+      expect(result.success).toBe(true);
+      const app = await fs.readFile(path.join(testDir, 'src', 'app.ts'), 'utf-8');
+      expect(app).toContain("from './common/index.js'");
+      expect(app).toContain("from './common/paths.mjs'");
+      expect(await fs.readFile(path.join(testDir, 'src', 'cli.ts'), 'utf-8')).toContain("from './common/index.ts'");
+    });
+
+    it('should stop rewriting imports and leave the files untouched when cancelled', async () => {
+      const utilPath = path.join(testDir, 'util.ts');
+      const consumerPath = path.join(testDir, 'consumer.ts');
+      const consumerContent = `import { util } from './util';\nexport const value = util;\n`;
+
+      await fs.writeFile(path.join(testDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+      await fs.writeFile(utilPath, 'export const util = 1;\n');
+      await fs.writeFile(consumerPath, consumerContent);
+
+      // Cancel as soon as the first file has been scanned
+      const controller = new AbortController();
+      const result = await renameFileOrFolder(
+        { sourcePath: utilPath, destinationPath: path.join(testDir, 'helper.ts') },
+        { signal: controller.signal, onProgress: () => controller.abort() }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('CANCELLED');
+      expect(await fs.readFile(consumerPath, 'utf-8')).toBe(consumerContent);
+      expect(await fs.access(utilPath).then(() => true).catch(() => false)).toBe(true);
+    });
+  });
 });
@@ -1,11 +1,24 @@
-import { Project, SourceFile, Node, SyntaxKind } from 'ts-morph';
+import { Project } from 'ts-morph';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import type { FileRenameOptions, FileRenameResult } from '../../types';
+import { existsSync } from 'fs';
+import type { AffectedImport, FileRenameOptions, FileRenameResult, ModuleReferenceKind, OperationContext } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges } from '../../utils/change-preview';
+import { getColocatedMoves } from '../../utils/colocated-files';
+import { describeError } from '../../utils/errors';
+import { countReferenceKinds, updateModuleReferences } from '../../utils/module-references';
+import { applyOperation } from '../../utils/operation-journal';
+import { getImportExtension, getImportStyle, getSourcePaths, stripExtension, type ImportStyle } from '../../utils/import-extensions';
+import { createProgressTracker } from '../../utils/progress';
+import { getPathAliases, resolveAliasedSpecifier, toAliasedSpecifier, type PathAliases } from '../../utils/path-aliases';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { moveFilesInProject } from '../file-move/index';
 
-export const renameFileOrFolder = async (options: FileRenameOptions): Promise<FileRenameResult> => {
-  const { sourcePath, destinationPath, updateImports = true } = options;
-  let project: Project | undefined;
+export const renameFileOrFolder = async (
+  options: FileRenameOptions,
+  context?: OperationContext
+): Promise<FileRenameResult> => {
+  const { sourcePath, destinationPath, updateImports = true, includeColocated = false, preview = false, projectRoot } = options;
 
   try {
     // Check if source exists
@@ -14,6 +27,7 @@ export const renameFileOrFolder = async (options: FileRenameOptions): Promise<Fi
       return {
         success: false,
         error: `Source path not found: ${sourcePath}`,
+        errorCode: 'FILE_NOT_FOUND',
       };
     }
 
@@ -25,87 +39,83 @@ export const renameFileOrFolder = async (options: FileRenameOptions): Promise<Fi
       return {
         success: false,
         error: `Destination already exists: ${destinationPath}`,
+        errorCode: 'DESTINATION_EXISTS',
       };
     }
 
-    // Try to find tsconfig.json
-    const tsconfigPath = await findTsConfig(sourcePath);
-    
-    const projectOptions: ConstructorParameters<typeof Project>[0] = {
-      useInMemoryFileSystem: false,
-    };
-
-    if (tsconfigPath) {
-      projectOptions.tsConfigFilePath = tsconfigPath;
+    // Co-located files (styles, stories, tests) are renamed with the file
+    const colocatedFiles = includeColocated && !isDirectory
+      ? getColocatedMoves(path.resolve(sourcePath), path.resolve(destinationPath))
+      : [];
+    const takenMove = colocatedFiles.find(move => existsSync(move.to));
+    if (takenMove) {
+      return {
+        success: false,
+        error: `Destination already exists: ${takenMove.to}`,
+        errorCode: 'DESTINATION_EXISTS',
+      };
     }
+    const moves = [{ from: sourcePath, to: destinationPath }, ...colocatedFiles];
 
-    project = new Project(projectOptions);
+    // Try to find tsconfig.json; without one the working directory is scanned
+    const location = resolveProjectLocation(sourcePath, projectRoot);
 
-    if (tsconfigPath) {
-      // Ensure files from tsconfig are loaded; skip node_modules per config excludes
-      if (project.getSourceFiles().length === 0) {
-        project.addSourceFilesFromTsConfig(tsconfigPath);
-      }
-    } else {
-      // Fallback glob when no tsconfig is found; exclude heavy/common build dirs
-      project.addSourceFilesAtPaths([
-        '**/*.ts',
-        '**/*.tsx',
-        '!**/node_modules/**',
-        '!**/dist/**',
-        '!**/build/**',
-        '!**/.next/**',
-        '!**/.turbo/**',
-        '!**/out/**',
-      ]);
-    }
+    return await withProject(location, async (project) => {
+      const updatedFiles = new Set<string>();
+      const affectedImports: AffectedImport[] = [];
 
-    const updatedFiles = new Set<string>();
-    const affectedImports: Array<{ file: string; oldImport: string; newImport: string }> = [];
+      if (updateImports) {
+        const progress = createProgressTracker(context, project.getSourceFiles().length);
+        const onFileScanned = () => progress.step(`Rewriting imports (${updatedFiles.size} files updated)`);
 
-    if (updateImports) {
-      if (isDirectory) {
-        // Handle directory rename
-        await updateImportsForDirectory(project, sourcePath, destinationPath, updatedFiles, affectedImports);
-      } else {
-        // Handle file rename
-        await updateImportsForFile(project, sourcePath, destinationPath, updatedFiles, affectedImports);
+        if (colocatedFiles.length > 0) {
+          // The renamed files may import each other, so every reference is
+          // rewritten in one pass against the final layout
+          moveFilesInProject(project, moves, affectedImports).forEach(filePath => updatedFiles.add(filePath));
+        } else if (isDirectory) {
+          // Handle directory rename
+          await updateImportsForDirectory(project, sourcePath, destinationPath, updatedFiles, affectedImports, onFileScanned);
+        } else {
+          // Handle file rename
+          await updateImportsForFile(project, sourcePath, destinationPath, updatedFiles, affectedImports, onFileScanned);
+        }
       }
-    }
 
-    // Save all changes before renaming
-    await project.save();
-    
-    // Give the file system a moment to sync
-    await new Promise(resolve => setTimeout(resolve, 50));
+      if (preview) {
+        return {
+          success: true,
+          updatedFiles: Array.from(updatedFiles),
+          affectedImports,
+          referenceKinds: countReferenceKinds(affectedImports),
+          colocatedFiles,
+          isDirectory,
+          preview: collectProjectChanges(project, moves),
+        };
+      }
 
-    // Perform the actual file/folder move
-    await fs.rename(sourcePath, destinationPath);
+      // Write the updated imports and move the file/folder in one journaled operation
+      await applyOperation({
+        tool: 'rename_file_or_folder',
+        description: `Rename ${sourcePath} to ${destinationPath}`,
+        changes: collectProjectFileChanges(project, moves),
+        removeEmptyDirectories: isDirectory ? [sourcePath] : [],
+        signal: context?.signal,
+      });
 
-    return {
-      success: true,
-      updatedFiles: Array.from(updatedFiles),
-      affectedImports,
-      isDirectory,
-    };
+      return {
+        success: true,
+        updatedFiles: Array.from(updatedFiles),
+        affectedImports,
+        referenceKinds: countReferenceKinds(affectedImports),
+        colocatedFiles,
+        isDirectory,
+      };
+    });
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
-  } finally {
-    // Clean up project resources
-    if (project) {
-      try {
-        const host = project.getModuleResolutionHost?.();
-        if (host && 'clearCache' in host && typeof host.clearCache === 'function') {
-          host.clearCache();
-        }
-        (project as any)._context?.compilerFactory?.removeCompilerApi?.();
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
 };
 
@@ -114,79 +124,28 @@ const updateImportsForFile = async (
   oldPath: string,
   newPath: string,
   updatedFiles: Set<string>,
-  affectedImports: Array<{ file: string; oldImport: string; newImport: string }>
+  affectedImports: AffectedImport[],
+  onFileScanned: () => void
 ) => {
   const sourceFiles = project.getSourceFiles();
   const oldAbsPath = path.resolve(oldPath);
   const newAbsPath = path.resolve(newPath);
-  
+  const resolution = { pathAliases: getPathAliases(project), importStyle: getImportStyle(project) };
 
   for (const sourceFile of sourceFiles) {
+    onFileScanned();
     const filePath = sourceFile.getFilePath();
-    let fileModified = false;
-
-    // Update import declarations
-    sourceFile.getImportDeclarations().forEach(importDecl => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-      
-      if (resolvedPath === oldAbsPath || resolvedPath.startsWith(oldAbsPath + '/')) {
-        const newImportPath = calculateNewImportPath(filePath, oldAbsPath, newAbsPath, moduleSpecifier);
-        affectedImports.push({
-          file: filePath,
-          oldImport: moduleSpecifier,
-          newImport: newImportPath,
-        });
-        importDecl.setModuleSpecifier(newImportPath);
-        fileModified = true;
-      }
-    });
 
-    // Update export declarations
-    sourceFile.getExportDeclarations().forEach(exportDecl => {
-      const moduleSpecifier = exportDecl.getModuleSpecifierValue();
-      if (moduleSpecifier) {
-        const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-        
-        if (resolvedPath === oldAbsPath || resolvedPath.startsWith(oldAbsPath + '/')) {
-          const newImportPath = calculateNewImportPath(filePath, oldAbsPath, newAbsPath, moduleSpecifier);
-          affectedImports.push({
-            file: filePath,
-            oldImport: moduleSpecifier,
-            newImport: newImportPath,
-          });
-          exportDecl.setModuleSpecifier(newImportPath);
-          fileModified = true;
-        }
-      }
-    });
-
-    // Update dynamic imports
-    const callExprs = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
-    callExprs.forEach(callExpr => {
-      const expression = callExpr.getExpression();
-      if (expression.getText() === 'import') {
-        const args = callExpr.getArguments();
-        if (args.length > 0 && Node.isStringLiteral(args[0])) {
-          const moduleSpecifier = args[0].getLiteralValue();
-          const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-          
-          if (resolvedPath === oldAbsPath || resolvedPath.startsWith(oldAbsPath + '/')) {
-            const newImportPath = calculateNewImportPath(filePath, oldAbsPath, newAbsPath, moduleSpecifier);
-            affectedImports.push({
-              file: filePath,
-              oldImport: moduleSpecifier,
-              newImport: newImportPath,
-            });
-            // Use setLiteralValue instead of replaceWithText to preserve quotes
-            args[0].setLiteralValue(newImportPath);
-            fileModified = true;
-          }
-        }
-      }
+    // Imports, re-exports, `import()`, `require`, mocks, path directives...
+    const updates = updateModuleReferences(sourceFile, ({ kind, specifier }) => {
+      const resolvedPath = resolveImportPath(filePath, specifier, resolution);
+      return isWithin(resolvedPath, oldAbsPath)
+        ? calculateNewImportPath(filePath, oldAbsPath, newAbsPath, specifier, kind, resolution)
+        : undefined;
     });
+    affectedImports.push(...updates);
 
-    if (fileModified) {
+    if (updates.length > 0) {
       updatedFiles.add(filePath);
     }
   }
@@ -197,128 +156,77 @@ const updateImportsForDirectory = async (
   oldPath: string,
   newPath: string,
   updatedFiles: Set<string>,
-  affectedImports: Array<{ file: string; oldImport: string; newImport: string }>
+  affectedImports: AffectedImport[],
+  onFileScanned: () => void
 ) => {
   const sourceFiles = project.getSourceFiles();
   const oldAbsPath = path.resolve(oldPath);
   const newAbsPath = path.resolve(newPath);
-  
+  const resolution = { pathAliases: getPathAliases(project), importStyle: getImportStyle(project) };
 
   for (const sourceFile of sourceFiles) {
+    onFileScanned();
     const filePath = sourceFile.getFilePath();
-    let fileModified = false;
-    const newFilePath = filePath.startsWith(oldAbsPath)
-      ? filePath.replace(oldAbsPath, newAbsPath)
+    const newFilePath = isWithin(filePath, oldAbsPath)
+      ? newAbsPath + filePath.slice(oldAbsPath.length)
       : undefined;
 
-    // Update import declarations
-    sourceFile.getImportDeclarations().forEach(importDecl => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-      
-      if (resolvedPath.startsWith(oldAbsPath)) {
-        const newImportPath = calculateNewImportPath(
-          filePath,
-          oldAbsPath,
-          newAbsPath,
-          moduleSpecifier,
-          newFilePath
-        );
-        affectedImports.push({
-          file: filePath,
-          oldImport: moduleSpecifier,
-          newImport: newImportPath,
-        });
-        importDecl.setModuleSpecifier(newImportPath);
-        fileModified = true;
+    const updates = updateModuleReferences(sourceFile, ({ kind, specifier }) => {
+      const resolvedPath = resolveImportPath(filePath, specifier, resolution);
+      if (isWithin(resolvedPath, oldAbsPath)) {
+        return calculateNewImportPath(filePath, oldAbsPath, newAbsPath, specifier, kind, resolution, newFilePath);
       }
-    });
 
-    // Update export declarations
-    sourceFile.getExportDeclarations().forEach(exportDecl => {
-      const moduleSpecifier = exportDecl.getModuleSpecifierValue();
-      if (moduleSpecifier) {
-        const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-        
-        if (resolvedPath.startsWith(oldAbsPath)) {
-          const newImportPath = calculateNewImportPath(
-            filePath,
-            oldAbsPath,
-            newAbsPath,
-            moduleSpecifier,
-            newFilePath
-          );
-          affectedImports.push({
-            file: filePath,
-            oldImport: moduleSpecifier,
-            newImport: newImportPath,
-          });
-          exportDecl.setModuleSpecifier(newImportPath);
-          fileModified = true;
-        }
+      // Files inside the folder keep reaching what lies outside it, which
+      // changes when the folder moves to another depth
+      if (newFilePath && specifier.startsWith('.')) {
+        const newImportPath = calculateNewImportPath(filePath, oldAbsPath, newAbsPath, specifier, kind, resolution, newFilePath);
+        return newImportPath === specifier ? undefined : newImportPath;
       }
+      return undefined;
     });
+    affectedImports.push(...updates);
 
-    // Update dynamic imports
-    const callExprs = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
-    callExprs.forEach(callExpr => {
-      const expression = callExpr.getExpression();
-      if (expression.getText() === 'import') {
-        const args = callExpr.getArguments();
-        if (args.length > 0 && Node.isStringLiteral(args[0])) {
-          const moduleSpecifier = args[0].getLiteralValue();
-          const resolvedPath = resolveImportPath(filePath, moduleSpecifier);
-          
-          if (resolvedPath.startsWith(oldAbsPath)) {
-            const newImportPath = calculateNewImportPath(
-              filePath,
-              oldAbsPath,
-              newAbsPath,
-              moduleSpecifier,
-              newFilePath
-            );
-            affectedImports.push({
-              file: filePath,
-              oldImport: moduleSpecifier,
-              newImport: newImportPath,
-            });
-            args[0].setLiteralValue(newImportPath);
-            fileModified = true;
-          }
-        }
-      }
-    });
-
-    if (fileModified) {
+    if (updates.length > 0) {
       updatedFiles.add(filePath);
     }
   }
 };
 
-const resolveImportPath = (fromFile: string, importPath: string): string => {
-  if (!importPath.startsWith('.')) {
+// How the project resolves imports, read once per rename
+type ImportResolution = {
+  pathAliases: PathAliases;
+  importStyle: ImportStyle;
+};
+
+const resolveImportPath = (fromFile: string, importPath: string, resolution: ImportResolution): string => {
+  const candidates = importPath.startsWith('.')
+    ? [path.resolve(path.dirname(fromFile), importPath)]
+    : resolveAliasedSpecifier(resolution.pathAliases, importPath);
+  if (candidates.length === 0) {
     return importPath; // node_modules import
   }
 
-  const fromDir = path.dirname(fromFile);
-  let resolvedPath = path.resolve(fromDir, importPath);
-
   // Try with common extensions if path doesn't exist
   const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-  
-  for (const ext of extensions) {
-    try {
-      const testPath = resolvedPath + ext;
-      const stats = require('fs').statSync(testPath);
-      if (stats.isFile() || stats.isDirectory()) {
-        return testPath;
+
+  // `./foo.js` names `foo.ts` under Node16/NodeNext
+  for (const resolvedPath of candidates.flatMap(getSourcePaths)) {
+    for (const ext of extensions) {
+      try {
+        const testPath = resolvedPath + ext;
+        const stats = require('fs').statSync(testPath);
+        if (stats.isFile() || stats.isDirectory()) {
+          return testPath;
+        }
+      } catch {
+        // Continue trying
       }
-    } catch {
-      // Continue trying
     }
   }
 
-  return resolvedPath;
+  // Aliases that resolve to nothing may still be packages
+  return importPath.startsWith('.') ? candidates[0]! : importPath;
 };
 
 const calculateNewImportPath = (
@@ -326,63 +234,58 @@ const calculateNewImportPath = (
   oldAbsPath: string,
   newAbsPath: string,
   originalImport: string,
+  kind: ModuleReferenceKind,
+  resolution: ImportResolution,
   newFromFilePath?: string
 ): string => {
-  if (!originalImport.startsWith('.')) {
+  // Get the resolved path with extension
+  const resolvedWithExt = resolveImportPath(fromFile, originalImport, resolution);
+  if (resolvedWithExt === originalImport) {
     return originalImport; // node_modules import
   }
 
+  // Replace the old absolute path with the new one; targets outside it stay
+  let resolvedNewPath = isWithin(resolvedWithExt, oldAbsPath)
+    ? newAbsPath + resolvedWithExt.slice(oldAbsPath.length)
+    : resolvedWithExt;
+
+  const extension = getImportExtension(resolvedNewPath, originalImport, resolution.importStyle);
+  if (kind === 'referencePath') {
+    // Path directives name the file itself
+  } else if (extension) {
+    // `.js` for `.ts` files and the like; directory imports would not resolve
+    resolvedNewPath = stripExtension(resolvedNewPath) + extension;
+  } else {
+    resolvedNewPath = resolvedNewPath.replace(/\.(ts|tsx|js|jsx)$/, '');
+
+    // Remove /index suffix if it wasn't in the original import
+    if (!originalImport.endsWith('/index')) {
+      resolvedNewPath = resolvedNewPath.replace(/\/index$/, '');
+    }
+  }
+
+  // Aliased imports keep an alias when one reaches the new location
+  if (!originalImport.startsWith('.')) {
+    const aliasedPath = toAliasedSpecifier(resolution.pathAliases, resolvedNewPath, originalImport);
+    if (aliasedPath) {
+      return aliasedPath;
+    }
+  }
+
   const fromDir = path.dirname(newFromFilePath ?? fromFile);
-  
-  // Get the resolved path with extension
-  const resolvedWithExt = resolveImportPath(fromFile, originalImport);
-  
-  // Replace the old absolute path with the new one
-  const resolvedNewPath = resolvedWithExt.replace(oldAbsPath, newAbsPath);
-  
+
   // Calculate relative path from the importing file
   let relativePath = path.relative(fromDir, resolvedNewPath);
-  
+
   // Ensure it starts with ./ or ../
   if (!relativePath.startsWith('.')) {
     relativePath = './' + relativePath;
   }
-  
+
   // Convert to forward slashes for consistency
-  relativePath = relativePath.replace(/\\/g, '/');
-  
-  // Remove extensions if they weren't in the original import
-  const hasExtension = /\.(ts|tsx|js|jsx)$/.test(originalImport);
-  if (!hasExtension) {
-    relativePath = relativePath.replace(/\.(ts|tsx|js|jsx)$/, '');
-  }
-  
-  // Remove /index suffix if it wasn't in the original import
-  if (!originalImport.endsWith('/index')) {
-    relativePath = relativePath.replace(/\/index$/, '');
-  }
-  
-  return relativePath;
+  return relativePath.replace(/\\/g, '/');
 };
 
-const findTsConfig = async (startPath: string): Promise<string | undefined> => {
-  let currentPath = path.resolve(startPath);
-  const isFile = (await fs.stat(currentPath).catch(() => null))?.isFile();
-  
-  if (isFile) {
-    currentPath = path.dirname(currentPath);
-  }
-  
-  while (currentPath !== path.dirname(currentPath)) {
-    const tsconfigPath = path.join(currentPath, 'tsconfig.json');
-    try {
-      await fs.access(tsconfigPath);
-      return tsconfigPath;
-    } catch {
-      // Continue searching up
-    }
-    currentPath = path.dirname(currentPath);
-  }
-  
-  return undefined;
+const isWithin = (filePath: string, directoryPath: string): boolean => {
+  return filePath === directoryPath || filePath.startsWith(directoryPath + '/');
 };
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Project } from 'ts-morph';
+import * as fs from 'fs';
+import { splitFile } from './index';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('splitFile', () => {
+  const { file, read, write } = useTestWorkspace('file-split');
+
+  beforeEach(() => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+    write(
+      'utils.ts',
+      [
+        "const pad = (value: number) => String(value).padStart(2, '0');",
+        '',
+        'const lower = (value: string) => value.toLowerCase();',
+        '',
+        'export const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;',
+        '',
+        "export const parseDate = (value: string) => new Date(value.split('-').map(Number).join('/'));",
+        '',
+        "export const slugify = (value: string) => lower(value).replace(/ /g, '-');",
+        '',
+        'export const datedSlug = (value: string, date: Date) => `${formatDate(date)}-${slugify(value)}`;',
+        '',
+      ].join('\n')
+    );
+    write(
+      'app.ts',
+      "import { datedSlug, formatDate, slugify } from './utils';\nexport const run = () => [datedSlug('a', new Date()), formatDate(new Date()), slugify('b')];\n"
+    );
+  });
+
+  it('should move each group with its helpers and point importers at the new files', async () => {
+    const result = await splitFile({
+      filePath: file('utils.ts'),
+      mapping: {
+        formatDate: file('dates.ts'),
+        parseDate: file('dates.ts'),
+        slugify: file('strings.ts'),
+        datedSlug: file('strings.ts'),
+      },
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      modules: [
+        { destination: file('dates.ts'), movedSymbols: ['formatDate', 'parseDate', 'pad'], createdFile: true },
+        { destination: file('strings.ts'), movedSymbols: ['slugify', 'datedSlug', 'lower'], createdFile: true },
+      ],
+      exportedSymbols: [],
+      reExportedSymbols: [],
+    });
+
+    expect(read('dates.ts')).toContain("const pad = (value: number) => String(value).padStart(2, '0');");
+    expect(read('dates.ts')).toContain('export const parseDate');
+    expect(read('strings.ts')).toContain("import { formatDate } from './dates';");
+    expect(read('strings.ts')).toContain('const lower = (value: string) => value.toLowerCase();');
+    expect(read('utils.ts').trim()).toBe('');
+    expect(read('app.ts')).toContain("import { formatDate } from './dates';");
+    expect(read('app.ts')).toContain("import { datedSlug, slugify } from './strings';");
+    expect(read('app.ts')).not.toContain("'./utils'");
+    expect(getLastOperation()?.tool).toBe('split_file');
+  });
+
+  it('should leave re-exports in the original file when asked', async () => {
+    const result = await splitFile({
+      filePath: file('utils.ts'),
+      mapping: { slugify: file('text/slug.ts') },
+      reExport: true,
+    });
+
+    expect(result).toMatchObject({ success: true, reExportedSymbols: ['slugify'] });
+    const remaining = read('utils.ts');
+    expect(remaining).toContain("import { slugify } from './text/slug';");
+    expect(remaining).toContain("export { slugify } from './text/slug';");
+    expect(remaining).toContain('export const datedSlug');
+    expect(read('text/slug.ts')).toContain('const lower = (value: string) => value.toLowerCase();');
+    expect(read('app.ts')).toContain("import { slugify } from './text/slug';");
+  });
+
+  it('should re-export types with export type', async () => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true, module: 'esnext', isolatedModules: true } }));
+    write(
+      'shapes.ts',
+      'export interface Point { x: number }\n\nexport type Line = [Point, Point];\n\nexport const origin: Point = { x: 0 };\n'
+    );
+
+    const result = await splitFile({
+      filePath: file('shapes.ts'),
+      mapping: { Point: file('point.ts'), origin: file('point.ts'), Line: file('line.ts') },
+      reExport: true,
+    });
+
+    expect(result.success).toBe(true);
+    const remaining = read('shapes.ts');
+    expect(remaining).toContain("export { type Point, origin } from './point';");
+    expect(remaining).toContain("export type { Line } from './line';");
+    const project = new Project({ tsConfigFilePath: file('tsconfig.json') });
+    const diagnostics = ['shapes.ts', 'point.ts', 'line.ts'].flatMap(name =>
+      project.getSourceFileOrThrow(file(name)).getPreEmitDiagnostics()
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.getMessageText())).toEqual([]);
+  });
+
+  it('should not change anything when one of the groups cannot move', async () => {
+    const original = read('utils.ts');
+
+    const result = await splitFile({
+      filePath: file('utils.ts'),
+      mapping: { formatDate: file('dates.ts'), missing: file('strings.ts') },
+    });
+
+    expect(result.errorCode).toBe('SYMBOL_NOT_FOUND');
+    expect(read('utils.ts')).toBe(original);
+    expect(fs.existsSync(file('dates.ts'))).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import * as path from 'path';
+import type { FileSplitOptions, FileSplitResult } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { addReExport } from '../symbol-move/imports';
+import { moveSymbolsInProject } from '../symbol-move/index';
+
+export const splitFile = async (options: FileSplitOptions): Promise<FileSplitResult> => {
+  const { reExport = false, preview = false, projectRoot } = options;
+  const filePath = path.resolve(options.filePath);
+
+  // symbol -> destination, grouped by destination in the order given
+  const groups = new Map<string, string[]>();
+  for (const [symbolName, destination] of Object.entries(options.mapping)) {
+    const resolved = path.resolve(destination);
+    groups.set(resolved, [...(groups.get(resolved) ?? []), symbolName]);
+  }
+  if (groups.size === 0) {
+    return { success: false, error: 'No symbols to split out', errorCode: 'INVALID_ARGUMENTS' };
+  }
+
+  try {
+    const location = resolveProjectLocation(filePath, projectRoot);
+
+    return await withProject(location, async (project) => {
+      const sourceFile = project.getSourceFile(filePath);
+      if (!sourceFile) {
+        return { success: false, error: `Source file not found: ${filePath}`, errorCode: 'FILE_NOT_FOUND' };
+      }
+      const publicNames = new Set(sourceFile.getExportedDeclarations().keys());
+
+      const modules: NonNullable<FileSplitResult['modules']> = [];
+      const exportedSymbols = new Set<string>();
+      const updatedFiles = new Set<string>();
+
+      // Groups move one after another, so a later group that an earlier one
+      // imports from the source file gets that import pointed at its new file
+      for (const [destination, names] of groups) {
+        const moved = moveSymbolsInProject(project, filePath, names, destination);
+        if (!moved.success) {
+          return { success: false, error: moved.error, errorCode: moved.errorCode };
+        }
+        modules.push({ destination, movedSymbols: moved.movedSymbols ?? [], createdFile: moved.createdFile ?? false });
+        moved.exportedSymbols?.forEach(name => exportedSymbols.add(name));
+        moved.updatedFiles?.forEach(file => updatedFiles.add(file));
+      }
+
+      const reExportedSymbols: string[] = [];
+      if (reExport) {
+        for (const [destination, names] of groups) {
+          const kept = names.filter(name => publicNames.has(name));
+          if (kept.length > 0) {
+            addReExport(sourceFile, project.getSourceFileOrThrow(destination), kept.map(name => ({ name })));
+            reExportedSymbols.push(...kept);
+          }
+        }
+      }
+
+      const result: FileSplitResult = {
+        success: true,
+        modules,
+        // Helpers a later group took along are no longer left in the source file
+        exportedSymbols: [...exportedSymbols].filter(name => !modules.some(module => module.movedSymbols.includes(name))),
+        reExportedSymbols,
+        updatedFiles: [...updatedFiles],
+      };
+
+      if (preview) {
+        return { ...result, preview: collectProjectChanges(project) };
+      }
+
+      await applyOperation({
+        tool: 'split_file',
+        description: `Split ${filePath} into ${groups.size} file${groups.size === 1 ? '' : 's'}`,
+        changes: collectProjectFileChanges(project),
+      });
+
+      return result;
+    });
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
@@ -0,0 +1,37 @@
+import type { FileNameCase } from '../../types';
+
+// `HTTPClient` -> HTTP, Client; `user-service` -> user, service
+const splitWords = (name: string): string[] => {
+  return name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? [];
+};
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+export const formatName = (name: string, fileNameCase: FileNameCase): string => {
+  const words = splitWords(name);
+
+  switch (fileNameCase) {
+    case 'kebab':
+      return words.map(word => word.toLowerCase()).join('-');
+    case 'camel':
+      return words.map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word))).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+  }
+};
+
+// Single lowercase words (`user`) are read as kebab-case
+export const detectCase = (name: string): FileNameCase => {
+  if (name.includes('-')) {
+    return 'kebab';
+  }
+  if (/^[A-Z]/.test(name)) {
+    return 'pascal';
+  }
+  return /[A-Z]/.test(name) ? 'camel' : 'kebab';
+};
+
+// `UserService` matches user-service, userService and UserService
+export const isSameName = (left: string, right: string): boolean => {
+  return splitWords(left).join('').toLowerCase() === splitWords(right).join('').toLowerCase();
+};
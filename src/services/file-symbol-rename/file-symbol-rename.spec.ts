@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import { renameFileWithSymbol } from './index';
+import { formatName } from './casing';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('renameFileWithSymbol', () => {
+  const { file, read } = useTestWorkspace('file-symbol-rename');
+
+  beforeEach(() => {
+    fs.writeFileSync(file('tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    fs.mkdirSync(file('services'));
+    fs.writeFileSync(
+      file('services/user-service.ts'),
+      'export const DEFAULT_LIMIT = 10;\nexport class UserService {\n  limit = DEFAULT_LIMIT;\n}\n'
+    );
+    fs.writeFileSync(file('services/format.ts'), 'export default function format(value: string) {\n  return value;\n}\n');
+    fs.writeFileSync(
+      file('app.ts'),
+      "import { UserService } from './services/user-service';\nimport format from './services/format';\n" +
+        'export const service = new UserService();\nexport const label = format("x");\n'
+    );
+  });
+
+  it('should rename the export named after the file and the file in one operation', async () => {
+    const result = await renameFileWithSymbol({ filePath: file('services/user-service.ts'), newName: 'AccountService' });
+
+    expect(result).toMatchObject({
+      success: true,
+      oldName: 'UserService',
+      destinationPath: file('services/account-service.ts'),
+    });
+    expect(fs.existsSync(file('services/user-service.ts'))).toBe(false);
+    expect(read('services/account-service.ts')).toContain('export class AccountService {');
+    expect(read('app.ts')).toContain("import { AccountService } from './services/account-service';");
+    expect(read('app.ts')).toContain('new AccountService()');
+    expect(getLastOperation()?.tool).toBe('rename_file_and_symbol');
+  });
+
+  it('should name the file with the requested casing', async () => {
+    const result = await renameFileWithSymbol({
+      filePath: file('services/format.ts'),
+      newName: 'formatLabel',
+      fileNameCase: 'pascal',
+    });
+
+    expect(result.success).toBe(true);
+    expect(read('services/FormatLabel.ts')).toContain('export default function formatLabel(');
+    expect(read('app.ts')).toContain("import formatLabel from './services/FormatLabel';");
+  });
+
+  it('should ask for oldName when the primary export is ambiguous', async () => {
+    fs.writeFileSync(file('services/helpers.ts'), 'export const a = 1;\nexport const b = 2;\n');
+
+    const result = await renameFileWithSymbol({ filePath: file('services/helpers.ts'), newName: 'c' });
+
+    expect(result.errorCode).toBe('SYMBOL_NOT_FOUND');
+    expect(result.error).toContain('pass oldName');
+    expect(fs.existsSync(file('services/helpers.ts'))).toBe(true);
+  });
+
+  it('should only return a preview without writing', async () => {
+    const result = await renameFileWithSymbol({
+      filePath: file('services/user-service.ts'),
+      newName: 'AccountService',
+      preview: true,
+    });
+
+    expect(result.preview?.movedFiles).toEqual([
+      { from: file('services/user-service.ts'), to: file('services/account-service.ts') },
+    ]);
+    expect(fs.existsSync(file('services/user-service.ts'))).toBe(true);
+    expect(read('app.ts')).toContain('UserService');
+  });
+
+  it('should format names in each casing', () => {
+    expect(formatName('HTTPClient', 'kebab')).toBe('http-client');
+    expect(formatName('HTTPClient', 'camel')).toBe('httpClient');
+    expect(formatName('userService', 'pascal')).toBe('UserService');
+  });
+});
@@ -0,0 +1,158 @@
+import { Node, SyntaxKind, type SourceFile } from 'ts-morph';
+import * as path from 'path';
+import type {
+  BatchOperation,
+  ErrorCode,
+  FileSymbolRenameOptions,
+  FileSymbolRenameResult,
+  OperationContext,
+  SymbolKind,
+} from '../../types';
+import { describeError } from '../../utils/errors';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { batchRefactor } from '../batch-refactor/index';
+import { detectCase, formatName, isSameName } from './casing';
+
+type ExportedSymbol = {
+  name: string;
+  type: SymbolKind;
+  isDefault: boolean;
+};
+
+const SYMBOL_KINDS: Partial<Record<SyntaxKind, SymbolKind>> = {
+  [SyntaxKind.ClassDeclaration]: 'class',
+  [SyntaxKind.FunctionDeclaration]: 'function',
+  [SyntaxKind.InterfaceDeclaration]: 'interface',
+  [SyntaxKind.TypeAliasDeclaration]: 'type',
+  [SyntaxKind.EnumDeclaration]: 'enum',
+  [SyntaxKind.VariableDeclaration]: 'variable',
+  [SyntaxKind.ModuleDeclaration]: 'namespace',
+};
+
+// Renames a module's primary export and names the file after it, e.g.
+// user-service.ts exporting UserService -> account-service.ts exporting
+// AccountService. Both renames run as one batch, so importers are updated
+// for the new specifier and the new name in a single undoable operation.
+export const renameFileWithSymbol = async (
+  options: FileSymbolRenameOptions,
+  context?: OperationContext
+): Promise<FileSymbolRenameResult> => {
+  const { newName, preview = false, projectRoot } = options;
+  const filePath = path.resolve(options.filePath);
+
+  try {
+    const { stem, suffix } = splitFileName(filePath);
+    if (stem === 'index') {
+      return {
+        success: false,
+        error: `${filePath} is named after its folder; rename the folder instead`,
+        errorCode: 'INVALID_ARGUMENTS',
+      };
+    }
+
+    const location = resolveProjectLocation(filePath, projectRoot);
+    const target = await withProject(location, async (project) => {
+      const sourceFile = project.getSourceFile(filePath);
+      if (!sourceFile) {
+        return { error: `Source file not found: ${filePath}`, errorCode: 'FILE_NOT_FOUND' as ErrorCode };
+      }
+      return findPrimaryExport(sourceFile, stem, options.oldName);
+    });
+    if ('error' in target) {
+      return { success: false, error: target.error, errorCode: target.errorCode };
+    }
+
+    const fileNameCase = options.fileNameCase ?? detectCase(stem);
+    const destinationPath = path.join(path.dirname(filePath), `${formatName(newName, fileNameCase)}${suffix}`);
+    const operations: BatchOperation[] = [];
+    if (target.name !== newName) {
+      operations.push({ operation: 'rename_symbol', filePath, oldName: target.name, newName, type: target.type });
+    }
+    if (destinationPath !== filePath) {
+      operations.push({ operation: 'rename_file', sourcePath: filePath, destinationPath });
+    }
+
+    const result = await batchRefactor({ operations, typeCheck: false, preview, projectRoot }, context, {
+      tool: 'rename_file_and_symbol',
+      description: `Rename ${target.name} to ${newName} and ${path.basename(filePath)} to ${path.basename(destinationPath)}`,
+    });
+    if (!result.success) {
+      const failed = result.operations.find(operation => !operation.success);
+      return { success: false, error: failed?.error ?? result.error, errorCode: result.errorCode };
+    }
+
+    return {
+      success: true,
+      oldName: target.name,
+      newName,
+      sourcePath: filePath,
+      destinationPath,
+      updatedFiles: result.updatedFiles,
+      preview: result.preview,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
+
+// `user-service.test.ts` -> user-service, .test.ts
+const splitFileName = (filePath: string): { stem: string; suffix: string } => {
+  const baseName = path.basename(filePath);
+  const dot = baseName.indexOf('.');
+  return dot > 0 ? { stem: baseName.slice(0, dot), suffix: baseName.slice(dot) } : { stem: baseName, suffix: '' };
+};
+
+// The export named after the file, else the default export, else the only export
+const findPrimaryExport = (
+  sourceFile: SourceFile,
+  stem: string,
+  oldName?: string
+): ExportedSymbol | { error: string; errorCode: ErrorCode } => {
+  const exports = getExportedSymbols(sourceFile);
+
+  if (oldName) {
+    const named = exports.find(exported => exported.name === oldName);
+    return (
+      named ?? {
+        error: `"${oldName}" is not declared and exported in ${sourceFile.getFilePath()}`,
+        errorCode: 'SYMBOL_NOT_FOUND',
+      }
+    );
+  }
+
+  const matching = exports.filter(exported => isSameName(exported.name, stem));
+  const defaultExport = exports.find(exported => exported.isDefault);
+  const primary =
+    matching.length === 1 ? matching[0] : defaultExport ?? (exports.length === 1 ? exports[0] : undefined);
+  if (primary) {
+    return primary;
+  }
+
+  const names = exports.map(exported => exported.name).join(', ') || 'none';
+  return {
+    error: `Cannot tell the primary export of ${sourceFile.getFilePath()} (exports: ${names}); pass oldName`,
+    errorCode: 'SYMBOL_NOT_FOUND',
+  };
+};
+
+// Named declarations of the file itself; re-exports belong to other files
+const getExportedSymbols = (sourceFile: SourceFile): ExportedSymbol[] => {
+  const symbols = new Map<string, ExportedSymbol>();
+
+  for (const [exportName, declarations] of sourceFile.getExportedDeclarations()) {
+    for (const declaration of declarations) {
+      const type = SYMBOL_KINDS[declaration.getKind()];
+      const name = Node.hasName(declaration) ? declaration.getName() : undefined;
+      if (declaration.getSourceFile() !== sourceFile || !type || !name) {
+        continue;
+      }
+      const isDefault = exportName === 'default';
+      symbols.set(name, { name, type, isDefault: isDefault || symbols.get(name)?.isDefault === true });
+    }
+  }
+
+  return [...symbols.values()];
+};
@@ -6,6 +6,9 @@ import type {
   ImportOptimizationResult,
   ImportOptimizationChange,
 } from '../../types';
+import { createFilePreview } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
 
 export const optimizeImports = async (
   options: ImportOptimizationOptions
@@ -16,6 +19,7 @@ export const optimizeImports = async (
     optimizeIndexPaths = true,
     consolidateImports = true,
     separateTypeImports = true,
+    preview = false,
   } = options;
   let project: Project | undefined;
 
@@ -29,36 +33,26 @@ export const optimizeImports = async (
     });
 
     const sourceFile = project.addSourceFileAtPath(filePath);
-    const changes: ImportOptimizationChange[] = [];
 
     // Store original content for comparison
     const originalContent = sourceFile.getFullText();
 
-    // 1. Optimize index paths first (before consolidation)
-    if (optimizeIndexPaths) {
-      await optimizeIndexImportPaths(sourceFile, changes);
-    }
-
-    // 2. Consolidate imports from same module
-    if (consolidateImports) {
-      await consolidateImportsFromSameModule(sourceFile, changes);
-    }
-
-    // 3. Remove unused imports (after consolidation)
-    if (removeUnused) {
-      await removeUnusedImports(sourceFile, changes);
-    }
-
-    // 4. Separate type imports
-    if (separateTypeImports) {
-      await separateTypeAndValueImports(sourceFile, changes);
-    }
+    const changes = await optimizeImportsInFile(sourceFile, {
+      removeUnused,
+      optimizeIndexPaths,
+      consolidateImports,
+      separateTypeImports,
+    });
 
     const optimizedCode = sourceFile.getFullText();
     const hasChanges = optimizedCode !== originalContent;
 
-    if (hasChanges) {
-      await sourceFile.save();
+    if (hasChanges && !preview) {
+      await applyOperation({
+        tool: 'optimize_imports',
+        description: `Optimize imports in ${filePath}`,
+        changes: [{ filePath: sourceFile.getFilePath(), content: optimizedCode }],
+      });
     }
 
     return {
@@ -66,13 +60,14 @@ export const optimizeImports = async (
       optimized: hasChanges,
       changes,
       optimizedCode: hasChanges ? optimizedCode : undefined,
+      preview: preview ? createFilePreview(sourceFile.getFilePath(), originalContent, optimizedCode) : undefined,
     };
   } catch (error) {
     return {
       filePath,
       optimized: false,
       changes: [],
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
   } finally {
     // Clean up project resources
@@ -90,6 +85,42 @@ export const optimizeImports = async (
   }
 };
 
+// Rewrites the imports of a source file in memory and lists what changed
+export const optimizeImportsInFile = async (
+  sourceFile: SourceFile,
+  options: Omit<ImportOptimizationOptions, 'filePath' | 'preview'>
+): Promise<ImportOptimizationChange[]> => {
+  const {
+    removeUnused = true,
+    optimizeIndexPaths = true,
+    consolidateImports = true,
+    separateTypeImports = true,
+  } = options;
+  const changes: ImportOptimizationChange[] = [];
+
+  // 1. Optimize index paths first (before consolidation)
+  if (optimizeIndexPaths) {
+    await optimizeIndexImportPaths(sourceFile, changes);
+  }
+
+  // 2. Consolidate imports from same module
+  if (consolidateImports) {
+    await consolidateImportsFromSameModule(sourceFile, changes);
+  }
+
+  // 3. Remove unused imports (after consolidation)
+  if (removeUnused) {
+    await removeUnusedImports(sourceFile, changes);
+  }
+
+  // 4. Separate type imports
+  if (separateTypeImports) {
+    await separateTypeAndValueImports(sourceFile, changes);
+  }
+
+  return changes;
+};
+
 const removeUnusedImports = async (
   sourceFile: SourceFile,
   changes: ImportOptimizationChange[]
@@ -198,15 +229,19 @@ const optimizeIndexImportPaths = async (
   }
 };
 
-const consolidateImportsFromSameModule = async (
+export const consolidateImportsFromSameModule = async (
   sourceFile: SourceFile,
   changes: ImportOptimizationChange[]
 ): Promise<void> => {
   const importDeclarations = sourceFile.getImportDeclarations();
   const importGroups = new Map<string, ImportDeclaration[]>();
 
-  // Group imports by module specifier
+  // Group imports by module specifier; namespace imports cannot be combined
+  // with named imports, so they are left alone
   for (const importDecl of importDeclarations) {
+    if (importDecl.getNamespaceImport()) {
+      continue;
+    }
     const moduleSpecifier = importDecl.getModuleSpecifierValue();
     if (!importGroups.has(moduleSpecifier)) {
       importGroups.set(moduleSpecifier, []);
@@ -221,7 +256,6 @@ const consolidateImportsFromSameModule = async (
       const typeImports: string[] = [];
       const valueImports: string[] = [];
       let defaultImport: string | undefined;
-      let namespaceImport: string | undefined;
 
       // Collect all imports from the same module
       for (const importDecl of imports) {
@@ -231,16 +265,11 @@ const consolidateImportsFromSameModule = async (
           defaultImport = defaultImp.getText();
         }
 
-        // Namespace import
-        const namespaceImp = importDecl.getNamespaceImport();
-        if (namespaceImp && !namespaceImport) {
-          namespaceImport = namespaceImp.getText();
-        }
-
         // Named imports
         const namedImports = importDecl.getNamedImports();
         for (const namedImport of namedImports) {
-          const importName = namedImport.getName();
+          const alias = namedImport.getAliasNode()?.getText();
+          const importName = alias ? `${namedImport.getName()} as ${alias}` : namedImport.getName();
           if (!allNamedImports.includes(importName)) {
             allNamedImports.push(importName);
             
@@ -273,10 +302,6 @@ const consolidateImportsFromSameModule = async (
         importParts.push(defaultImport);
       }
 
-      if (namespaceImport) {
-        importParts.push(namespaceImport);
-      }
-
       if (valueImports.length > 0) {
         importParts.push(`{ ${valueImports.join(', ')} }`);
       }
@@ -328,4 +328,18 @@ import { add } from './wrong/path/math';
     
     expect(imports[0]?.getModuleSpecifierValue()).toMatch(/\.\/src\/utils\/math$/);
   });
-});
\ No newline at end of file
+
+  it('should keep ESM extensions when checking and repairing imports', async () => {
+    const testFilePath = join(testDir, 'src', 'test-esm.ts');
+    writeFileSync(testFilePath, `
+import { add } from './utils/math.js';
+import { multiply } from './wrong/math.js';
+    `);
+
+    const result = await repairImportPaths({ filePath: testFilePath, dryRun: true });
+
+    expect(result.repairedImports[0]?.status).toBe('already_valid');
+    expect(result.repairedImports[1]?.status).toBe('repaired');
+    expect(result.repairedImports[1]?.repairedPath).toBe('./utils/math.js');
+  });
+});
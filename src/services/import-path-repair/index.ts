@@ -1,7 +1,14 @@
 import { Project, SourceFile, ImportDeclaration, SyntaxKind, ts } from 'ts-morph';
 import { glob } from 'glob';
 import { dirname, relative, resolve, basename, extname } from 'path';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync, readFileSync, statSync } from 'fs';
+import type { ChangePreview, ErrorCode } from '../../types';
+import { createFilePreview } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { getImportExtension, getImportStyle, getSourcePaths } from '../../utils/import-extensions';
+import { applyOperation } from '../../utils/operation-journal';
+import { cleanupProject } from '../../utils/project-cleanup';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
 
 export type ImportPathRepairOptions = {
   filePath: string;
@@ -9,6 +16,8 @@ export type ImportPathRepairOptions = {
   includeTypes?: boolean;
   respectTsConfig?: boolean;
   prioritizeCloserPaths?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
 };
 
 export type ImportPathRepairResult = {
@@ -17,6 +26,8 @@ export type ImportPathRepairResult = {
   errors: string[];
   totalImportsChecked: number;
   totalImportsRepaired: number;
+  preview?: ChangePreview;
+  errorCode?: ErrorCode;
 };
 
 export type RepairResult = {
@@ -45,22 +56,40 @@ export async function repairImportPaths(options: ImportPathRepairOptions): Promi
     includeTypes = true,
     respectTsConfig = true,
     prioritizeCloserPaths = true,
+    preview = false,
+    projectRoot,
   } = options;
 
-  const tsConfigPath = respectTsConfig ? findTsConfig(filePath) : undefined;
-  const project = new Project({
-    tsConfigFilePath: tsConfigPath,
-    // Add the directory containing the file to ensure we can find it
-    ...(tsConfigPath ? {} : { compilerOptions: {} })
-  });
+  const location = respectTsConfig ? resolveProjectLocation(filePath, projectRoot) : undefined;
 
-  // Set the root directory if we have a tsconfig
-  if (tsConfigPath) {
-    const tsConfigDir = dirname(tsConfigPath);
-    project.addSourceFilesAtPaths(`${tsConfigDir}/**/*.{ts,tsx}`);
+  // Projects with a tsconfig are shared through the registry; without one the
+  // file is repaired in a throwaway project rooted at its own directory
+  if (location?.tsConfigPath) {
+    return withProject(location, (project) =>
+      repairImportsInProject(project, { filePath, dryRun, includeTypes, prioritizeCloserPaths, preview })
+    );
+  }
+
+  const project = new Project({ compilerOptions: {} });
+  try {
+    return await repairImportsInProject(project, { filePath, dryRun, includeTypes, prioritizeCloserPaths, preview });
+  } finally {
+    cleanupProject(project);
+  }
+}
+
+async function repairImportsInProject(
+  project: Project,
+  options: {
+    filePath: string;
+    dryRun: boolean;
+    includeTypes: boolean;
+    prioritizeCloserPaths: boolean;
+    preview: boolean;
   }
+): Promise<ImportPathRepairResult> {
+  const { filePath, dryRun, includeTypes, prioritizeCloserPaths, preview } = options;
 
-  const sourceFile = project.addSourceFileAtPath(filePath);
   const result: ImportPathRepairResult = {
     filePath,
     repairedImports: [],
@@ -70,6 +99,8 @@ export async function repairImportPaths(options: ImportPathRepairOptions): Promi
   };
 
   try {
+    const sourceFile = project.addSourceFileAtPath(filePath);
+    const originalContent = sourceFile.getFullText();
     const importDeclarations = sourceFile.getImportDeclarations();
     result.totalImportsChecked = importDeclarations.length;
 
@@ -82,18 +113,26 @@ export async function repairImportPaths(options: ImportPathRepairOptions): Promi
       result.repairedImports.push(repairResult);
 
       if (repairResult.status === 'repaired' && repairResult.repairedPath) {
-        if (!dryRun) {
+        if (!dryRun || preview) {
           importDecl.setModuleSpecifier(repairResult.repairedPath);
         }
         result.totalImportsRepaired++;
       }
     }
 
-    if (!dryRun && result.totalImportsRepaired > 0) {
-      await sourceFile.save();
+    if (preview) {
+      result.preview = createFilePreview(sourceFile.getFilePath(), originalContent, sourceFile.getFullText());
+    } else if (!dryRun && result.totalImportsRepaired > 0) {
+      await applyOperation({
+        tool: 'repair_import_paths',
+        description: `Repair import paths in ${filePath}`,
+        changes: [{ filePath: sourceFile.getFilePath(), content: sourceFile.getFullText() }],
+      });
     }
   } catch (error) {
-    result.errors.push(`Failed to repair imports: ${error instanceof Error ? error.message : String(error)}`);
+    const { error: message, errorCode } = describeError(error);
+    result.errors.push(`Failed to repair imports: ${message}`);
+    result.errorCode = errorCode;
   }
 
   return result;
@@ -182,8 +221,9 @@ async function repairSingleImport(
     };
   }
 
-  // Generate relative path
-  const repairedPath = generateRelativePath(currentFilePath, bestCandidate.path);
+  // Generate relative path, with the extension the import used or the project requires
+  const extension = getImportExtension(bestCandidate.path, originalPath, getImportStyle(project));
+  const repairedPath = generateRelativePath(currentFilePath, bestCandidate.path, extension);
 
   return {
     originalPath,
@@ -224,6 +264,11 @@ function resolveImportPath(currentFilePath: string, importPath: string): string
   try {
     const currentDir = dirname(currentFilePath);
     const resolved = resolve(currentDir, importPath);
+
+    // Imports with an extension name the file, or the file it is built from (`./foo.js` for foo.ts)
+    for (const sourcePath of getSourcePaths(resolved)) {
+      if (statSync(sourcePath, { throwIfNoEntry: false })?.isFile()) return sourcePath;
+    }
     
     // Try various extensions
     const extensions = ['.ts', '.tsx', '.js', '.jsx', '.d.ts'];
@@ -249,7 +294,7 @@ function getFileNameFromPath(importPath: string): string | null {
   let fileName = basename(importPath);
   
   // Remove common extensions
-  fileName = fileName.replace(/\.(ts|tsx|js|jsx|d\.ts)$/, '');
+  fileName = fileName.replace(/\.(d\.ts|ts|tsx|mts|cts|js|jsx|mjs|cjs)$/, '');
   
   // If it's just 'index', get the parent directory name
   if (fileName === 'index') {
@@ -451,12 +496,12 @@ function calculateSimilarity(str1: string, str2: string): number {
   return common / Math.max(len1, len2);
 }
 
-function generateRelativePath(fromFile: string, toFile: string): string {
+function generateRelativePath(fromFile: string, toFile: string, extension?: string): string {
   const fromDir = dirname(fromFile);
   let relativePath = relative(fromDir, toFile);
   
   // Remove extension
-  relativePath = relativePath.replace(/\.(ts|tsx|js|jsx|d\.ts)$/, '');
+  relativePath = relativePath.replace(/\.(d\.ts|ts|tsx|mts|cts|js|jsx|mjs|cjs)$/, '') + (extension ?? '');
   
   // Ensure it starts with ./ for relative imports
   if (!relativePath.startsWith('.')) {
@@ -465,17 +510,3 @@ function generateRelativePath(fromFile: string, toFile: string): string {
   
   return relativePath;
 }
-
-function findTsConfig(filePath: string): string | undefined {
-  let currentDir = dirname(filePath);
-  
-  while (currentDir !== '/') {
-    const tsConfigPath = resolve(currentDir, 'tsconfig.json');
-    if (existsSync(tsConfigPath)) {
-      return tsConfigPath;
-    }
-    currentDir = dirname(currentDir);
-  }
-  
-  return undefined;
-}
\ No newline at end of file
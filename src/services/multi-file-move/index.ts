@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globSync, hasMagic } from 'glob';
+import type { AffectedImport, MultiFileMoveOptions, MultiFileMoveResult, OperationContext } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges, type PathMove } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { countReferenceKinds } from '../../utils/module-references';
+import { applyOperation } from '../../utils/operation-journal';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { moveFilesInProject } from '../file-move/index';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const PLACEHOLDERS = ['dir', 'path', 'name', 'ext'];
+
+export const moveFiles = async (
+  options: MultiFileMoveOptions,
+  context?: OperationContext
+): Promise<MultiFileMoveResult> => {
+  const { updateImports = true, preview = false, projectRoot } = options;
+
+  try {
+    const planned = planMoves(options);
+    if ('error' in planned) {
+      return { success: false, ...planned };
+    }
+
+    const moves = planned.moves;
+    if (moves.length === 0) {
+      return { success: true, movedFiles: [], updatedFiles: [], affectedImports: [], referenceKinds: {} };
+    }
+
+    const location = resolveProjectLocation(path.dirname(moves[0]!.from), projectRoot);
+
+    return await withProject(location, async (project) => {
+      const affectedImports: AffectedImport[] = [];
+      const updatedFiles = updateImports ? moveFilesInProject(project, moves, affectedImports) : [];
+      const referenceKinds = countReferenceKinds(affectedImports);
+
+      if (preview) {
+        return {
+          success: true,
+          movedFiles: moves,
+          updatedFiles,
+          affectedImports,
+          referenceKinds,
+          preview: collectProjectChanges(project, moves),
+        };
+      }
+
+      await applyOperation({
+        tool: 'move_files',
+        description: `Move ${moves.length} file(s)`,
+        changes: collectProjectFileChanges(project, moves),
+        signal: context?.signal,
+      });
+
+      return {
+        success: true,
+        movedFiles: moves,
+        updatedFiles,
+        affectedImports,
+        referenceKinds,
+      };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
+
+// Expands the glob or the mapping into absolute moves and checks that every
+// source exists and every destination is free
+const planMoves = (
+  options: MultiFileMoveOptions
+): { moves: PathMove[] } | Required<Pick<MultiFileMoveResult, 'error' | 'errorCode'>> => {
+  const { pattern, destination, mapping } = options;
+
+  if (mapping ? pattern !== undefined || destination !== undefined : pattern === undefined || destination === undefined) {
+    return {
+      error: 'Pass either a mapping, or a pattern with a destination template',
+      errorCode: 'INVALID_ARGUMENTS',
+    };
+  }
+
+  let moves: PathMove[];
+  if (mapping) {
+    moves = Object.entries(mapping).map(([from, to]) => ({ from: path.resolve(from), to: path.resolve(to) }));
+    const missing = moves.find(move => !fs.statSync(move.from, { throwIfNoEntry: false })?.isFile());
+    if (missing) {
+      return { error: `Source file not found: ${missing.from}`, errorCode: 'FILE_NOT_FOUND' };
+    }
+  } else {
+    const unknown = [...destination!.matchAll(PLACEHOLDER_PATTERN)].find(([, name]) => !PLACEHOLDERS.includes(name!));
+    if (unknown) {
+      return {
+        error: `Unknown placeholder ${unknown[0]} in destination; use {${PLACEHOLDERS.join('}, {')}}`,
+        errorCode: 'INVALID_ARGUMENTS',
+      };
+    }
+
+    const absolutePattern = path.resolve(pattern!);
+    const matches = globSync(absolutePattern, { nodir: true, absolute: true, ignore: ['**/node_modules/**'] }).sort();
+    if (matches.length === 0) {
+      return { error: `No files match ${pattern}`, errorCode: 'FILE_NOT_FOUND' };
+    }
+
+    const base = getStaticBase(absolutePattern);
+    moves = matches.map(match => ({ from: match, to: expandDestination(destination!, match, base) }));
+  }
+
+  moves = moves.filter(move => move.from !== move.to);
+
+  const destinations = new Set<string>();
+  for (const move of moves) {
+    if (destinations.has(move.to)) {
+      return { error: `Several files would move to ${move.to}`, errorCode: 'INVALID_ARGUMENTS' };
+    }
+    destinations.add(move.to);
+
+    if (fs.existsSync(move.to)) {
+      return { error: `Destination already exists: ${move.to}`, errorCode: 'DESTINATION_EXISTS' };
+    }
+  }
+
+  return { moves };
+};
+
+// The folder the pattern starts matching in: `src/features` for `src/features/*/api.ts`
+const getStaticBase = (pattern: string): string => {
+  const segments = pattern.split('/');
+  const firstMagic = segments.findIndex(segment => hasMagic(segment));
+  return firstMagic === -1 ? path.dirname(pattern) : segments.slice(0, firstMagic).join('/') || '/';
+};
+
+const expandDestination = (template: string, match: string, base: string): string => {
+  const extension = path.extname(match);
+  const values: Record<string, string> = {
+    dir: path.basename(path.dirname(match)),
+    path: path.relative(base, path.dirname(match)),
+    name: path.basename(match, extension),
+    ext: extension.slice(1),
+  };
+  return path.resolve(template.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name]!));
+};
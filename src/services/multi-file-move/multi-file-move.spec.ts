@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import { moveFiles } from './index';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('moveFiles', () => {
+  const { file, read, write } = useTestWorkspace('multi-file-move');
+
+  beforeEach(() => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+    write('src/http.ts', 'export const get = (url: string) => url;\n');
+    write('src/features/users/api.ts', "import { get } from '../../http';\nexport const fetchUsers = () => get('/users');\n");
+    write(
+      'src/features/orders/api.ts',
+      "import { get } from '../../http';\nimport { fetchUsers } from '../users/api';\nexport const fetchOrders = () => [get('/orders'), fetchUsers()];\n"
+    );
+    write(
+      'src/features/orders/view.ts',
+      "import { fetchOrders } from './api';\njest.mock('./api');\nexport const render = () => fetchOrders();\n"
+    );
+  });
+
+  it('should move every glob match to its templated destination and rewrite references against the final layout', async () => {
+    const result = await moveFiles({
+      pattern: file('src/features/*/api.ts'),
+      destination: file('src/api/{dir}.{ext}'),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.movedFiles).toEqual([
+      { from: file('src/features/orders/api.ts'), to: file('src/api/orders.ts') },
+      { from: file('src/features/users/api.ts'), to: file('src/api/users.ts') },
+    ]);
+    expect(fs.existsSync(file('src/features/users/api.ts'))).toBe(false);
+    expect(read('src/api/users.ts')).toContain("from '../http'");
+    // Both files moved: the import between them is computed once, from the final locations
+    expect(read('src/api/orders.ts')).toContain("import { fetchUsers } from './users';");
+    expect(read('src/features/orders/view.ts')).toContain("import { fetchOrders } from '../../api/orders';");
+    expect(read('src/features/orders/view.ts')).toContain("jest.mock('../../api/orders');");
+    expect(result.referenceKinds).toEqual({ import: 4, mock: 1 });
+    expect(getLastOperation()?.tool).toBe('move_files');
+  });
+
+  it('should move files by mapping and support {path} and {name} placeholders', async () => {
+    const mapped = await moveFiles({
+      mapping: { [file('src/http.ts')]: file('src/lib/http.ts') },
+      preview: true,
+    });
+
+    expect(mapped.success).toBe(true);
+    expect(mapped.preview?.movedFiles).toEqual([{ from: file('src/http.ts'), to: file('src/lib/http.ts') }]);
+    expect(mapped.updatedFiles?.sort()).toEqual([file('src/features/orders/api.ts'), file('src/features/users/api.ts')]);
+    expect(fs.existsSync(file('src/lib/http.ts'))).toBe(false);
+
+    const templated = await moveFiles({
+      pattern: file('src/features/**/*.ts'),
+      destination: file('src/modules/{path}/{name}.ts'),
+    });
+
+    expect(templated.success).toBe(true);
+    expect(read('src/modules/orders/view.ts')).toContain("from './api'");
+    expect(read('src/modules/orders/api.ts')).toContain("from '../users/api'");
+    expect(read('src/modules/users/api.ts')).toContain("from '../../http'");
+  });
+
+  it('should reject colliding, existing and unknown destinations', async () => {
+    const colliding = await moveFiles({ pattern: file('src/features/*/api.ts'), destination: file('src/api.ts') });
+    expect(colliding.errorCode).toBe('INVALID_ARGUMENTS');
+
+    const existing = await moveFiles({ mapping: { [file('src/features/users/api.ts')]: file('src/http.ts') } });
+    expect(existing.errorCode).toBe('DESTINATION_EXISTS');
+
+    const unknown = await moveFiles({ pattern: file('src/features/*/api.ts'), destination: file('src/{feature}.ts') });
+    expect(unknown.errorCode).toBe('INVALID_ARGUMENTS');
+
+    const unmatched = await moveFiles({ pattern: file('src/missing/*.ts'), destination: file('src/{name}.ts') });
+    expect(unmatched.errorCode).toBe('FILE_NOT_FOUND');
+    expect(fs.existsSync(file('src/features/users/api.ts'))).toBe(true);
+  });
+});
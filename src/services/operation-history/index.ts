@@ -0,0 +1,64 @@
+import type {
+  ListOperationsOptions,
+  ListOperationsResult,
+  UndoOperationOptions,
+  UndoOperationResult,
+} from '../../types';
+import { describeError } from '../../utils/errors';
+import {
+  findChangedFiles,
+  getLastOperation,
+  getOperationHistory,
+  revertOperation,
+} from '../../utils/operation-journal';
+
+export const undoLastOperation = async (
+  options: UndoOperationOptions = {}
+): Promise<UndoOperationResult> => {
+  const { force = false } = options;
+
+  try {
+    const operation = getLastOperation();
+    if (!operation) {
+      return {
+        success: false,
+        restoredFiles: [],
+        error: 'No operation to undo',
+        errorCode: 'NOTHING_TO_UNDO',
+      };
+    }
+
+    // Edits made after the operation would be lost, so they must be confirmed
+    const conflicts = await findChangedFiles(operation.id);
+    if (conflicts.length > 0 && !force) {
+      return {
+        success: false,
+        operation,
+        restoredFiles: [],
+        conflicts,
+        error: `Files changed since ${operation.tool} ran; pass force to overwrite them`,
+        errorCode: 'UNDO_CONFLICT',
+      };
+    }
+
+    return {
+      success: true,
+      operation,
+      restoredFiles: await revertOperation(operation.id),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      restoredFiles: [],
+      ...describeError(error),
+    };
+  }
+};
+
+export const listOperations = (options: ListOperationsOptions = {}): ListOperationsResult => {
+  const operations = getOperationHistory();
+
+  return {
+    operations: options.limit === undefined ? operations : operations.slice(0, options.limit),
+  };
+};
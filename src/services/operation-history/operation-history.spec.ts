@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { listOperations, undoLastOperation } from './index';
+import { moveTypeScriptFile } from '../file-move/index';
+import { renameFileOrFolder } from '../file-rename/index';
+import { renameSymbol } from '../rename/index';
+import { reloadProject } from '../project-reload/index';
+import { applyOperation, clearOperationJournal, withOperationSession } from '../../utils/operation-journal';
+
+describe('operation history', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'operation-history-test-')));
+    fs.writeFileSync(
+      path.join(testDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true } })
+    );
+    fs.mkdirSync(path.join(testDir, 'utils'));
+    fs.writeFileSync(path.join(testDir, 'utils', 'math.ts'), 'export const add = (a: number, b: number) => a + b;\n');
+    fs.writeFileSync(path.join(testDir, 'utils', 'logo.svg'), '<svg />\n');
+    fs.writeFileSync(path.join(testDir, 'main.ts'), "import { add } from './utils/math';\nconsole.log(add(1, 2));\n");
+    clearOperationJournal();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    clearOperationJournal();
+    await reloadProject();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const read = (relativePath: string) => fs.readFileSync(path.join(testDir, relativePath), 'utf-8');
+  const exists = (relativePath: string) => fs.existsSync(path.join(testDir, relativePath));
+
+  it('should record operations most recent first', async () => {
+    await moveTypeScriptFile({
+      source: path.join(testDir, 'utils', 'math.ts'),
+      destination: path.join(testDir, 'lib', 'math.ts'),
+    });
+    await renameFileOrFolder({
+      sourcePath: path.join(testDir, 'main.ts'),
+      destinationPath: path.join(testDir, 'app.ts'),
+    });
+
+    const { operations } = listOperations();
+
+    expect(operations.map(operation => operation.tool)).toEqual(['rename_file_or_folder', 'move_typescript_file']);
+    expect(operations[1]!.files).toContainEqual({ filePath: path.join(testDir, 'lib', 'math.ts'), action: 'created' });
+    expect(operations[1]!.files).toContainEqual({ filePath: path.join(testDir, 'utils', 'math.ts'), action: 'deleted' });
+    expect(listOperations({ limit: 1 }).operations).toHaveLength(1);
+  });
+
+  it('should restore moved files and their importers', async () => {
+    await moveTypeScriptFile({
+      source: path.join(testDir, 'utils', 'math.ts'),
+      destination: path.join(testDir, 'lib', 'math.ts'),
+    });
+    expect(read('main.ts')).toContain('./lib/math');
+
+    const result = await undoLastOperation();
+
+    expect(result.success).toBe(true);
+    expect(result.operation?.tool).toBe('move_typescript_file');
+    expect(read('main.ts')).toContain('./utils/math');
+    expect(exists('utils/math.ts')).toBe(true);
+    expect(exists('lib')).toBe(false);
+    expect(listOperations().operations).toHaveLength(0);
+  });
+
+  it('should restore a renamed folder including non-TypeScript files', async () => {
+    process.chdir(testDir);
+    const result = await renameFileOrFolder({
+      sourcePath: path.join(testDir, 'utils'),
+      destinationPath: path.join(testDir, 'helpers'),
+    });
+    expect(result.success).toBe(true);
+    expect(exists('helpers/logo.svg')).toBe(true);
+    expect(exists('utils')).toBe(false);
+
+    await undoLastOperation();
+
+    expect(read('utils/logo.svg')).toBe('<svg />\n');
+    expect(read('main.ts')).toContain('./utils/math');
+    expect(exists('helpers')).toBe(false);
+  });
+
+  it('should keep the cached project usable after an undo', async () => {
+    process.chdir(testDir);
+    await moveTypeScriptFile({
+      source: path.join(testDir, 'utils', 'math.ts'),
+      destination: path.join(testDir, 'lib', 'math.ts'),
+    });
+    await undoLastOperation();
+
+    const result = await renameSymbol({
+      filePath: path.join(testDir, 'utils', 'math.ts'),
+      oldName: 'add',
+      newName: 'sum',
+      type: 'variable',
+    });
+
+    expect(result.success).toBe(true);
+    expect(read('main.ts')).toContain('import { sum } from');
+  });
+
+  it('should refuse to overwrite files edited after the operation unless forced', async () => {
+    await applyOperation({
+      tool: 'test',
+      description: 'Edit main.ts',
+      changes: [{ filePath: path.join(testDir, 'main.ts'), content: '// generated\n' }],
+    });
+    fs.writeFileSync(path.join(testDir, 'main.ts'), '// edited by hand\n');
+
+    const refused = await undoLastOperation();
+    expect(refused.success).toBe(false);
+    expect(refused.conflicts).toEqual([path.join(testDir, 'main.ts')]);
+    expect(read('main.ts')).toBe('// edited by hand\n');
+
+    const forced = await undoLastOperation({ force: true });
+    expect(forced.success).toBe(true);
+    expect(read('main.ts')).toContain("import { add } from './utils/math'");
+  });
+
+  it('should roll back every file when one write fails', async () => {
+    fs.mkdirSync(path.join(testDir, 'blocked.ts'));
+
+    await expect(
+      applyOperation({
+        tool: 'test',
+        description: 'Partially failing write',
+        changes: [
+          { filePath: path.join(testDir, 'main.ts'), content: '// replaced\n' },
+          { filePath: path.join(testDir, 'created', 'new.ts'), content: 'export {};\n' },
+          { filePath: path.join(testDir, 'blocked.ts'), content: 'export {};\n' },
+        ],
+      })
+    ).rejects.toThrow();
+
+    expect(read('main.ts')).toContain("import { add } from './utils/math'");
+    expect(exists('created')).toBe(false);
+    expect(fs.readdirSync(testDir).some(name => name.endsWith('.tmp'))).toBe(false);
+    expect(listOperations().operations).toHaveLength(0);
+  });
+
+  it('should only list and undo the operations of the current session', async () => {
+    await withOperationSession('first', () =>
+      moveTypeScriptFile({
+        source: path.join(testDir, 'utils', 'math.ts'),
+        destination: path.join(testDir, 'lib', 'math.ts'),
+      })
+    );
+
+    const other = await withOperationSession('second', async () => ({
+      operations: listOperations().operations,
+      undo: await undoLastOperation(),
+    }));
+    expect(other.operations).toEqual([]);
+    expect(other.undo.errorCode).toBe('NOTHING_TO_UNDO');
+    expect(exists('lib/math.ts')).toBe(true);
+
+    const own = await withOperationSession('first', () => undoLastOperation());
+    expect(own.success).toBe(true);
+    expect(exists('utils/math.ts')).toBe(true);
+  });
+
+  it('should report when there is nothing to undo', async () => {
+    const result = await undoLastOperation();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No operation to undo');
+  });
+});
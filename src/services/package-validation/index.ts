@@ -7,6 +7,7 @@ import type {
   ExportsValidationInfo,
   TypesVersionsValidationInfo,
 } from '../../types';
+import { describeError } from '../../utils/errors';
 
 export const validatePackage = async (
   options: PackageValidationOptions
@@ -62,7 +63,7 @@ export const validatePackage = async (
       issues: [],
       warnings: [],
       fileResolution: [],
-      error: error instanceof Error ? error.message : String(error),
+      ...describeError(error),
     };
   }
 };
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import type { ReloadProjectOptions, ReloadProjectResult } from '../../types';
+import { describeError } from '../../utils/errors';
+import {
+  clearProjectRegistry,
+  getCachedProjects,
+  rebuildProject,
+  resolveProjectLocation,
+} from '../../utils/project-registry';
+
+export const reloadProject = async (
+  options: ReloadProjectOptions = {}
+): Promise<ReloadProjectResult> => {
+  const { path: projectPath } = options;
+
+  try {
+    // Without a path every cached project is dropped and rebuilt lazily
+    if (!projectPath) {
+      return {
+        success: true,
+        reloaded: [],
+        clearedCount: clearProjectRegistry(),
+      };
+    }
+
+    if (!fs.existsSync(projectPath)) {
+      return {
+        success: false,
+        reloaded: [],
+        clearedCount: 0,
+        error: `Path not found: ${projectPath}`,
+        errorCode: 'FILE_NOT_FOUND',
+      };
+    }
+
+    const location = resolveProjectLocation(projectPath);
+    const wasCached = getCachedProjects().some(
+      cached => cached.rootDir === location.rootDir && cached.tsConfigPath === location.tsConfigPath
+    );
+    const project = await rebuildProject(location);
+
+    return {
+      success: true,
+      reloaded: [
+        {
+          tsConfigPath: location.tsConfigPath,
+          rootDir: location.rootDir,
+          fileCount: project.getSourceFiles().length,
+        },
+      ],
+      clearedCount: wasCached ? 1 : 0,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      reloaded: [],
+      clearedCount: 0,
+      ...describeError(error),
+    };
+  }
+};
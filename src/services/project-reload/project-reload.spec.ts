@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { reloadProject } from './index';
+import { acquireProject, configureProjectRegistry, getCachedProjects, withProject } from '../../utils/project-registry';
+
+describe('project registry', () => {
+  let testDir: string;
+  let location: { tsConfigPath: string; rootDir: string };
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'project-registry-test-')));
+    fs.writeFileSync(
+      path.join(testDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { target: 'ES2020', strict: true } })
+    );
+    fs.writeFileSync(path.join(testDir, 'a.ts'), 'export const a = 1;\n');
+    location = { tsConfigPath: path.join(testDir, 'tsconfig.json'), rootDir: testDir };
+  });
+
+  afterEach(async () => {
+    await reloadProject();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reuse the same project across calls', () => {
+    const first = acquireProject(location);
+    const second = acquireProject(location);
+
+    expect(second).toBe(first);
+    expect(getCachedProjects().some(cached => cached.rootDir === testDir)).toBe(true);
+  });
+
+  it('should pick up files changed, added and deleted on disk', () => {
+    const project = acquireProject(location);
+    const originalFile = project.getSourceFileOrThrow(path.join(testDir, 'a.ts'));
+
+    fs.writeFileSync(path.join(testDir, 'a.ts'), 'export const a = 2;\nexport const extra = 3;\n');
+    fs.writeFileSync(path.join(testDir, 'b.ts'), 'export const b = 1;\n');
+    acquireProject(location);
+
+    expect(originalFile.getVariableDeclaration('extra')).toBeDefined();
+    expect(project.getSourceFile(path.join(testDir, 'b.ts'))).toBeDefined();
+
+    fs.rmSync(path.join(testDir, 'b.ts'));
+    acquireProject(location);
+
+    expect(project.getSourceFile(path.join(testDir, 'b.ts'))).toBeUndefined();
+  });
+
+  it('should only look for new files in directories that changed', () => {
+    fs.mkdirSync(path.join(testDir, 'lib'));
+    fs.utimesSync(path.join(testDir, 'lib'), 1000, 1000);
+    const project = acquireProject(location);
+
+    // A directory whose modification time is unchanged is not walked again
+    fs.writeFileSync(path.join(testDir, 'lib', 'hidden.ts'), 'export const hidden = 1;\n');
+    fs.utimesSync(path.join(testDir, 'lib'), 1000, 1000);
+    acquireProject(location);
+
+    expect(project.getSourceFile(path.join(testDir, 'lib', 'hidden.ts'))).toBeUndefined();
+
+    fs.mkdirSync(path.join(testDir, 'lib', 'nested'));
+    fs.writeFileSync(path.join(testDir, 'lib', 'nested', 'c.ts'), 'export const c = 1;\n');
+    acquireProject(location);
+
+    expect(project.getSourceFile(path.join(testDir, 'lib', 'nested', 'c.ts'))).toBeDefined();
+    expect(project.getSourceFile(path.join(testDir, 'lib', 'hidden.ts'))).toBeDefined();
+  });
+
+  it('should discard edits an operation did not save', async () => {
+    const project = await withProject(location, async (project) => {
+      project.getSourceFileOrThrow(path.join(testDir, 'a.ts')).insertText(0, '// edit\n');
+      return project;
+    });
+
+    const next = acquireProject(location);
+    expect(next).toBe(project);
+    expect(next.getSourceFileOrThrow(path.join(testDir, 'a.ts')).getFullText()).not.toContain('// edit');
+  });
+
+  it('should keep the project when an operation leaves unsaved moves', async () => {
+    const project = await withProject(location, async (project) => {
+      project.getSourceFileOrThrow(path.join(testDir, 'a.ts')).move(path.join(testDir, 'moved.ts'));
+      return project;
+    });
+
+    const next = acquireProject(location);
+    expect(next).toBe(project);
+    expect(next.getSourceFile(path.join(testDir, 'a.ts'))?.getFullText()).toBe('export const a = 1;\n');
+    expect(next.getSourceFile(path.join(testDir, 'moved.ts'))).toBeUndefined();
+  });
+
+  it('should keep the files an operation moved on disk', async () => {
+    const movedPath = path.join(testDir, 'moved.ts');
+    const { project, sourceFile } = await withProject(location, async (project) => {
+      const sourceFile = project.getSourceFileOrThrow(path.join(testDir, 'a.ts'));
+      sourceFile.move(movedPath);
+      fs.renameSync(path.join(testDir, 'a.ts'), movedPath);
+      return { project, sourceFile };
+    });
+
+    expect(acquireProject(location)).toBe(project);
+    expect(project.getSourceFile(movedPath)).toBe(sourceFile);
+    expect(project.getSourceFile(path.join(testDir, 'a.ts'))).toBeUndefined();
+
+    // The path it left is picked up again once a file appears there
+    fs.writeFileSync(path.join(testDir, 'a.ts'), 'export const a = 3;\n');
+    expect(acquireProject(location).getSourceFile(path.join(testDir, 'a.ts'))).toBeDefined();
+  });
+
+  it('should not evict a project acquired while the cache is full of busy projects', async () => {
+    const otherDir = path.join(testDir, 'other');
+    fs.mkdirSync(otherDir);
+    fs.writeFileSync(path.join(otherDir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true } }));
+    fs.writeFileSync(path.join(otherDir, 'b.ts'), 'export const b = 1;\n');
+    configureProjectRegistry({ maxProjects: 1 });
+
+    try {
+      let release = () => {};
+      const busy = withProject(location, () => new Promise<void>(resolve => (release = resolve)));
+      const fileCount = await withProject(
+        { tsConfigPath: path.join(otherDir, 'tsconfig.json'), rootDir: otherDir },
+        async project => project.getSourceFiles().length
+      );
+      release();
+      await busy;
+
+      expect(fileCount).toBe(1);
+    } finally {
+      configureProjectRegistry({ maxProjects: 4 });
+    }
+  });
+
+  it('should rebuild a project on reload_project', async () => {
+    const project = acquireProject(location);
+
+    const result = await reloadProject({ path: path.join(testDir, 'a.ts') });
+
+    expect(result.success).toBe(true);
+    expect(result.clearedCount).toBe(1);
+    expect(result.reloaded[0]?.tsConfigPath).toBe(location.tsConfigPath);
+    expect(result.reloaded[0]?.fileCount).toBeGreaterThan(0);
+    expect(acquireProject(location)).not.toBe(project);
+  });
+
+  it('should report missing paths', async () => {
+    const result = await reloadProject({ path: path.join(testDir, 'missing.ts') });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Path not found');
+  });
+});
@@ -0,0 +1,238 @@
+import { Node, ts, type Project, type SourceFile, type Symbol } from 'ts-morph';
+import type { RenameConflict } from '../../types';
+import type { RenameEdit } from './locations';
+
+const MEMBER_FLAGS =
+  ts.SymbolFlags.Property | ts.SymbolFlags.Method | ts.SymbolFlags.EnumMember | ts.SymbolFlags.Accessor;
+
+// Checks a rename before it is applied: the new name must be a valid
+// identifier, must not be captured by or shadow another binding where the
+// symbol is referenced, and must not clash with members of the same type or
+// with exports of the modules (and barrels) that export the symbol
+export const findRenameConflicts = (
+  project: Project,
+  target: Node,
+  edits: RenameEdit[],
+  newName: string
+): RenameConflict[] => {
+  const oldName = target.getText();
+  if (newName === oldName) {
+    return [];
+  }
+
+  const checker = project.getTypeChecker();
+  let symbol = checker.getSymbolAtLocation(target);
+  if (symbol?.isAlias()) {
+    symbol = checker.getAliasedSymbol(symbol) ?? symbol;
+  }
+  const isMember = symbol !== undefined && (symbol.getFlags() & MEMBER_FLAGS) !== 0;
+
+  const token = scanName(newName);
+  if (token === undefined || !isNameToken(token, Node.isPrivateIdentifier(target))) {
+    return [createConflict(target, 'invalid_identifier', `"${newName}" is not a valid identifier`)];
+  }
+  // Members may use reserved words (`item.default`), bindings may not
+  if (!isMember && isReservedWord(token)) {
+    return [createConflict(target, 'reserved_word', `"${newName}" is a reserved word`)];
+  }
+  if (!symbol) {
+    return [];
+  }
+
+  const conflicts = isMember
+    ? findMemberCollisions(symbol, newName)
+    : findScopeCollisions(project, symbol, edits, newName);
+
+  return [...conflicts, ...findExportCollisions(project, symbol, edits, oldName, newName)];
+};
+
+const findScopeCollisions = (
+  project: Project,
+  symbol: Symbol,
+  edits: RenameEdit[],
+  newName: string
+): RenameConflict[] => {
+  const checker = project.getTypeChecker();
+  const meaning = getMeaning(symbol);
+  const conflicts: RenameConflict[] = [];
+  const reported = new Set<Symbol>();
+
+  for (const edit of edits) {
+    // Shorthand properties and aliased specifiers keep their local name
+    if (edit.kind !== 'code' || edit.text !== newName) {
+      continue;
+    }
+
+    const node = edit.sourceFile.getDescendantAtPos(edit.start);
+    if (!node || !isBindingReference(node)) {
+      continue;
+    }
+
+    const existing = checker
+      .getSymbolsInScope(node, meaning)
+      .find(candidate => candidate.getName() === newName && candidate !== symbol && isProjectSymbol(candidate));
+    if (existing && !reported.has(existing)) {
+      reported.add(existing);
+      const declaration = existing.getDeclarations()[0];
+      const where = declaration ? ` (declared at ${describeLocation(declaration)})` : '';
+      conflicts.push(createConflict(node, 'scope_collision', `"${newName}" is already defined in this scope${where}`));
+    }
+  }
+
+  return conflicts;
+};
+
+const findMemberCollisions = (symbol: Symbol, newName: string): RenameConflict[] => {
+  const conflicts: RenameConflict[] = [];
+
+  for (const declaration of symbol.getDeclarations()) {
+    const container = declaration.getParent();
+    if (!container) {
+      continue;
+    }
+
+    const existing = Node.isEnumDeclaration(container)
+      ? container.getMember(newName)
+      : (Node.isClassDeclaration(container) ? container.getStaticMember(newName) : undefined) ??
+        container.getType().getProperty(newName)?.getDeclarations()[0];
+    if (existing) {
+      conflicts.push(
+        createConflict(declaration, 'member_collision', `A member named "${newName}" already exists (${describeLocation(existing)})`)
+      );
+    }
+  }
+
+  return conflicts;
+};
+
+// Modules exporting the symbol, directly or through `export *` and named
+// re-exports, must not already export something under the new name
+const findExportCollisions = (
+  project: Project,
+  symbol: Symbol,
+  edits: RenameEdit[],
+  oldName: string,
+  newName: string
+): RenameConflict[] => {
+  const declarations = new Set(symbol.getDeclarations());
+  // Named re-exports only export the new name when they are renamed without an alias
+  const renamedSpecifiers = new Set(
+    edits.filter(edit => edit.text === newName).map(edit => `${edit.sourceFile.getFilePath()}:${edit.start}`)
+  );
+  const exportingModules = new Set<SourceFile>();
+  for (const declaration of declarations) {
+    const sourceFile = declaration.getSourceFile();
+    if (sourceFile.getExportedDeclarations().get(oldName)?.some(exported => declarations.has(exported))) {
+      exportingModules.add(sourceFile);
+    }
+  }
+
+  for (const module of exportingModules) {
+    for (const sourceFile of project.getSourceFiles()) {
+      if (exportingModules.has(sourceFile)) {
+        continue;
+      }
+      const reExports = sourceFile.getExportDeclarations().some(exportDeclaration => {
+        if (exportDeclaration.getModuleSpecifierSourceFile() !== module) {
+          return false;
+        }
+        const namedExports = exportDeclaration.getNamedExports();
+        return (
+          (namedExports.length === 0 && !exportDeclaration.getNamespaceExport()) ||
+          namedExports.some(specifier =>
+            renamedSpecifiers.has(`${sourceFile.getFilePath()}:${specifier.getNameNode().getStart()}`)
+          )
+        );
+      });
+      if (reExports) {
+        // The set grows while it is iterated, so barrels of barrels are visited too
+        exportingModules.add(sourceFile);
+      }
+    }
+  }
+
+  const editedFiles = new Set(edits.map(edit => edit.sourceFile));
+  const conflicts: RenameConflict[] = [];
+  for (const module of exportingModules) {
+    const existing = module.getExportedDeclarations().get(newName)?.find(declaration => !declarations.has(declaration));
+    // Locals of files the rename touches are already reported as scope collisions
+    if (!existing || (existing.getSourceFile() === module && editedFiles.has(module))) {
+      continue;
+    }
+
+    conflicts.push(
+      createConflict(existing, 'export_collision', `${module.getFilePath()} would export "${newName}" twice`)
+    );
+  }
+
+  return conflicts;
+};
+
+// Identifiers that refer to a binding in scope, as opposed to property names
+// after a dot, in object literals or on the exported side of a specifier
+const isBindingReference = (node: Node): boolean => {
+  const parent = node.getParent();
+  if (!parent) {
+    return false;
+  }
+  if (Node.isPropertyAccessExpression(parent)) {
+    return parent.getNameNode() !== node;
+  }
+  if (Node.isQualifiedName(parent)) {
+    return parent.getRight() !== node;
+  }
+  if (Node.isImportSpecifier(parent) || Node.isExportSpecifier(parent)) {
+    return !parent.getAliasNode() || parent.getAliasNode() === node;
+  }
+  return !(Node.isPropertyAssignment(parent) && parent.getNameNode() === node);
+};
+
+const getMeaning = (symbol: Symbol): ts.SymbolFlags => {
+  let meaning = ts.SymbolFlags.Alias;
+  for (const flag of [ts.SymbolFlags.Value, ts.SymbolFlags.Type, ts.SymbolFlags.Namespace]) {
+    if ((symbol.getFlags() & flag) !== 0) {
+      meaning |= flag;
+    }
+  }
+  return meaning;
+};
+
+// Globals from lib.d.ts and packages may be shadowed; only the project's own
+// declarations are treated as collisions
+const isProjectSymbol = (symbol: Symbol): boolean => {
+  return symbol
+    .getDeclarations()
+    .some(declaration => !declaration.getSourceFile().isInNodeModules() && !declaration.getSourceFile().isFromExternalLibrary());
+};
+
+// The token a name scans to, or undefined when it is not a single token
+const scanName = (name: string): ts.SyntaxKind | undefined => {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, name);
+  const token = scanner.scan();
+  return scanner.getTokenEnd() === name.length ? token : undefined;
+};
+
+// Keywords scan as their own tokens but are valid names in some positions
+const isNameToken = (token: ts.SyntaxKind, isPrivate: boolean): boolean => {
+  if (isPrivate) {
+    return token === ts.SyntaxKind.PrivateIdentifier;
+  }
+  return token === ts.SyntaxKind.Identifier || (token >= ts.SyntaxKind.FirstKeyword && token <= ts.SyntaxKind.LastKeyword);
+};
+
+const isReservedWord = (token: ts.SyntaxKind): boolean => {
+  return (
+    (token >= ts.SyntaxKind.FirstReservedWord && token <= ts.SyntaxKind.LastReservedWord) ||
+    (token >= ts.SyntaxKind.FirstFutureReservedWord && token <= ts.SyntaxKind.LastFutureReservedWord)
+  );
+};
+
+const createConflict = (node: Node, kind: RenameConflict['kind'], message: string): RenameConflict => {
+  const { line, column } = node.getSourceFile().getLineAndColumnAtPos(node.getStart());
+  return { filePath: node.getSourceFile().getFilePath(), line, column, kind, message };
+};
+
+const describeLocation = (node: Node): string => {
+  const { line, column } = node.getSourceFile().getLineAndColumnAtPos(node.getStart());
+  return `${node.getSourceFile().getFilePath()}:${line}:${column}`;
+};
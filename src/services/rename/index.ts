@@ -1,146 +1,302 @@
-import { Project, Node, SyntaxKind, Identifier } from 'ts-morph';
-import * as path from 'path';
-import type { RenameOptions, RenameResult } from '../../types';
+import { Node, type Project, type SourceFile } from 'ts-morph';
+import type { ErrorCode, RenameOptions, RenameResult, SymbolKind } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
+import { resolveMonorepoLocation, resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { findRenameConflicts } from './conflicts';
+import { collectRenameEdits, describeNonCodeEdits, type RenameEdit } from './locations';
 
 export const renameSymbol = async (options: RenameOptions): Promise<RenameResult> => {
-  const { filePath, oldName, newName, type } = options;
-  let project: Project | undefined;
+  const { filePath, newName, crossProject = false, preview = false, projectRoot } = options;
 
   try {
-    project = new Project({
-      tsConfigFilePath: path.join(process.cwd(), 'tsconfig.json'),
-      useInMemoryFileSystem: false,
-    });
+    // Across projects, importers in other packages (`@org/core`) resolve to the
+    // renamed source instead of the package's build output
+    const location = crossProject
+      ? resolveMonorepoLocation(filePath, projectRoot)
+      : resolveProjectLocation(filePath, projectRoot);
+
+    return await withProject(location, async (project) => {
+      const renamed = renameSymbolInProject(project, options);
+      if (!renamed.success) {
+        return renamed;
+      }
+      const { updatedFiles = [], conflicts, nonCodeOccurrences } = renamed;
+
+      if (preview) {
+        return {
+          success: true,
+          updatedFiles,
+          conflicts,
+          nonCodeOccurrences,
+          preview: collectProjectChanges(project),
+        };
+      }
+
+      await applyOperation({
+        tool: 'rename_typescript_symbol',
+        description: `Rename ${describeTarget(options)} to ${newName} in ${filePath}`,
+        changes: collectProjectFileChanges(project),
+      });
 
-    const sourceFile = project.getSourceFile(filePath);
-    if (!sourceFile) {
       return {
-        success: false,
-        error: `Source file not found: ${filePath}`,
+        success: true,
+        updatedFiles,
+        conflicts,
+        nonCodeOccurrences,
       };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
+
+// Renames the symbol and its references in memory without writing anything.
+// The target is the identifier at `line`/`column` (or `offset`) when given,
+// otherwise the first declaration matching `oldName` and `type`.
+export const renameSymbolInProject = (
+  project: Project,
+  options: Pick<
+    RenameOptions,
+    | 'filePath'
+    | 'oldName'
+    | 'newName'
+    | 'type'
+    | 'line'
+    | 'column'
+    | 'offset'
+    | 'force'
+    | 'preserveAliases'
+    | 'renameInJsDoc'
+    | 'renameInComments'
+    | 'renameInStrings'
+  >
+): RenameResult => {
+  const {
+    filePath,
+    newName,
+    force = false,
+    preserveAliases = true,
+    renameInJsDoc = true,
+    renameInComments = false,
+    renameInStrings = false,
+  } = options;
+  const sourceFile = project.getSourceFile(filePath);
+  if (!sourceFile) {
+    return {
+      success: false,
+      error: `Source file not found: ${filePath}`,
+      errorCode: 'FILE_NOT_FOUND',
+    };
+  }
+
+  const target = findRenameTarget(sourceFile, options);
+  if ('error' in target) {
+    return { success: false, ...target };
+  }
+
+  const languageService = project.getLanguageService();
+  const renameInfo = languageService.compilerObject.getRenameInfo(sourceFile.getFilePath(), target.node.getStart(), {});
+  if (!renameInfo.canRename) {
+    return {
+      success: false,
+      error: `Cannot rename "${target.node.getText()}" at ${describePosition(target.node)}: ${renameInfo.localizedErrorMessage}`,
+      errorCode: 'NOT_RENAMEABLE',
+    };
+  }
+
+  const edits = collectRenameEdits(languageService, target.node, newName, {
+    preserveAliases,
+    renameInJsDoc,
+    renameInComments,
+    renameInStrings,
+  });
+  const nonCodeOccurrences = describeNonCodeEdits(edits);
+  const conflicts = findRenameConflicts(project, target.node, edits, newName);
+  if (conflicts.length > 0 && !force) {
+    return {
+      success: false,
+      conflicts,
+      error: `Renaming "${target.node.getText()}" to "${newName}" would cause ${conflicts.length} conflict(s); pass force to rename anyway`,
+      errorCode: 'RENAME_CONFLICT',
+    };
+  }
+
+  const editsByFile = new Map<SourceFile, RenameEdit[]>();
+  for (const edit of edits) {
+    editsByFile.set(edit.sourceFile, [...(editsByFile.get(edit.sourceFile) ?? []), edit]);
+  }
+
+  // Later edits first, so that earlier offsets stay valid
+  for (const [editedFile, fileEdits] of editsByFile) {
+    let text = editedFile.getFullText();
+    for (const edit of fileEdits.sort((a, b) => b.start - a.start)) {
+      text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
     }
+    editedFile.replaceWithText(text);
+  }
 
-    const symbol = findSymbol(sourceFile, oldName, type);
-    if (!symbol) {
+  return {
+    success: true,
+    updatedFiles: [...editsByFile.keys()].map(editedFile => editedFile.getFilePath()),
+    conflicts: conflicts.length > 0 ? conflicts : undefined,
+    nonCodeOccurrences: nonCodeOccurrences.length > 0 ? nonCodeOccurrences : undefined,
+  };
+};
+
+const findRenameTarget = (
+  sourceFile: SourceFile,
+  options: Pick<RenameOptions, 'filePath' | 'oldName' | 'type' | 'line' | 'column' | 'offset'>
+): { node: Node } | { error: string; errorCode: ErrorCode } => {
+  const { filePath, oldName, type, line, column, offset } = options;
+
+  if (offset === undefined && line === undefined) {
+    if (oldName === undefined || type === undefined) {
       return {
-        success: false,
-        error: `Symbol "${oldName}" of type "${type}" not found in ${filePath}`,
+        error: 'Either line and column, offset, or oldName and type are required',
+        errorCode: 'INVALID_ARGUMENTS',
       };
     }
 
-    const referencedSymbols = project.getLanguageService().findReferences(symbol);
-    const updatedFiles = new Set<string>();
-
-    for (const referencedSymbol of referencedSymbols) {
-      for (const reference of referencedSymbol.getReferences()) {
-        const refSourceFile = reference.getSourceFile();
-        const node = reference.getNode();
-        
-        if (Node.isIdentifier(node) && node.getText() === oldName) {
-          node.replaceWithText(newName);
-          updatedFiles.add(refSourceFile.getFilePath());
-        }
-      }
-    }
-
-    if (Node.isIdentifier(symbol)) {
-      symbol.replaceWithText(newName);
-      updatedFiles.add(sourceFile.getFilePath());
-    }
+    const symbol = findSymbol(sourceFile, oldName, type);
+    return symbol
+      ? { node: symbol }
+      : { error: `Symbol "${oldName}" of type "${type}" not found in ${filePath}`, errorCode: 'SYMBOL_NOT_FOUND' };
+  }
 
-    await project.save();
+  const position = offset ?? toOffset(sourceFile, line!, column ?? 1);
+  if (position === undefined || position < 0 || position > sourceFile.getEnd()) {
+    return {
+      error: `Position ${offset ?? `${line}:${column ?? 1}`} is outside ${filePath}`,
+      errorCode: 'INVALID_ARGUMENTS',
+    };
+  }
 
+  const node = sourceFile.getDescendantAtPos(position);
+  if (!node || !(Node.isIdentifier(node) || Node.isPrivateIdentifier(node))) {
     return {
-      success: true,
-      updatedFiles: Array.from(updatedFiles),
+      error: `No identifier at ${filePath}:${describePosition(node ?? sourceFile, position)}`,
+      errorCode: 'NOT_RENAMEABLE',
     };
-  } catch (error) {
+  }
+  if (oldName !== undefined && node.getText() !== oldName) {
     return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
+      error: `Expected "${oldName}" at ${filePath}:${describePosition(node)} but found "${node.getText()}"`,
+      errorCode: 'SYMBOL_NOT_FOUND',
     };
-  } finally {
-    // Clean up project resources
-    if (project) {
-      try {
-        const host = project.getModuleResolutionHost?.();
-        if (host && 'clearCache' in host && typeof host.clearCache === 'function') {
-          host.clearCache();
-        }
-        (project as any)._context?.compilerFactory?.removeCompilerApi?.();
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
+
+  return { node };
+};
+
+const describeTarget = ({ oldName, type, line, column, offset }: RenameOptions): string => {
+  if (offset !== undefined) {
+    return `symbol at offset ${offset}`;
+  }
+  return line !== undefined ? `symbol at ${line}:${column ?? 1}` : `${type} ${oldName}`;
 };
 
-const findSymbol = (
-  sourceFile: any,
-  name: string,
-  type: RenameOptions['type']
-): Identifier | undefined => {
-  let foundNode: Identifier | undefined;
-
-  sourceFile.forEachDescendant((node: Node) => {
-    if (foundNode) return;
-
-    switch (type) {
-      case 'variable':
-        if (Node.isVariableDeclaration(node)) {
-          const nameNode = node.getNameNode();
-          if (Node.isIdentifier(nameNode) && nameNode.getText() === name) {
-            foundNode = nameNode;
-          }
-        }
-        break;
-
-      case 'function':
-        if (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node)) {
-          const nameNode = node.getNameNode();
-          if (nameNode && nameNode.getText() === name) {
-            foundNode = nameNode;
-          }
-        }
-        if (Node.isVariableDeclaration(node)) {
-          const initializer = node.getInitializer();
-          if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
-            const nameNode = node.getNameNode();
-            if (Node.isIdentifier(nameNode) && nameNode.getText() === name) {
-              foundNode = nameNode;
-            }
-          }
-        }
-        break;
-
-      case 'type':
-        if (Node.isTypeAliasDeclaration(node)) {
-          const nameNode = node.getNameNode();
-          if (nameNode.getText() === name) {
-            foundNode = nameNode;
-          }
-        }
-        break;
-
-      case 'interface':
-        if (Node.isInterfaceDeclaration(node)) {
-          const nameNode = node.getNameNode();
-          if (nameNode.getText() === name) {
-            foundNode = nameNode;
-          }
-        }
-        break;
-
-      case 'class':
-        if (Node.isClassDeclaration(node)) {
-          const nameNode = node.getNameNode();
-          if (nameNode && nameNode.getText() === name) {
-            foundNode = nameNode;
-          }
-        }
-        break;
+// `line` and `column` are 1-based, as editors show them
+const toOffset = (sourceFile: SourceFile, line: number, column: number): number | undefined => {
+  const lineStarts = sourceFile.compilerNode.getLineStarts();
+  const lineStart = lineStarts[line - 1];
+  if (lineStart === undefined || column < 1) {
+    return undefined;
+  }
+
+  const lineEnd = lineStarts[line] ?? sourceFile.getEnd();
+  const position = lineStart + column - 1;
+  return position < lineEnd ? position : undefined;
+};
+
+const describePosition = (node: Node, position = node.getStart()): string => {
+  const { line, column } = node.getSourceFile().getLineAndColumnAtPos(position);
+  return `${line}:${column}`;
+};
+
+// `name` may be qualified with its container (`UserService.getUser`,
+// `Direction.Up`, `formatDate.options`) to pick one of several members
+const findSymbol = (sourceFile: SourceFile, name: string, type: SymbolKind): Node | undefined => {
+  const separator = name.lastIndexOf('.');
+  const ownerName = separator === -1 ? undefined : name.slice(0, separator);
+  const memberName = name.slice(separator + 1);
+
+  for (const node of sourceFile.getDescendants()) {
+    const nameNode = getDeclarationName(node, type);
+    if (nameNode?.getText() === memberName && (ownerName === undefined || getOwnerName(node) === ownerName)) {
+      return nameNode;
     }
-  });
+  }
+  return undefined;
+};
+
+const getDeclarationName = (node: Node, type: SymbolKind): Node | undefined => {
+  switch (type) {
+    case 'variable':
+      return Node.isVariableDeclaration(node) ? node.getNameNode() : undefined;
 
-  return foundNode;
-};
\ No newline at end of file
+    case 'function':
+      if (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node)) {
+        return node.getNameNode();
+      }
+      if (Node.isVariableDeclaration(node)) {
+        const initializer = node.getInitializer();
+        return Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer) ? node.getNameNode() : undefined;
+      }
+      return undefined;
+
+    case 'type':
+      return Node.isTypeAliasDeclaration(node) ? node.getNameNode() : undefined;
+    case 'interface':
+      return Node.isInterfaceDeclaration(node) ? node.getNameNode() : undefined;
+    case 'class':
+      return Node.isClassDeclaration(node) ? node.getNameNode() : undefined;
+    case 'enum':
+      return Node.isEnumDeclaration(node) ? node.getNameNode() : undefined;
+    case 'enumMember':
+      return Node.isEnumMember(node) ? node.getNameNode() : undefined;
+    case 'namespace':
+      return Node.isModuleDeclaration(node) ? node.getNameNode() : undefined;
+    case 'typeParameter':
+      return Node.isTypeParameterDeclaration(node) ? node.getNameNode() : undefined;
+    case 'parameter':
+      return Node.isParameterDeclaration(node) ? node.getNameNode() : undefined;
+
+    case 'method':
+      return Node.isMethodDeclaration(node) || Node.isMethodSignature(node) ? node.getNameNode() : undefined;
+
+    case 'property':
+      return Node.isPropertyDeclaration(node) ||
+        Node.isPropertySignature(node) ||
+        Node.isPropertyAssignment(node) ||
+        Node.isShorthandPropertyAssignment(node) ||
+        Node.isGetAccessorDeclaration(node) ||
+        Node.isSetAccessorDeclaration(node)
+        ? node.getNameNode()
+        : undefined;
+  }
+};
+
+// The name of the closest named declaration around a member, e.g. the class
+// of a method or the variable an object literal is assigned to
+const getOwnerName = (declaration: Node): string | undefined => {
+  for (const ancestor of declaration.getAncestors()) {
+    if (
+      Node.isClassDeclaration(ancestor) ||
+      Node.isInterfaceDeclaration(ancestor) ||
+      Node.isEnumDeclaration(ancestor) ||
+      Node.isModuleDeclaration(ancestor) ||
+      Node.isTypeAliasDeclaration(ancestor) ||
+      Node.isFunctionDeclaration(ancestor) ||
+      Node.isMethodDeclaration(ancestor) ||
+      Node.isVariableDeclaration(ancestor)
+    ) {
+      return ancestor.getName();
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,105 @@
+import { Node, type LanguageService, type SourceFile } from 'ts-morph';
+import type { NonCodeOccurrence } from '../../types';
+
+export type RenameEdit = {
+  sourceFile: SourceFile;
+  start: number;
+  end: number;
+  text: string;
+  kind: 'code' | NonCodeOccurrence['kind'];
+};
+
+export type RenameEditOptions = {
+  preserveAliases: boolean;
+  renameInJsDoc: boolean;
+  renameInComments: boolean;
+  renameInStrings: boolean;
+};
+
+// Follows the language service's rename semantics: shorthand properties and
+// destructured bindings keep their local names, and re-exports keep their
+// public name through an alias (`export { newName as oldName } from`). With
+// `preserveAliases` off, re-exports are renamed as well and the rename carries
+// on into every module importing them.
+export const collectRenameEdits = (
+  languageService: LanguageService,
+  target: Node,
+  newName: string,
+  options: RenameEditOptions
+): RenameEdit[] => {
+  const { preserveAliases, renameInJsDoc, renameInComments, renameInStrings } = options;
+  const edits = new Map<string, RenameEdit>();
+  const pending = [target];
+
+  for (let node = pending.shift(); node; node = pending.shift()) {
+    const locations = languageService.findRenameLocations(node, {
+      usePrefixAndSuffixText: true,
+      renameInComments,
+      renameInStrings,
+    });
+
+    for (const location of locations) {
+      const sourceFile = location.getSourceFile();
+      const start = location.getTextSpan().getStart();
+      const end = location.getTextSpan().getEnd();
+      const key = `${sourceFile.getFilePath()}:${start}`;
+      if (edits.has(key)) {
+        continue;
+      }
+
+      const locationNode = sourceFile.getDescendantAtPos(start);
+      const kind = getEditKind(locationNode, start);
+      if (kind === 'jsdoc' && !renameInJsDoc) {
+        continue;
+      }
+
+      const prefix = location.getPrefixText() ?? '';
+      const suffix = location.getSuffixText() ?? '';
+      const isAliasedSpecifier =
+        (prefix || suffix) &&
+        (Node.isExportSpecifier(locationNode?.getParent()) || Node.isImportSpecifier(locationNode?.getParent()));
+
+      if (!preserveAliases && isAliasedSpecifier) {
+        edits.set(key, { sourceFile, start, end, text: newName, kind });
+        pending.push(locationNode!);
+        continue;
+      }
+
+      edits.set(key, { sourceFile, start, end, text: `${prefix}${newName}${suffix}`, kind });
+    }
+  }
+
+  return [...edits.values()];
+};
+
+// Lists the edits outside code with the line they change, for review
+export const describeNonCodeEdits = (edits: RenameEdit[]): NonCodeOccurrence[] => {
+  return edits.flatMap(edit => {
+    if (edit.kind === 'code') {
+      return [];
+    }
+
+    const { line, column } = edit.sourceFile.getLineAndColumnAtPos(edit.start);
+    const text = edit.sourceFile.getFullText().split('\n')[line - 1]?.trim() ?? '';
+    return [{ filePath: edit.sourceFile.getFilePath(), line, column, kind: edit.kind, text }];
+  });
+};
+
+// Resolved references are identifiers, in code or in JSDoc tags and
+// `{@link}`s; text matches land inside a comment or a string literal
+const getEditKind = (node: Node | undefined, start: number): RenameEdit['kind'] => {
+  if (node && Node.isIdentifier(node) && node.getStart() === start) {
+    return node.getAncestors().some(ancestor => Node.isJSDoc(ancestor)) ? 'jsdoc' : 'code';
+  }
+  if (
+    node &&
+    (Node.isStringLiteral(node) ||
+      Node.isNoSubstitutionTemplateLiteral(node) ||
+      Node.isTemplateHead(node) ||
+      Node.isTemplateMiddle(node) ||
+      Node.isTemplateTail(node))
+  ) {
+    return 'string';
+  }
+  return 'comment';
+};
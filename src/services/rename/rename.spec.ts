@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { renameSymbol } from './index';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('renameSymbol', () => {
+  const { file, read, write } = useTestWorkspace('rename');
+
+  beforeEach(() => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+  });
+
+  it('should rename a symbol found by name and kind across files', async () => {
+    write('math.ts', 'export const add = (a: number, b: number) => a + b;\n');
+    write('app.ts', "import { add } from './math';\nexport const result = add(1, 2);\n");
+
+    const result = await renameSymbol({ filePath: file('math.ts'), oldName: 'add', newName: 'sum', type: 'variable' });
+
+    expect(result.success).toBe(true);
+    expect(read('math.ts')).toBe('export const sum = (a: number, b: number) => a + b;\n');
+    expect(read('app.ts')).toBe("import { sum } from './math';\nexport const result = sum(1, 2);\n");
+  });
+
+  it('should rename only the binding at the given position', async () => {
+    write(
+      'shadow.ts',
+      [
+        'const value = 1;',
+        'export function read() {',
+        '  const value = 2;',
+        '  return value;',
+        '}',
+        'export const outer = value;',
+        '',
+      ].join('\n')
+    );
+
+    const result = await renameSymbol({ filePath: file('shadow.ts'), newName: 'inner', line: 3, column: 9 });
+
+    expect(result.success).toBe(true);
+    expect(read('shadow.ts')).toBe(
+      [
+        'const value = 1;',
+        'export function read() {',
+        '  const inner = 2;',
+        '  return inner;',
+        '}',
+        'export const outer = value;',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should accept a character offset', async () => {
+    write('offset.ts', 'export const first = 1;\nexport const second = first;\n');
+
+    const result = await renameSymbol({ filePath: file('offset.ts'), newName: 'one', offset: 'export const '.length });
+
+    expect(result.success).toBe(true);
+    expect(read('offset.ts')).toBe('export const one = 1;\nexport const second = one;\n');
+  });
+
+  it('should rename members by their qualified name', async () => {
+    write(
+      'members.ts',
+      [
+        'export enum Direction { Up, Down }',
+        'export namespace Geometry { export const origin = 0; }',
+        'export class Store {',
+        '  count = 0;',
+        '  load<Item>(id: string, fallback: Item): Item { return fallback; }',
+        '}',
+        'export const up = Direction.Up + Geometry.origin;',
+        'export const item = new Store().load("id", 1);',
+        '',
+      ].join('\n')
+    );
+
+    const renames = [
+      { oldName: 'Direction.Up', newName: 'North', type: 'enumMember' },
+      { oldName: 'Geometry', newName: 'Shapes', type: 'namespace' },
+      { oldName: 'Store.load', newName: 'fetch', type: 'method' },
+      { oldName: 'Store.count', newName: 'size', type: 'property' },
+      { oldName: 'fetch.id', newName: 'key', type: 'parameter' },
+      { oldName: 'Item', newName: 'Value', type: 'typeParameter' },
+    ] as const;
+    for (const rename of renames) {
+      const result = await renameSymbol({ filePath: file('members.ts'), ...rename });
+      expect(result.success).toBe(true);
+    }
+
+    expect(read('members.ts')).toBe(
+      [
+        'export enum Direction { North, Down }',
+        'export namespace Shapes { export const origin = 0; }',
+        'export class Store {',
+        '  size = 0;',
+        '  fetch<Value>(key: string, fallback: Value): Value { return fallback; }',
+        '}',
+        'export const up = Direction.North + Shapes.origin;',
+        'export const item = new Store().fetch("id", 1);',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should rename properties through contextual types and destructuring', async () => {
+    write('options.ts', 'export interface Options { verbose: boolean }\n');
+    write(
+      'use.ts',
+      [
+        "import type { Options } from './options';",
+        'export const defaults: Options = { verbose: false };',
+        'export const log = ({ verbose }: Options) => verbose;',
+        'export const make = (verbose: boolean): Options => ({ verbose });',
+        '',
+      ].join('\n')
+    );
+
+    const result = await renameSymbol({ filePath: file('options.ts'), oldName: 'Options.verbose', newName: 'debug', type: 'property' });
+
+    expect(result.success).toBe(true);
+    expect(read('options.ts')).toBe('export interface Options { debug: boolean }\n');
+    expect(read('use.ts')).toBe(
+      [
+        "import type { Options } from './options';",
+        'export const defaults: Options = { debug: false };',
+        'export const log = ({ debug: verbose }: Options) => verbose;',
+        'export const make = (verbose: boolean): Options => ({ debug: verbose });',
+        '',
+      ].join('\n')
+    );
+  });
+
+  describe('aliases', () => {
+    beforeEach(() => {
+      write('config.ts', 'export const config = { debug: false };\nexport { config as default };\n');
+      write('index.ts', "export { config } from './config';\n");
+      write('aliased.ts', "import { config as settings } from './config';\nexport const flag = settings.debug;\n");
+      write('public.ts', "import { config } from './index';\nexport const copy = { config };\n");
+    });
+
+    it('should rename the exported side of aliases and keep re-exported names public', async () => {
+      const result = await renameSymbol({ filePath: file('config.ts'), oldName: 'config', newName: 'options', type: 'variable' });
+
+      expect(result.success).toBe(true);
+      expect(read('config.ts')).toBe('export const options = { debug: false };\nexport { options as default };\n');
+      expect(read('index.ts')).toBe("export { options as config } from './config';\n");
+      expect(read('aliased.ts')).toBe("import { options as settings } from './config';\nexport const flag = settings.debug;\n");
+      expect(read('public.ts')).toBe("import { config } from './index';\nexport const copy = { config };\n");
+    });
+
+    it('should carry the rename through re-exports without preserveAliases', async () => {
+      const result = await renameSymbol({
+        filePath: file('config.ts'),
+        oldName: 'config',
+        newName: 'options',
+        type: 'variable',
+        preserveAliases: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(read('index.ts')).toBe("export { options } from './config';\n");
+      expect(read('public.ts')).toBe("import { options } from './index';\nexport const copy = { config: options };\n");
+    });
+
+    it('should rename only the local binding of an import alias', async () => {
+      const result = await renameSymbol({ filePath: file('aliased.ts'), newName: 'appConfig', line: 1, column: 20 });
+
+      expect(result.success).toBe(true);
+      expect(read('aliased.ts')).toBe("import { config as appConfig } from './config';\nexport const flag = appConfig.debug;\n");
+      expect(read('config.ts')).toBe('export const config = { debug: false };\nexport { config as default };\n');
+    });
+  });
+
+  describe('documentation and text', () => {
+    beforeEach(() => {
+      write(
+        'store.ts',
+        [
+          'export class UserStore {}',
+          '/**',
+          ' * Reads from a {@link UserStore}.',
+          ' * @see UserStore',
+          ' * @param store the store to read',
+          ' */',
+          'export const read = (store: UserStore) => store;',
+          '// UserStore instances are cached',
+          'export const label = "UserStore";',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should update JSDoc references and report each of them', async () => {
+      const result = await renameSymbol({ filePath: file('store.ts'), oldName: 'UserStore', newName: 'AccountStore', type: 'class' });
+
+      expect(result.success).toBe(true);
+      expect(read('store.ts')).toContain(' * Reads from a {@link AccountStore}.\n * @see AccountStore\n');
+      expect(read('store.ts')).toContain('// UserStore instances are cached\nexport const label = "UserStore";');
+      expect(result.nonCodeOccurrences).toEqual([
+        { filePath: file('store.ts'), line: 3, column: 24, kind: 'jsdoc', text: '* Reads from a {@link UserStore}.' },
+        { filePath: file('store.ts'), line: 4, column: 9, kind: 'jsdoc', text: '* @see UserStore' },
+      ]);
+
+      const parameter = await renameSymbol({ filePath: file('store.ts'), oldName: 'read.store', newName: 'source', type: 'parameter' });
+      expect(read('store.ts')).toContain(' * @param source the store to read\n');
+      expect(parameter.nonCodeOccurrences?.map(occurrence => occurrence.kind)).toEqual(['jsdoc']);
+    });
+
+    it('should leave JSDoc alone when asked and opt into comments and strings', async () => {
+      const result = await renameSymbol({
+        filePath: file('store.ts'),
+        oldName: 'UserStore',
+        newName: 'AccountStore',
+        type: 'class',
+        renameInJsDoc: false,
+        renameInComments: true,
+        renameInStrings: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(read('store.ts')).toContain(' * Reads from a {@link UserStore}.\n * @see UserStore\n');
+      expect(read('store.ts')).toContain('// AccountStore instances are cached\nexport const label = "AccountStore";');
+      expect(result.nonCodeOccurrences?.map(occurrence => [occurrence.line, occurrence.kind])).toEqual([
+        [8, 'comment'],
+        [9, 'string'],
+      ]);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('should reject invalid identifiers and reserved words', async () => {
+      write('names.ts', 'export const value = 1;\nexport const item = { value };\n');
+
+      const invalid = await renameSymbol({ filePath: file('names.ts'), oldName: 'value', newName: 'new-value', type: 'variable' });
+      expect(invalid.errorCode).toBe('RENAME_CONFLICT');
+      expect(invalid.conflicts).toEqual([
+        expect.objectContaining({ kind: 'invalid_identifier', filePath: file('names.ts'), line: 1, column: 14 }),
+      ]);
+
+      const reserved = await renameSymbol({ filePath: file('names.ts'), oldName: 'value', newName: 'delete', type: 'variable' });
+      expect(reserved.conflicts?.map(conflict => conflict.kind)).toEqual(['reserved_word']);
+
+      // Reserved words are fine as property names
+      const property = await renameSymbol({ filePath: file('names.ts'), oldName: 'item.value', newName: 'default', type: 'property' });
+      expect(property.success).toBe(true);
+    });
+
+    it('should report bindings that would capture or shadow references', async () => {
+      write('helpers.ts', 'export const format = (text: string) => text.trim();\n');
+      write(
+        'view.ts',
+        [
+          "import { format } from './helpers';",
+          'const label = "Label";',
+          'export const render = (title: string) => format(title) + label;',
+          '',
+        ].join('\n')
+      );
+
+      const local = await renameSymbol({ filePath: file('helpers.ts'), oldName: 'format', newName: 'label', type: 'function' });
+      expect(local.conflicts).toEqual([
+        expect.objectContaining({ kind: 'scope_collision', filePath: file('view.ts'), line: 1 }),
+      ]);
+
+      const parameter = await renameSymbol({ filePath: file('helpers.ts'), oldName: 'format', newName: 'title', type: 'function' });
+      expect(parameter.conflicts).toEqual([
+        expect.objectContaining({ kind: 'scope_collision', filePath: file('view.ts'), line: 3 }),
+      ]);
+
+      expect(read('helpers.ts')).toBe('export const format = (text: string) => text.trim();\n');
+    });
+
+    it('should report members and barrel exports that already use the name', async () => {
+      write('shapes.ts', 'export interface Shape { width: number; height: number }\nexport const area = 0;\n');
+      write('units.ts', 'export const perimeter = 0;\n');
+      write('index.ts', "export * from './shapes';\nexport * from './units';\n");
+
+      const member = await renameSymbol({ filePath: file('shapes.ts'), oldName: 'Shape.width', newName: 'height', type: 'property' });
+      expect(member.conflicts?.map(conflict => conflict.kind)).toEqual(['member_collision']);
+
+      const barrel = await renameSymbol({ filePath: file('shapes.ts'), oldName: 'area', newName: 'perimeter', type: 'variable' });
+      expect(barrel.conflicts).toEqual([
+        expect.objectContaining({ kind: 'export_collision', filePath: file('units.ts') }),
+      ]);
+      expect(barrel.conflicts?.[0]?.message).toContain(file('index.ts'));
+    });
+
+    it('should apply the rename anyway with force and still report the conflicts', async () => {
+      write('force.ts', 'export const first = 1;\nexport const second = 2;\n');
+
+      const result = await renameSymbol({ filePath: file('force.ts'), oldName: 'first', newName: 'second', type: 'variable', force: true });
+
+      expect(result.success).toBe(true);
+      expect(result.conflicts?.map(conflict => conflict.kind)).toEqual(['scope_collision']);
+      expect(read('force.ts')).toBe('export const second = 1;\nexport const second = 2;\n');
+    });
+  });
+
+  describe('across projects', () => {
+    const writeJson = (relativePath: string, content: unknown) => {
+      fs.mkdirSync(path.dirname(file(relativePath)), { recursive: true });
+      write(relativePath, JSON.stringify(content));
+    };
+    const writeSource = (relativePath: string, content: string) => {
+      fs.mkdirSync(path.dirname(file(relativePath)), { recursive: true });
+      write(relativePath, content);
+    };
+
+    it('should update consumers in other workspace packages through the package types', async () => {
+      writeJson('package.json', { private: true, workspaces: ['packages/*'] });
+      writeJson('packages/core/package.json', { name: '@org/core', main: './dist/index.js', types: './dist/index.d.ts' });
+      writeJson('packages/core/tsconfig.json', { compilerOptions: { strict: true, outDir: 'dist', rootDir: 'src' } });
+      writeSource('packages/core/src/index.ts', "export { greet } from './greet';\n");
+      writeSource('packages/core/src/greet.ts', 'export const greet = (name: string) => `hi ${name}`;\n');
+      writeJson('packages/app/package.json', { name: '@org/app' });
+      writeSource('packages/app/src/main.ts', "import { greet } from '@org/core';\nexport const message = greet('app');\n");
+      const options = {
+        filePath: file('packages/core/src/greet.ts'),
+        oldName: 'greet',
+        newName: 'welcome',
+        type: 'variable' as const,
+        preserveAliases: false,
+      };
+
+      const local = await renameSymbol({ ...options, preview: true });
+      expect(local.updatedFiles).not.toContain(file('packages/app/src/main.ts'));
+
+      const result = await renameSymbol({ ...options, crossProject: true });
+
+      expect(result.success).toBe(true);
+      expect(read('packages/core/src/index.ts')).toBe("export { welcome } from './greet';\n");
+      expect(read('packages/app/src/main.ts')).toBe(
+        "import { welcome } from '@org/core';\nexport const message = welcome('app');\n"
+      );
+    });
+
+    it('should follow pnpm workspaces, subpath exports and references outside the root', async () => {
+      writeSource('repo/pnpm-workspace.yaml', "packages:\n  - 'libs/*' # shared code\n");
+      writeJson('repo/libs/text/package.json', {
+        name: '@org/text',
+        exports: { './*': { types: './dist/*.d.ts', import: './dist/*.js' } },
+      });
+      writeSource('repo/libs/text/src/shout.ts', 'export function shout(text: string) {\n  return text.toUpperCase();\n}\n');
+      writeJson('repo/tsconfig.json', { files: [], references: [{ path: '../tools/cli' }] });
+      writeJson('tools/cli/tsconfig.json', { compilerOptions: { strict: true } });
+      writeSource('tools/cli/run.ts', "import { shout } from '@org/text/shout';\nexport const run = () => shout('done');\n");
+
+      const result = await renameSymbol({
+        filePath: file('repo/libs/text/src/shout.ts'),
+        oldName: 'shout',
+        newName: 'yell',
+        type: 'function',
+        crossProject: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(read('tools/cli/run.ts')).toBe("import { yell } from '@org/text/shout';\nexport const run = () => yell('done');\n");
+    });
+  });
+
+  it('should refuse positions that are not renameable', async () => {
+    write('keyword.ts', 'export const value: Array<string> = [];\n');
+
+    const keyword = await renameSymbol({ filePath: file('keyword.ts'), newName: 'other', line: 1, column: 1 });
+    expect(keyword.errorCode).toBe('NOT_RENAMEABLE');
+
+    const library = await renameSymbol({ filePath: file('keyword.ts'), newName: 'List', line: 1, column: 21 });
+    expect(library.errorCode).toBe('NOT_RENAMEABLE');
+
+    const outside = await renameSymbol({ filePath: file('keyword.ts'), newName: 'other', line: 5, column: 1 });
+    expect(outside.errorCode).toBe('INVALID_ARGUMENTS');
+
+    const mismatch = await renameSymbol({ filePath: file('keyword.ts'), oldName: 'other', newName: 'x', line: 1, column: 14 });
+    expect(mismatch.errorCode).toBe('SYMBOL_NOT_FOUND');
+
+    expect(read('keyword.ts')).toBe('export const value: Array<string> = [];\n');
+  });
+});
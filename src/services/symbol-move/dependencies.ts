@@ -0,0 +1,278 @@
+import { Node, SyntaxKind, type Identifier, type SourceFile, type Statement } from 'ts-morph';
+import * as path from 'path';
+import type { ErrorCode } from '../../types';
+
+// Where an import of the source file points: a project file, whose specifier is
+// recomputed for each importer, or a package or asset kept as written
+export type ImportTarget = {
+  sourceFile?: SourceFile;
+  absolutePath?: string;
+  specifier: string;
+};
+
+export type ImportedBinding = {
+  target: ImportTarget;
+  // The exported name, 'default' or '*' for namespace imports
+  importedName: string;
+  localName: string;
+  isTypeOnly: boolean;
+};
+
+export type MovePlan = {
+  // Statements to move, in source order: the requested declarations and the
+  // local helpers only they use
+  statements: Statement[];
+  // Top-level names declared by the requested declarations
+  movedNames: string[];
+  // Local helpers moved along with them
+  helperNames: string[];
+  // Declarations staying in the source file that moved code uses
+  retainedNames: string[];
+  // Retained declarations that must be exported for the destination to import them
+  unexportedStatements: Statement[];
+  // Imports moved code uses, with whether code staying behind still needs them
+  bindings: Array<ImportedBinding & { node: Node; usedBySource: boolean }>;
+  // Moved names code staying in the source file still refers to
+  sourceUses: string[];
+};
+
+// Works out what moving some top-level declarations out of a file takes.
+// Non-exported helpers follow when nothing else in the file uses them;
+// everything else the moved code refers to is imported at the destination.
+export const planMove = (
+  sourceFile: SourceFile,
+  names: string[]
+): MovePlan | { error: string; errorCode: ErrorCode } => {
+  const statements = sourceFile.getStatements();
+  const dependencies = new Map(statements.map(statement => [statement, collectDependencies(sourceFile, statement)]));
+  const exportedNames = getLocallyExportedNames(sourceFile);
+
+  const targets = new Set<Statement>();
+  for (const name of names) {
+    const declaring = statements.filter(statement => getDeclaredNames(statement).includes(name));
+    if (declaring.length === 0) {
+      return { error: `No top-level declaration named "${name}" in ${sourceFile.getFilePath()}`, errorCode: 'SYMBOL_NOT_FOUND' };
+    }
+
+    for (const statement of declaring) {
+      const others = getDeclaredNames(statement).filter(declared => !names.includes(declared));
+      if (others.length > 0) {
+        return {
+          error: `"${name}" is declared together with ${others.join(', ')}; move them together`,
+          errorCode: 'INVALID_ARGUMENTS',
+        };
+      }
+      if (Node.isExportable(statement) && statement.isDefaultExport()) {
+        return { error: `"${name}" is the default export of ${sourceFile.getFilePath()}`, errorCode: 'INVALID_ARGUMENTS' };
+      }
+      targets.add(statement);
+    }
+  }
+
+  const isUsedBy = (statement: Statement, user: Statement) =>
+    [...dependencies.get(user)!].some(dependency => getTopLevelStatement(sourceFile, dependency) === statement);
+
+  // Helpers join the move once every statement using them moves, which can
+  // pull in further helpers
+  const moving = new Set(targets);
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const statement of statements) {
+      const declared = getDeclaredNames(statement);
+      if (moving.has(statement) || declared.length === 0 || declared.some(name => exportedNames.has(name))) {
+        continue;
+      }
+      const users = statements.filter(other => other !== statement && isUsedBy(statement, other));
+      if (users.length > 0 && users.every(user => moving.has(user))) {
+        moving.add(statement);
+        changed = true;
+      }
+    }
+  }
+
+  const staying = statements.filter(statement => !moving.has(statement));
+  const retainedNames = new Set<string>();
+  const unexportedStatements = new Set<Statement>();
+  const bindings = new Map<Node, MovePlan['bindings'][number]>();
+
+  for (const statement of moving) {
+    for (const dependency of dependencies.get(statement)!) {
+      const binding = toImportedBinding(sourceFile, dependency);
+      if (binding) {
+        const usedBySource = staying.some(other => dependencies.get(other)!.has(dependency));
+        bindings.set(dependency, { ...binding, node: dependency, usedBySource });
+        continue;
+      }
+
+      const declaringStatement = getTopLevelStatement(sourceFile, dependency);
+      const name = getDeclarationName(dependency);
+      if (!declaringStatement || moving.has(declaringStatement) || !name) {
+        continue;
+      }
+      retainedNames.add(name);
+      if (!exportedNames.has(name)) {
+        unexportedStatements.add(declaringStatement);
+      }
+    }
+  }
+
+  const movedNames = [...targets].flatMap(getDeclaredNames);
+  const sourceUses = movedNames.filter(name =>
+    staying.some(
+      statement =>
+        !Node.isExportDeclaration(statement) &&
+        [...dependencies.get(statement)!].some(dependency => {
+          const declaringStatement = getTopLevelStatement(sourceFile, dependency);
+          return declaringStatement !== undefined && targets.has(declaringStatement) && getDeclarationName(dependency) === name;
+        })
+    )
+  );
+
+  return {
+    statements: statements.filter(statement => moving.has(statement)),
+    movedNames: [...new Set(movedNames)],
+    helperNames: [...new Set([...moving].filter(statement => !targets.has(statement)).flatMap(getDeclaredNames))],
+    retainedNames: [...retainedNames],
+    unexportedStatements: [...unexportedStatements],
+    bindings: [...bindings.values()],
+    sourceUses: [...new Set(sourceUses)],
+  };
+};
+
+// Names only interfaces and type aliases declare, which need `import type`
+// under verbatimModuleSyntax and isolatedModules
+export const isTypeOnlyName = (sourceFile: SourceFile, name: string): boolean => {
+  const declaring = sourceFile.getStatements().filter(statement => getDeclaredNames(statement).includes(name));
+  return (
+    declaring.length > 0 &&
+    declaring.every(statement => Node.isInterfaceDeclaration(statement) || Node.isTypeAliasDeclaration(statement))
+  );
+};
+
+export const getDeclaredNames = (statement: Node): string[] => {
+  if (Node.isVariableStatement(statement)) {
+    return statement.getDeclarations().flatMap(declaration => {
+      const nameNode = declaration.getNameNode();
+      return Node.isIdentifier(nameNode)
+        ? [nameNode.getText()]
+        : nameNode
+            .getDescendantsOfKind(SyntaxKind.BindingElement)
+            .map(element => element.getNameNode())
+            .filter(Node.isIdentifier)
+            .map(identifier => identifier.getText());
+    });
+  }
+  if (
+    Node.isFunctionDeclaration(statement) ||
+    Node.isClassDeclaration(statement) ||
+    Node.isInterfaceDeclaration(statement) ||
+    Node.isTypeAliasDeclaration(statement) ||
+    Node.isEnumDeclaration(statement) ||
+    Node.isModuleDeclaration(statement)
+  ) {
+    const name = statement.getName();
+    return name ? [name] : [];
+  }
+  return [];
+};
+
+// Import bindings (specifiers, default and namespace imports) and top-level
+// declarations of the file that a statement refers to
+const collectDependencies = (sourceFile: SourceFile, statement: Statement): Set<Node> => {
+  const dependencies = new Set<Node>();
+  // The names an import declares are not uses of them
+  if (Node.isImportDeclaration(statement)) {
+    return dependencies;
+  }
+
+  for (const identifier of statement.getDescendantsOfKind(SyntaxKind.Identifier)) {
+    for (const declaration of getReferencedSymbol(identifier)?.getDeclarations() ?? []) {
+      if (declaration.getSourceFile() !== sourceFile) {
+        continue;
+      }
+      if (Node.isImportSpecifier(declaration) || Node.isImportClause(declaration) || Node.isNamespaceImport(declaration)) {
+        dependencies.add(declaration);
+      } else if (getTopLevelStatement(sourceFile, declaration) !== statement && isTopLevelDeclaration(sourceFile, declaration)) {
+        dependencies.add(declaration);
+      }
+    }
+  }
+
+  return dependencies;
+};
+
+// Shorthand properties (`{ helper }`) resolve to the property, not the value
+const getReferencedSymbol = (identifier: Identifier) => {
+  const parent = identifier.getParent();
+  if (Node.isShorthandPropertyAssignment(parent) && parent.getNameNode() === identifier) {
+    return parent.getValueSymbol();
+  }
+  return identifier.getSymbol();
+};
+
+const isTopLevelDeclaration = (sourceFile: SourceFile, declaration: Node): boolean => {
+  const statement = getTopLevelStatement(sourceFile, declaration);
+  if (!statement) {
+    return false;
+  }
+  if (statement === declaration) {
+    return true;
+  }
+  // Variables, including names bound by destructuring, but not locals of functions
+  return (
+    Node.isVariableStatement(statement) &&
+    (Node.isVariableDeclaration(declaration) || Node.isBindingElement(declaration)) &&
+    !declaration.getAncestors().some(ancestor => Node.isFunctionLikeDeclaration(ancestor))
+  );
+};
+
+const getTopLevelStatement = (sourceFile: SourceFile, node: Node): Statement | undefined => {
+  return [node, ...node.getAncestors()].find(ancestor => ancestor.getParent() === sourceFile) as Statement | undefined;
+};
+
+const getDeclarationName = (declaration: Node): string | undefined => {
+  const nameNode = (declaration as Node & { getNameNode?: () => Node | undefined }).getNameNode?.();
+  return nameNode && Node.isIdentifier(nameNode) ? nameNode.getText() : undefined;
+};
+
+// Names the file exports under their own name, with the export keyword or an
+// `export { name }` list
+const getLocallyExportedNames = (sourceFile: SourceFile): Set<string> => {
+  const exportedNames = new Set<string>();
+  for (const [exportName, declarations] of sourceFile.getExportedDeclarations()) {
+    if (declarations.some(declaration => declaration.getSourceFile() === sourceFile && getDeclarationName(declaration) === exportName)) {
+      exportedNames.add(exportName);
+    }
+  }
+  return exportedNames;
+};
+
+const toImportedBinding = (sourceFile: SourceFile, node: Node): ImportedBinding | undefined => {
+  const importDeclaration = node.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+  if (!importDeclaration) {
+    return undefined;
+  }
+
+  const specifier = importDeclaration.getModuleSpecifierValue();
+  const target: ImportTarget = {
+    sourceFile: importDeclaration.getModuleSpecifierSourceFile(),
+    absolutePath: specifier.startsWith('.') ? path.resolve(path.dirname(sourceFile.getFilePath()), specifier) : undefined,
+    specifier,
+  };
+
+  if (Node.isImportSpecifier(node)) {
+    return {
+      target,
+      importedName: node.getName(),
+      localName: node.getAliasNode()?.getText() ?? node.getName(),
+      isTypeOnly: importDeclaration.isTypeOnly() || node.isTypeOnly(),
+    };
+  }
+  if (Node.isImportClause(node)) {
+    return { target, importedName: 'default', localName: node.getDefaultImport()!.getText(), isTypeOnly: node.isTypeOnly() };
+  }
+  if (Node.isNamespaceImport(node)) {
+    return { target, importedName: '*', localName: node.getName(), isTypeOnly: importDeclaration.isTypeOnly() };
+  }
+  return undefined;
+};
@@ -0,0 +1,150 @@
+import { Node, QuoteKind, SyntaxKind, type SourceFile } from 'ts-morph';
+import * as path from 'path';
+import { getRelativeModuleSpecifier } from '../../utils/import-extensions';
+import { isTypeOnlyName, type ImportedBinding, type ImportTarget } from './dependencies';
+
+export const getModuleSpecifier = (file: SourceFile, target: ImportTarget): string => {
+  if (target.sourceFile) {
+    return getRelativeModuleSpecifier(file, target.sourceFile);
+  }
+  if (target.absolutePath) {
+    const relativePath = path.relative(path.dirname(file.getFilePath()), target.absolutePath).replace(/\\/g, '/');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+  }
+  return target.specifier;
+};
+
+// Adds an import unless the file already has it, merging named and default
+// imports into an existing declaration of the same module
+export const addImport = (file: SourceFile, binding: ImportedBinding): void => {
+  const { target, importedName, localName, isTypeOnly } = binding;
+  if (target.sourceFile === file) {
+    return;
+  }
+
+  const moduleSpecifier = getModuleSpecifier(file, target);
+  const declarations = file
+    .getImportDeclarations()
+    .filter(
+      declaration =>
+        declaration.getModuleSpecifierValue() === moduleSpecifier ||
+        (target.sourceFile !== undefined && declaration.getModuleSpecifierSourceFile() === target.sourceFile)
+    );
+
+  if (importedName === '*') {
+    if (!declarations.some(declaration => declaration.getNamespaceImport()?.getText() === localName)) {
+      withFileQuotes(file, () => file.addImportDeclaration({ moduleSpecifier, namespaceImport: localName, isTypeOnly }));
+    }
+    return;
+  }
+
+  if (importedName === 'default') {
+    if (declarations.some(declaration => declaration.getDefaultImport()?.getText() === localName)) {
+      return;
+    }
+    const existing = declarations.find(
+      declaration => !declaration.getDefaultImport() && !declaration.getNamespaceImport() && declaration.isTypeOnly() === isTypeOnly
+    );
+    if (existing) {
+      existing.setDefaultImport(localName);
+    } else {
+      withFileQuotes(file, () => file.addImportDeclaration({ moduleSpecifier, defaultImport: localName, isTypeOnly }));
+    }
+    return;
+  }
+
+  const isImported = declarations.some(declaration =>
+    declaration
+      .getNamedImports()
+      .some(specifier => specifier.getName() === importedName && (specifier.getAliasNode()?.getText() ?? importedName) === localName)
+  );
+  if (isImported) {
+    return;
+  }
+
+  const alias = localName === importedName ? undefined : localName;
+  // Type-only specifiers can join a value import; values cannot join `import type`
+  const existing = declarations.find(
+    declaration => !declaration.getNamespaceImport() && (!declaration.isTypeOnly() || isTypeOnly)
+  );
+  if (existing) {
+    existing.addNamedImport({ name: importedName, alias, isTypeOnly: isTypeOnly && !existing.isTypeOnly() });
+  } else {
+    withFileQuotes(file, () =>
+      file.addImportDeclaration({ moduleSpecifier, namedImports: [{ name: importedName, alias }], isTypeOnly })
+    );
+  }
+};
+
+// Re-exports names from a project file, next to an existing re-export of it if
+// any. Interfaces and type aliases are re-exported with `type`, as
+// isolatedModules requires.
+export const addReExport = (file: SourceFile, target: SourceFile, specifiers: Array<{ name: string; alias?: string }>): void => {
+  const typedSpecifiers = specifiers.map(specifier => ({ ...specifier, isTypeOnly: isTypeOnlyName(target, specifier.name) }));
+  const isTypeOnly = typedSpecifiers.every(specifier => specifier.isTypeOnly);
+  const existing = file
+    .getExportDeclarations()
+    .find(
+      declaration =>
+        declaration.hasNamedExports() &&
+        (!declaration.isTypeOnly() || isTypeOnly) &&
+        (declaration.getModuleSpecifierSourceFile() === target ||
+          declaration.getModuleSpecifierValue() === getRelativeModuleSpecifier(file, target))
+    );
+
+  if (existing) {
+    const exported = new Set(
+      existing.getNamedExports().map(specifier => `${specifier.getName()} as ${specifier.getAliasNode()?.getText() ?? ''}`)
+    );
+    existing.addNamedExports(
+      typedSpecifiers
+        .filter(specifier => !exported.has(`${specifier.name} as ${specifier.alias ?? ''}`))
+        .map(specifier => ({ ...specifier, isTypeOnly: specifier.isTypeOnly && !existing.isTypeOnly() }))
+    );
+  } else {
+    withFileQuotes(file, () =>
+      file.addExportDeclaration({
+        moduleSpecifier: getRelativeModuleSpecifier(file, target),
+        namedExports: isTypeOnly ? specifiers : typedSpecifiers,
+        isTypeOnly,
+      })
+    );
+  }
+};
+
+// Whether a local of the file is an import of `importedName` from the target,
+// which moving that declaration in makes redundant rather than conflicting
+export const isImportOf = (node: Node, target: ImportTarget, importedName: string): boolean => {
+  const declaration = node.getFirstAncestor(Node.isImportDeclaration) ?? (Node.isImportDeclaration(node) ? node : undefined);
+  if (!declaration) {
+    return false;
+  }
+  const isSameModule = target.sourceFile
+    ? declaration.getModuleSpecifierSourceFile() === target.sourceFile
+    : declaration.getModuleSpecifierValue() === getModuleSpecifier(node.getSourceFile(), target);
+  if (!isSameModule) {
+    return false;
+  }
+
+  if (Node.isImportSpecifier(node)) {
+    return node.getName() === importedName;
+  }
+  if (Node.isImportClause(node)) {
+    return importedName === 'default';
+  }
+  return Node.isNamespaceImport(node) && importedName === '*';
+};
+
+// ts-morph writes double quotes unless told otherwise; new declarations follow
+// the quotes the file already uses
+const withFileQuotes = <T>(file: SourceFile, add: () => T): T => {
+  const settings = file.getProject().manipulationSettings;
+  const previous = settings.getQuoteKind();
+  const literal = file.getFirstDescendantByKind(SyntaxKind.StringLiteral);
+  settings.set({ quoteKind: literal?.getQuoteKind() ?? QuoteKind.Single });
+  try {
+    return add();
+  } finally {
+    settings.set({ quoteKind: previous });
+  }
+};
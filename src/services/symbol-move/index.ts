@@ -0,0 +1,404 @@
+import { Node, SyntaxKind, type Project, type SourceFile, type Statement } from 'ts-morph';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ErrorCode, SymbolMoveOptions, SymbolMoveResult } from '../../types';
+import { collectProjectChanges, collectProjectFileChanges } from '../../utils/change-preview';
+import { describeError } from '../../utils/errors';
+import { applyOperation } from '../../utils/operation-journal';
+import { resolveProjectLocation, withProject } from '../../utils/project-registry';
+import { getDeclaredNames, isTypeOnlyName, planMove, type ImportedBinding, type MovePlan } from './dependencies';
+import { addImport, addReExport, isImportOf } from './imports';
+
+export const moveSymbol = async (options: SymbolMoveOptions): Promise<SymbolMoveResult> => {
+  const { symbolName, preview = false, projectRoot } = options;
+  const filePath = path.resolve(options.filePath);
+  const destination = path.resolve(options.destination);
+
+  try {
+    const location = resolveProjectLocation(filePath, projectRoot);
+
+    return await withProject(location, async (project) => {
+      const moved = moveSymbolsInProject(project, filePath, [symbolName], destination);
+      if (!moved.success) {
+        return moved;
+      }
+
+      if (preview) {
+        return { ...moved, preview: collectProjectChanges(project) };
+      }
+
+      await applyOperation({
+        tool: 'move_symbol',
+        description: `Move ${symbolName} from ${filePath} to ${destination}`,
+        changes: collectProjectFileChanges(project),
+      });
+
+      return moved;
+    });
+  } catch (error) {
+    return {
+      success: false,
+      ...describeError(error),
+    };
+  }
+};
+
+// Moves top-level declarations, with the helpers only they use, to another
+// file of the project in memory and points every import of them at it.
+// Nothing is written.
+export const moveSymbolsInProject = (
+  project: Project,
+  filePath: string,
+  names: string[],
+  destination: string
+): SymbolMoveResult => {
+  const sourceFile = project.getSourceFile(filePath);
+  if (!sourceFile) {
+    return { success: false, error: `Source file not found: ${filePath}`, errorCode: 'FILE_NOT_FOUND' };
+  }
+  if (path.resolve(destination) === sourceFile.getFilePath()) {
+    return { success: false, error: 'The destination is the source file itself', errorCode: 'INVALID_ARGUMENTS' };
+  }
+
+  const existingDestination = project.getSourceFile(destination);
+  if (!existingDestination && fs.existsSync(destination)) {
+    return {
+      success: false,
+      error: `Destination exists but is not a source file of the project: ${destination}`,
+      errorCode: 'DESTINATION_EXISTS',
+    };
+  }
+
+  const plan = planMove(sourceFile, names);
+  if ('error' in plan) {
+    return { success: false, error: plan.error, errorCode: plan.errorCode };
+  }
+
+  const typeOnlyNames = new Set(
+    [...plan.movedNames, ...plan.retainedNames].filter(name => isTypeOnlyName(sourceFile, name))
+  );
+  const sourceTarget = { sourceFile, specifier: '' };
+  const introducedBindings: ImportedBinding[] = [
+    ...plan.bindings,
+    ...plan.retainedNames.map(name => ({
+      target: sourceTarget,
+      importedName: name,
+      localName: name,
+      isTypeOnly: typeOnlyNames.has(name),
+    })),
+  ];
+  if (existingDestination) {
+    const collision = findCollision(existingDestination, plan, introducedBindings);
+    if (collision) {
+      return { success: false, ...collision };
+    }
+  }
+
+  const destinationFile = existingDestination ?? project.createSourceFile(destination, '');
+  const updatedFiles = new Set([sourceFile.getFilePath(), destinationFile.getFilePath()]);
+
+  // Moved declarations stay private unless something outside the destination uses them
+  const publicNames = new Set([...sourceFile.getExportedDeclarations().keys(), ...plan.sourceUses]);
+
+  rewriteImporters(project, sourceFile, destinationFile, plan.movedNames, typeOnlyNames, updatedFiles);
+  removeLocalExports(sourceFile, plan.movedNames);
+  for (const statement of plan.statements) {
+    const isPublicTarget = getDeclaredNames(statement).some(name => plan.movedNames.includes(name) && publicNames.has(name));
+    if (isPublicTarget && Node.isExportable(statement) && !statement.hasExportKeyword()) {
+      statement.setIsExported(true);
+    }
+  }
+  const movedText = plan.statements.map(getStatementText).join('\n\n');
+  const exportedSymbols = plan.unexportedStatements.flatMap(getDeclaredNames);
+
+  for (const binding of plan.bindings) {
+    if (!binding.usedBySource) {
+      removeImportBinding(binding.node);
+    }
+  }
+  for (const statement of plan.unexportedStatements) {
+    if (Node.isExportable(statement)) {
+      statement.setIsExported(true);
+    }
+  }
+  removeStatements(sourceFile, plan.statements);
+  for (const name of plan.sourceUses) {
+    addImport(sourceFile, {
+      target: { sourceFile: destinationFile, specifier: '' },
+      importedName: name,
+      localName: name,
+      isTypeOnly: typeOnlyNames.has(name),
+    });
+  }
+
+  // Code goes in first so that new imports follow the quotes of the moved code
+  const existingText = destinationFile.getFullText().trimEnd();
+  destinationFile.replaceWithText(`${existingText}${existingText ? '\n\n' : ''}${movedText}\n`);
+  introducedBindings.forEach(binding => addImport(destinationFile, binding));
+
+  return {
+    success: true,
+    movedSymbols: [...plan.movedNames, ...plan.helperNames],
+    exportedSymbols,
+    createdFile: !existingDestination,
+    updatedFiles: [...updatedFiles],
+  };
+};
+
+// A statement with its comments, but not the header comment of the file
+const getStatementText = (statement: Statement): string => {
+  return isFirstStatement(statement) ? statement.getText(true) : statement.getFullText().trimStart();
+};
+
+// Removes statements with the comments and blank lines before them, so the
+// spacing between the remaining statements is kept
+const removeStatements = (sourceFile: SourceFile, statements: Statement[]): void => {
+  const removesFirst = statements.some(isFirstStatement);
+  const ranges = statements.map((statement): [number, number] =>
+    isFirstStatement(statement) ? [statement.getStart(true), statement.getEnd()] : [statement.getPos(), statement.getEnd()]
+  );
+
+  let text = sourceFile.getFullText();
+  for (const [start, end] of [...ranges].reverse()) {
+    text = text.slice(0, start) + text.slice(end);
+  }
+  if (removesFirst) {
+    const [start] = ranges[0]!;
+    text = text.slice(0, start) + text.slice(start).replace(/^\s*/, '');
+  }
+  sourceFile.replaceWithText(text);
+};
+
+const isFirstStatement = (statement: Statement): boolean => {
+  return statement.getSourceFile().getStatements()[0] === statement;
+};
+
+const findCollision = (
+  destinationFile: SourceFile,
+  plan: MovePlan,
+  bindings: ImportedBinding[]
+): { error: string; errorCode: ErrorCode } | undefined => {
+  const sourceTarget = { sourceFile: plan.statements[0]!.getSourceFile(), specifier: '' };
+  const introduced = [
+    ...[...plan.movedNames, ...plan.helperNames].map(name => ({ name, target: sourceTarget, importedName: name })),
+    ...bindings.map(binding => ({ name: binding.localName, target: binding.target, importedName: binding.importedName })),
+  ];
+
+  for (const { name, target, importedName } of introduced) {
+    // Imports of the destination's own declarations are dropped, not added
+    if (target.sourceFile === destinationFile) {
+      continue;
+    }
+    const existing = destinationFile.getLocal(name)?.getDeclarations()[0];
+    if (existing && !isImportOf(existing, target, importedName)) {
+      return {
+        error: `${destinationFile.getFilePath()} already declares "${name}"`,
+        errorCode: 'NAME_COLLISION',
+      };
+    }
+  }
+  return undefined;
+};
+
+// Points imports and re-exports of the moved names at the destination,
+// including `export *` barrels and `namespace.name` accesses
+const rewriteImporters = (
+  project: Project,
+  sourceFile: SourceFile,
+  destinationFile: SourceFile,
+  names: string[],
+  typeOnlyNames: Set<string>,
+  updatedFiles: Set<string>
+): void => {
+  const destinationTarget = { sourceFile: destinationFile, specifier: '' };
+  const exportedNames = new Set(sourceFile.getExportedDeclarations().keys());
+
+  for (const file of project.getSourceFiles()) {
+    if (file === sourceFile) {
+      continue;
+    }
+    let changed = false;
+
+    for (const declaration of file.getImportDeclarations()) {
+      if (declaration.getModuleSpecifierSourceFile() !== sourceFile) {
+        continue;
+      }
+
+      const namespaceImport = declaration.getNamespaceImport();
+      if (namespaceImport) {
+        const namespace = namespaceImport.getText();
+        for (const [name, localName] of replaceNamespaceAccesses(file, namespace, names, [sourceFile, destinationFile])) {
+          addImport(file, {
+            target: destinationTarget,
+            importedName: name,
+            localName,
+            isTypeOnly: declaration.isTypeOnly() || typeOnlyNames.has(name),
+          });
+          changed = true;
+        }
+        const isStillUsed = file
+          .getDescendantsOfKind(SyntaxKind.Identifier)
+          .some(identifier => identifier.getText() === namespace && identifier !== namespaceImport);
+        if (changed && !isStillUsed) {
+          removeImportBinding(namespaceImport.getParentOrThrow());
+        }
+        continue;
+      }
+
+      const moved = declaration.getNamedImports().filter(specifier => names.includes(specifier.getName()));
+      if (moved.length === 0) {
+        continue;
+      }
+      const bindings = moved.map(specifier => ({
+        target: destinationTarget,
+        importedName: specifier.getName(),
+        localName: specifier.getAliasNode()?.getText() ?? specifier.getName(),
+        isTypeOnly: declaration.isTypeOnly() || specifier.isTypeOnly(),
+      }));
+      moved.forEach(removeImportBinding);
+      bindings.forEach(binding => addImport(file, binding));
+      changed = true;
+    }
+
+    for (const declaration of file.getExportDeclarations()) {
+      if (declaration.getModuleSpecifierSourceFile() !== sourceFile || file === destinationFile) {
+        continue;
+      }
+
+      if (!declaration.hasNamedExports() && !declaration.getNamespaceExport()) {
+        const reExportsDestination = file
+          .getExportDeclarations()
+          .some(other => other.getModuleSpecifierSourceFile() === destinationFile && !other.hasNamedExports());
+        const exported = names.filter(name => exportedNames.has(name));
+        if (!reExportsDestination && exported.length > 0) {
+          addReExport(file, destinationFile, exported.map(name => ({ name })));
+          changed = true;
+        }
+        continue;
+      }
+
+      const moved = declaration.getNamedExports().filter(specifier => names.includes(specifier.getName()));
+      if (moved.length === 0) {
+        continue;
+      }
+      const specifiers = moved.map(specifier => ({ name: specifier.getName(), alias: specifier.getAliasNode()?.getText() }));
+      moved.forEach(specifier => specifier.remove());
+      if (!declaration.wasForgotten() && declaration.getNamedExports().length === 0 && !declaration.getNamespaceExport()) {
+        declaration.remove();
+      }
+      addReExport(file, destinationFile, specifiers);
+      changed = true;
+    }
+
+    if (changed) {
+      updatedFiles.add(file.getFilePath());
+    }
+  }
+};
+
+// `utils.format(x)` -> `format(x)` for moved names. A name the file already
+// declares is imported under an alias (`utilsFormat`) instead; returns the
+// local name of every name replaced.
+const replaceNamespaceAccesses = (
+  file: SourceFile,
+  namespace: string,
+  names: string[],
+  modules: SourceFile[]
+): Map<string, string> => {
+  const localNames = new Map<string, string>();
+  // Names the file already imports by value from either module keep their binding
+  const importedNames = new Map<string, string>();
+  for (const declaration of file.getImportDeclarations()) {
+    const importedFile = declaration.getModuleSpecifierSourceFile();
+    if (declaration.isTypeOnly() || !importedFile || !modules.includes(importedFile)) {
+      continue;
+    }
+    for (const specifier of declaration.getNamedImports()) {
+      if (!specifier.isTypeOnly()) {
+        importedNames.set(specifier.getName(), specifier.getAliasNode()?.getText() ?? specifier.getName());
+      }
+    }
+  }
+
+  const accesses = [
+    ...file.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).map(access => ({
+      node: access as Node,
+      left: access.getExpression(),
+      name: access.getName(),
+    })),
+    ...file.getDescendantsOfKind(SyntaxKind.QualifiedName).map(qualified => ({
+      node: qualified as Node,
+      left: qualified.getLeft(),
+      name: qualified.getRight().getText(),
+    })),
+  ].filter(access => Node.isIdentifier(access.left) && access.left.getText() === namespace && names.includes(access.name));
+
+  const takenNames = new Set(
+    file
+      .getDescendantsOfKind(SyntaxKind.Identifier)
+      .filter(identifier => identifier.getSymbol()?.getDeclarations().some(declaration => declaration.getSourceFile() === file))
+      .map(identifier => identifier.getText())
+  );
+  const getLocalName = (name: string): string => {
+    let localName = localNames.get(name) ?? importedNames.get(name);
+    if (!localName) {
+      localName = name;
+      const alias = namespace + name.charAt(0).toUpperCase() + name.slice(1);
+      for (let suffix = 1; takenNames.has(localName); suffix++) {
+        localName = suffix === 1 ? alias : `${alias}${suffix}`;
+      }
+      takenNames.add(localName);
+    }
+    localNames.set(name, localName);
+    return localName;
+  };
+  accesses.forEach(access => getLocalName(access.name));
+
+  // Replace from the end so earlier positions stay valid
+  for (const access of accesses.sort((left, right) => right.node.getStart() - left.node.getStart())) {
+    access.node.replaceWithText(localNames.get(access.name)!);
+  }
+
+  return localNames;
+};
+
+// `export { moved }` lists of the source file; importers are pointed at the destination instead
+const removeLocalExports = (sourceFile: SourceFile, names: string[]): void => {
+  for (const declaration of sourceFile.getExportDeclarations()) {
+    if (declaration.getModuleSpecifier()) {
+      continue;
+    }
+    declaration
+      .getNamedExports()
+      .filter(specifier => names.includes(specifier.getName()))
+      .forEach(specifier => specifier.remove());
+    if (!declaration.wasForgotten() && declaration.getNamedExports().length === 0) {
+      declaration.remove();
+    }
+  }
+};
+
+// Removes one binding of an import, and the declaration once it imports nothing
+const removeImportBinding = (node: Node): void => {
+  const declaration = node.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+  if (!declaration || node.wasForgotten()) {
+    return;
+  }
+
+  if (Node.isImportClause(node)) {
+    declaration.removeDefaultImport();
+  } else if (Node.isNamespaceImport(node)) {
+    declaration.removeNamespaceImport();
+  } else if (Node.isImportSpecifier(node)) {
+    node.remove();
+  }
+
+  if (
+    !declaration.wasForgotten() &&
+    !declaration.getDefaultImport() &&
+    !declaration.getNamespaceImport() &&
+    declaration.getNamedImports().length === 0
+  ) {
+    declaration.remove();
+  }
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Project } from 'ts-morph';
+import * as fs from 'fs';
+import { moveSymbol } from './index';
+import { getLastOperation } from '../../utils/operation-journal';
+import { useTestWorkspace } from '../../utils/test-workspace';
+
+describe('moveSymbol', () => {
+  const { file, read, write } = useTestWorkspace('symbol-move');
+
+  beforeEach(() => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+    write(
+      'utils.ts',
+      [
+        "import { join } from 'path';",
+        "import type { Config } from './config';",
+        '',
+        "const SEPARATOR = '/';",
+        '',
+        'const normalize = (value: string) => value.trim();',
+        '',
+        '/** Joins path segments */',
+        'export const joinPath = (config: Config, ...parts: string[]) => join(config.root, parts.map(normalize).join(SEPARATOR));',
+        '',
+        'export const splitPath = (value: string) => value.split(SEPARATOR);',
+        '',
+      ].join('\n')
+    );
+    write('config.ts', 'export type Config = { root: string };\n');
+    write('app.ts', "import { joinPath, splitPath } from './utils';\nexport const run = () => splitPath(joinPath({ root: '/' }, 'a'));\n");
+  });
+
+  it('should move a declaration with its helpers and imports to a new file', async () => {
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'joinPath', destination: file('lib/paths.ts') });
+
+    expect(result).toMatchObject({
+      success: true,
+      movedSymbols: ['joinPath', 'normalize'],
+      exportedSymbols: ['SEPARATOR'],
+      createdFile: true,
+    });
+
+    const moved = read('lib/paths.ts');
+    expect(moved).toContain("import { join } from 'path';");
+    expect(moved).toContain("import type { Config } from '../config';");
+    expect(moved).toContain("import { SEPARATOR } from '../utils';");
+    expect(moved).toContain('const normalize = (value: string) => value.trim();');
+    expect(moved).toContain('/** Joins path segments */\nexport const joinPath');
+
+    const remaining = read('utils.ts');
+    expect(remaining).not.toContain('joinPath');
+    expect(remaining).not.toContain('normalize');
+    expect(remaining).not.toContain("from 'path'");
+    expect(remaining).toContain("export const SEPARATOR = '/';");
+
+    expect(read('app.ts')).toBe(
+      "import { splitPath } from './utils';\nimport { joinPath } from './lib/paths';\n\nexport const run = () => splitPath(joinPath({ root: '/' }, 'a'));\n"
+    );
+    expect(getLastOperation()?.tool).toBe('move_symbol');
+  });
+
+  it('should rewrite re-exports, barrels and namespace imports and keep uses in the source file', async () => {
+    write('paths.ts', 'export const home = "~";\n');
+    write('index.ts', "export * from './utils';\nexport { splitPath as split } from './utils';\n");
+    write('cli.ts', "import * as utils from './utils';\nexport const parts = utils.splitPath('a/b');\n");
+    fs.appendFileSync(file('utils.ts'), "export const root = () => splitPath('/');\n");
+
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'splitPath', destination: file('paths.ts') });
+
+    expect(result).toMatchObject({ success: true, createdFile: false });
+    expect(read('paths.ts')).toContain('export const splitPath = (value: string) => value.split(SEPARATOR);');
+    expect(read('utils.ts')).toContain("import { splitPath } from './paths';");
+    expect(read('index.ts')).toBe(
+      "export * from './utils';\nexport { splitPath, splitPath as split } from './paths';\n"
+    );
+    expect(read('cli.ts')).toBe(
+      "import { splitPath } from './paths';\n\nexport const parts = splitPath('a/b');\n"
+    );
+  });
+
+  it('should alias a namespace access whose name the importer already declares', async () => {
+    write('cli.ts', "import * as u from './utils';\nconst splitPath = 5;\nexport const parts = [u.splitPath('a/b'), splitPath];\n");
+
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'splitPath', destination: file('paths.ts') });
+
+    expect(result.success).toBe(true);
+    expect(read('cli.ts')).toBe(
+      "import { splitPath as uSplitPath } from './paths';\n\nconst splitPath = 5;\nexport const parts = [uSplitPath('a/b'), splitPath];\n"
+    );
+  });
+
+  it('should reuse an existing import of a moved name for namespace accesses', async () => {
+    write(
+      'cli.ts',
+      "import * as u from './utils';\nimport { splitPath as split } from './utils';\nexport const parts = [u.splitPath('a/b'), split('c'), u.joinPath];\n"
+    );
+
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'splitPath', destination: file('paths.ts') });
+
+    expect(result.success).toBe(true);
+    const cli = read('cli.ts');
+    expect(cli).toContain("import { splitPath as split } from './paths';");
+    expect(cli).toContain("export const parts = [split('a/b'), split('c'), u.joinPath];");
+    expect(cli.match(/splitPath/g)).toHaveLength(1);
+  });
+
+  it('should import moved and retained types with import type', async () => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true, module: 'esnext', verbatimModuleSyntax: true } }));
+    write(
+      'shapes.ts',
+      [
+        'export interface Point { x: number }',
+        '',
+        'export type Line = [Point, Point];',
+        '',
+        'export const origin: Point = { x: 0 };',
+        '',
+        'export const line: Line = [origin, origin];',
+        '',
+      ].join('\n')
+    );
+    write('app.ts', "import * as shapes from './shapes';\nexport const draw = (line: shapes.Line) => line;\n");
+
+    const result = await moveSymbol({ filePath: file('shapes.ts'), symbolName: 'Line', destination: file('line.ts') });
+
+    expect(result.success).toBe(true);
+    expect(read('line.ts')).toContain("import type { Point } from './shapes';");
+    expect(read('shapes.ts')).toContain("import type { Line } from './line';");
+    expect(read('app.ts')).toContain("import type { Line } from './line';");
+    const project = new Project({ tsConfigFilePath: file('tsconfig.json') });
+    const diagnostics = ['shapes.ts', 'line.ts', 'app.ts'].flatMap(name =>
+      project.getSourceFileOrThrow(file(name)).getPreEmitDiagnostics()
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.getMessageText())).toEqual([]);
+  });
+
+  it('should refuse to overwrite a name the destination already declares', async () => {
+    write('other.ts', 'export const joinPath = () => "";\n');
+
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'joinPath', destination: file('other.ts') });
+
+    expect(result.errorCode).toBe('NAME_COLLISION');
+    expect(read('utils.ts')).toContain('export const joinPath');
+  });
+
+  it('should report unknown symbols', async () => {
+    const result = await moveSymbol({ filePath: file('utils.ts'), symbolName: 'missing', destination: file('other.ts') });
+
+    expect(result.errorCode).toBe('SYMBOL_NOT_FOUND');
+    expect(fs.existsSync(file('other.ts'))).toBe(false);
+  });
+});
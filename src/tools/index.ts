@@ -0,0 +1,453 @@
+import { z } from 'zod';
+import type {
+  BatchRefactorOptions,
+  BatchRefactorResult,
+  CheckDeletableOptions,
+  CheckDeletableResult,
+  ConditionalOptimizationOptions,
+  ConditionalOptimizationResult,
+  DependencyAnalysisOptions,
+  DependencyAnalysisResult,
+  DependencyVisualizationOptions,
+  DependencyVisualizationResult,
+  FileMergeOptions,
+  FileMergeResult,
+  FileMoveOptions,
+  FileMoveResult,
+  FileRenameOptions,
+  FileRenameResult,
+  FileSplitOptions,
+  FileSplitResult,
+  FileSymbolRenameOptions,
+  FileSymbolRenameResult,
+  ImportOptimizationOptions,
+  ImportOptimizationResult,
+  ListOperationsOptions,
+  ListOperationsResult,
+  MultiFileMoveOptions,
+  MultiFileMoveResult,
+  PackageValidationOptions,
+  PackageValidationResult,
+  ReloadProjectOptions,
+  ReloadProjectResult,
+  RenameOptions,
+  RenameResult,
+  SymbolMoveOptions,
+  SymbolMoveResult,
+  UndoOperationOptions,
+  UndoOperationResult,
+} from '../types';
+import { moveTypeScriptFile } from '../services/file-move/index';
+import { renameSymbol } from '../services/rename/index';
+import { renameFileOrFolder } from '../services/file-rename/index';
+import { renameFileWithSymbol } from '../services/file-symbol-rename/index';
+import { analyzeDependencies } from '../services/dependency-analysis/index';
+import { validatePackage } from '../services/package-validation/index';
+import { optimizeImports } from '../services/import-optimization/index';
+import { optimizeConditionals } from '../services/conditional-optimization/index';
+import { visualizeDependencies } from '../services/dependency-visualization/index';
+import { checkDeletable } from '../services/check-deletable/index';
+import { batchRefactor } from '../services/batch-refactor/index';
+import { moveSymbol } from '../services/symbol-move/index';
+import { splitFile } from '../services/file-split/index';
+import { mergeFiles } from '../services/file-merge/index';
+import { moveFiles } from '../services/multi-file-move/index';
+import {
+  repairImportPaths,
+  type ImportPathRepairOptions,
+  type ImportPathRepairResult,
+} from '../services/import-path-repair/index';
+import {
+  organizeComments,
+  type CommentOrganizationOptions,
+  type CommentOrganizationResult,
+} from '../services/comment-organization/index';
+import { reloadProject } from '../services/project-reload/index';
+import { listOperations, undoLastOperation } from '../services/operation-history/index';
+import {
+  batchRefactorResultSchema,
+  checkDeletableResultSchema,
+  commentOrganizationResultSchema,
+  conditionalOptimizationResultSchema,
+  dependencyAnalysisResultSchema,
+  dependencyVisualizationResultSchema,
+  fileMergeResultSchema,
+  multiFileMoveResultSchema,
+  fileMoveResultSchema,
+  fileRenameResultSchema,
+  fileSplitResultSchema,
+  fileSymbolRenameResultSchema,
+  importOptimizationResultSchema,
+  importPathRepairResultSchema,
+  listOperationsResultSchema,
+  packageValidationResultSchema,
+  reloadProjectResultSchema,
+  renameResultSchema,
+  symbolMoveResultSchema,
+  undoOperationResultSchema,
+} from './output-schemas';
+import { createToolRegistry, defineTool } from './registry';
+import { isWithinWorkspace, resolveWorkspacePath } from '../utils/workspace-roots';
+
+const flag = (description: string, defaultValue: boolean) =>
+  z.boolean().default(defaultValue).describe(`${description} (default: ${defaultValue})`);
+
+// Relative paths resolve against the workspace, and paths outside the
+// workspace roots are rejected before the service runs
+const workspacePath = (description: string) =>
+  z
+    .string()
+    .transform(resolveWorkspacePath)
+    .superRefine((value, context) => {
+      if (!isWithinWorkspace(value)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Path is outside the workspace roots: ${value}`,
+          params: { errorCode: 'PATH_OUTSIDE_ROOTS' },
+        });
+      }
+    })
+    .describe(description);
+
+const projectRootOption = () =>
+  workspacePath('Project directory or tsconfig.json to use instead of the nearest tsconfig.json above the file').optional();
+
+const symbolKind = () =>
+  z.enum([
+    'variable',
+    'function',
+    'type',
+    'interface',
+    'class',
+    'enum',
+    'enumMember',
+    'namespace',
+    'method',
+    'property',
+    'parameter',
+    'typeParameter',
+  ]);
+
+const previewFlag = () => flag('Whether to only return a unified diff of the changes without writing to disk', false);
+
+export const tools = [
+  defineTool<FileMoveOptions, FileMoveResult>({
+    name: 'move_typescript_file',
+    description: 'Move a TypeScript file and update every reference to it: imports, re-exports, import(), require(), jest/vi mocks, import types, module augmentations and reference paths',
+    options: {
+      source: workspacePath('Source file path'),
+      destination: workspacePath('Destination file path'),
+      updateImports: flag('Whether to update import paths', true),
+      includeColocated: flag('Whether to also move the files next to the source that share its name, e.g. Button.module.css, Button.stories.tsx and Button.spec.ts for Button.tsx', false),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: fileMoveResultSchema,
+    handler: moveTypeScriptFile,
+  }),
+  defineTool<RenameOptions, RenameResult>({
+    name: 'rename_typescript_symbol',
+    description: 'Rename a variable, function, type, interface, class, enum, enum member, namespace, method, property, parameter or type parameter and update all references. Target the identifier by line and column (or offset), or by oldName and type',
+    options: {
+      filePath: workspacePath('Path to the file containing the symbol'),
+      oldName: z.string().optional().describe('Current name of the symbol; checked against the identifier when a position is given'),
+      newName: z.string().describe('New name for the symbol'),
+      type: symbolKind().optional().describe('Type of the symbol to rename when it is looked up by oldName'),
+      line: z.number().int().min(1).optional().describe('1-based line of the identifier to rename'),
+      column: z.number().int().min(1).optional().describe('1-based column of the identifier to rename (default: 1)'),
+      offset: z.number().int().min(0).optional().describe('0-based character offset of the identifier, instead of line and column'),
+      force: flag('Whether to rename even when the new name is invalid or collides with an existing name', false),
+      preserveAliases: flag(
+        'Whether re-exports keep their public name through an alias (export { newName as oldName }) so that their importers are left unchanged',
+        true
+      ),
+      renameInJsDoc: flag('Whether to update references in JSDoc tags such as @see, @param and {@link}', true),
+      renameInComments: flag('Whether to also replace the name as text in comments', false),
+      renameInStrings: flag('Whether to also replace the name as text in string literals', false),
+      crossProject: flag(
+        'Whether to also update consumers in the other packages of the monorepo (package.json workspaces, pnpm-workspace.yaml) and in tsconfig project references, following package imports to their source',
+        false
+      ),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: renameResultSchema,
+    handler: renameSymbol,
+  }),
+  defineTool<DependencyAnalysisOptions, DependencyAnalysisResult>({
+    name: 'analyze_typescript_dependencies',
+    description: 'Analyze dependencies of a TypeScript file (upstream: files that import this file, downstream: files this file imports)',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to analyze'),
+      direction: z.enum(['upstream', 'downstream', 'both']).describe('Direction of dependency analysis'),
+      includeTypes: flag('Whether to include type-only imports', true),
+      projectRoot: projectRootOption(),
+    },
+    output: dependencyAnalysisResultSchema,
+    handler: analyzeDependencies,
+  }),
+  defineTool<PackageValidationOptions, PackageValidationResult>({
+    name: 'validate_package_json',
+    description: 'Validate package.json file for type resolution, file existence, exports, and typesVersions configuration',
+    options: {
+      packageJsonPath: workspacePath('Path to the package.json file to validate'),
+      checkTypes: flag('Whether to check TypeScript type resolution', true),
+      checkExports: flag('Whether to validate exports field', true),
+      checkTypesVersions: flag('Whether to validate typesVersions field', true),
+    },
+    output: packageValidationResultSchema,
+    handler: validatePackage,
+  }),
+  defineTool<ImportOptimizationOptions, ImportOptimizationResult>({
+    name: 'optimize_imports',
+    description: 'Optimize TypeScript import statements by removing unused imports, consolidating duplicates, separating types, and optimizing paths',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to optimize'),
+      removeUnused: flag('Whether to remove unused imports', true),
+      optimizeIndexPaths: flag('Whether to remove /index suffixes from import paths', true),
+      consolidateImports: flag('Whether to consolidate multiple imports from the same module', true),
+      separateTypeImports: flag('Whether to separate type and value imports using import type', true),
+      preview: previewFlag(),
+    },
+    output: importOptimizationResultSchema,
+    handler: optimizeImports,
+  }),
+  defineTool<ConditionalOptimizationOptions, ConditionalOptimizationResult>({
+    name: 'optimize_conditionals',
+    description: 'Optimize conditional statements by converting if-else chains to switch statements, flattening nested conditions, and simplifying boolean expressions',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to optimize'),
+      convertToSwitch: flag('Whether to convert if-else chains to switch statements', true),
+      flattenNestedConditions: flag('Whether to flatten nested if statements', true),
+      optimizeBoolean: flag('Whether to optimize boolean expressions', true),
+      preview: previewFlag(),
+    },
+    output: conditionalOptimizationResultSchema,
+    handler: optimizeConditionals,
+  }),
+  defineTool<DependencyVisualizationOptions, DependencyVisualizationResult>({
+    name: 'visualize_dependencies',
+    description: 'Generate dependency graph visualization with circular dependency detection and module boundary analysis',
+    options: {
+      rootPath: workspacePath('Root path of the project to analyze'),
+      format: z
+        .enum(['mermaid', 'json', 'dot'])
+        .default('mermaid')
+        .describe('Output format for the dependency graph (default: mermaid)'),
+      includeNodeModules: flag('Whether to include node_modules in analysis', false),
+      maxDepth: z.number().int().min(0).default(10).describe('Maximum directory depth to analyze (default: 10)'),
+      detectCircular: flag('Whether to detect circular dependencies', true),
+    },
+    output: dependencyVisualizationResultSchema,
+    handler: visualizeDependencies,
+  }),
+  defineTool<FileRenameOptions, FileRenameResult>({
+    name: 'rename_file_or_folder',
+    description: 'Rename a file or folder and update every reference to it: imports, re-exports, import(), require(), jest/vi mocks, import types, module augmentations and reference paths',
+    options: {
+      sourcePath: workspacePath('Path to the file or folder to rename'),
+      destinationPath: workspacePath('New path for the file or folder'),
+      updateImports: flag('Whether to update import/export paths in all files', true),
+      includeColocated: flag('When renaming a file, whether to also rename the files next to it that share its name, e.g. Button.module.css and Button.spec.ts for Button.tsx', false),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: fileRenameResultSchema,
+    handler: renameFileOrFolder,
+  }),
+  defineTool<FileSymbolRenameOptions, FileSymbolRenameResult>({
+    name: 'rename_file_and_symbol',
+    description: 'Rename the primary export of a file and the file itself in one step, naming the file after the new symbol and updating every import of both',
+    options: {
+      filePath: workspacePath('Path to the file to rename'),
+      newName: z.string().describe('New name for the exported symbol'),
+      oldName: z
+        .string()
+        .optional()
+        .describe('Exported symbol to rename (default: the export named after the file, the default export or the only export)'),
+      fileNameCase: z
+        .enum(['kebab', 'camel', 'pascal'])
+        .optional()
+        .describe('Casing of the new file name: user-service.ts, userService.ts or UserService.ts (default: the casing of the current file name)'),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: fileSymbolRenameResultSchema,
+    handler: renameFileWithSymbol,
+  }),
+  defineTool<SymbolMoveOptions, SymbolMoveResult>({
+    name: 'move_symbol',
+    description: 'Move an exported declaration, with the local helpers only it uses, to a new or existing file; adds the imports it needs there and points every importer at the new location',
+    options: {
+      filePath: workspacePath('Path to the file declaring the symbol'),
+      symbolName: z.string().describe('Name of the top-level declaration to move'),
+      destination: workspacePath('File to move the declaration to; created when it does not exist'),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: symbolMoveResultSchema,
+    handler: moveSymbol,
+  }),
+  defineTool<FileSplitOptions, FileSplitResult>({
+    name: 'split_file',
+    description: 'Split a file into several modules: each symbol moves, with the local helpers only it uses, to the file it is mapped to, and every importer is pointed at the new files',
+    options: {
+      filePath: workspacePath('Path to the file to split'),
+      mapping: z
+        .record(z.string(), workspacePath('File to move the symbol to; created when it does not exist'))
+        .describe('Top-level symbol names mapped to the files to move them to; symbols mapped to the same file move together'),
+      reExport: flag('Whether to re-export the moved public symbols from the original file for backward compatibility', false),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: fileSplitResultSchema,
+    handler: splitFile,
+  }),
+  defineTool<FileMergeOptions, FileMergeResult>({
+    name: 'merge_files',
+    description: 'Merge several files into one: moves their declarations into the destination, merges duplicate imports, deletes the merged files and points every importer at the destination',
+    options: {
+      sources: z.array(workspacePath('File to merge')).min(1).describe('Files to merge, in the order their declarations are appended'),
+      destination: workspacePath('File to merge into; created when it does not exist'),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: fileMergeResultSchema,
+    handler: mergeFiles,
+  }),
+  defineTool<MultiFileMoveOptions, MultiFileMoveResult>({
+    name: 'move_files',
+    description: 'Move several files in one pass, chosen by a glob with a destination template or by a source to destination mapping; every reference is rewritten once against the final layout',
+    options: {
+      pattern: workspacePath('Glob of the files to move, e.g. src/features/*/api.ts').optional(),
+      destination: workspacePath(
+        'Destination template for each match, e.g. src/api/{dir}.ts: {dir} is the name of its folder, {path} its folder below the static part of the pattern, {name} its name without extension, {ext} its extension'
+      ).optional(),
+      mapping: z
+        .record(workspacePath('File to move'), workspacePath('Destination file path'))
+        .optional()
+        .describe('Source files mapped to their destinations, instead of pattern and destination'),
+      updateImports: flag('Whether to update references to the moved files', true),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: multiFileMoveResultSchema,
+    handler: moveFiles,
+  }),
+  defineTool<CheckDeletableOptions, CheckDeletableResult>({
+    name: 'check_deletable',
+    description: 'Check if a TypeScript file can be safely deleted by analyzing all references to it including wildcard imports. Optionally generates test files and mock structures.',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to check for deletion safety'),
+      includeTypes: flag('Whether to include type-only imports in reference analysis', true),
+      generateTests: flag('Whether to generate a [name].spec.ts test file in the same folder', false),
+      createMocks: flag('Whether to create __mocks__ folder structure with mock files', false),
+      overwrite: flag('Whether generated test and mock files may replace existing files', false),
+      projectRoot: projectRootOption(),
+    },
+    output: checkDeletableResultSchema,
+    handler: checkDeletable,
+  }),
+  defineTool<ImportPathRepairOptions, ImportPathRepairResult>({
+    name: 'repair_import_paths',
+    description: 'Automatically detect and repair broken import paths in TypeScript files by finding the correct file location and updating import statements',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to repair import paths in'),
+      dryRun: flag('Whether to perform a dry run without making actual changes', false),
+      includeTypes: flag('Whether to repair type-only imports', true),
+      respectTsConfig: flag('Whether to respect tsconfig.json include/exclude settings', true),
+      prioritizeCloserPaths: flag('Whether to prioritize files that are closer in the directory structure', true),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: importPathRepairResultSchema,
+    handler: repairImportPaths,
+  }),
+  defineTool<CommentOrganizationOptions & { filePath: string }, CommentOrganizationResult>({
+    name: 'organize_comments',
+    description: 'Organize and deduplicate comments in TypeScript files by moving file-level comments to the top and removing duplicates',
+    options: {
+      filePath: workspacePath('Path to the TypeScript file to organize comments in'),
+      deduplicateComments: flag('Whether to remove duplicate comments', true),
+      moveToTop: flag('Whether to move file-level comments to the top', true),
+      preserveInlineComments: flag('Whether to preserve inline comments', true),
+      removeEmptyComments: flag('Whether to remove empty comments', true),
+      preview: previewFlag(),
+    },
+    output: commentOrganizationResultSchema,
+    handler: ({ filePath, ...options }) => organizeComments(filePath, options),
+  }),
+  defineTool<BatchRefactorOptions, BatchRefactorResult>({
+    name: 'batch_refactor',
+    description: 'Apply an ordered list of moves, renames and import optimizations as one unit: each operation sees the result of the previous ones, and every file is written at once or none are',
+    options: {
+      operations: z
+        .array(
+          z.discriminatedUnion('operation', [
+            z.object({
+              operation: z.literal('move'),
+              source: workspacePath('Source file path'),
+              destination: workspacePath('Destination file path'),
+              updateImports: z.boolean().optional().describe('Whether to update import paths (default: true)'),
+            }),
+            z.object({
+              operation: z.literal('rename_file'),
+              sourcePath: workspacePath('Path to the file or folder to rename'),
+              destinationPath: workspacePath('New path for the file or folder'),
+              updateImports: z.boolean().optional().describe('Whether to update import paths (default: true)'),
+            }),
+            z.object({
+              operation: z.literal('rename_symbol'),
+              filePath: workspacePath('Path to the file containing the symbol'),
+              oldName: z.string().describe('Current name of the symbol'),
+              newName: z.string().describe('New name for the symbol'),
+              type: symbolKind().describe('Type of the symbol to rename'),
+            }),
+            z.object({
+              operation: z.literal('optimize_imports'),
+              filePath: workspacePath('Path to the TypeScript file to optimize'),
+              removeUnused: z.boolean().optional().describe('Whether to remove unused imports (default: true)'),
+              optimizeIndexPaths: z.boolean().optional().describe('Whether to remove /index suffixes (default: true)'),
+              consolidateImports: z.boolean().optional().describe('Whether to consolidate duplicate imports (default: true)'),
+              separateTypeImports: z.boolean().optional().describe('Whether to use import type for types (default: true)'),
+            }),
+          ])
+        )
+        .describe('Operations to run in order; paths refer to the state after the previous operations'),
+      typeCheck: flag('Whether to reject the batch when it introduces compile errors', true),
+      preview: previewFlag(),
+      projectRoot: projectRootOption(),
+    },
+    output: batchRefactorResultSchema,
+    handler: batchRefactor,
+  }),
+  defineTool<ReloadProjectOptions, ReloadProjectResult>({
+    name: 'reload_project',
+    description: 'Discard cached TypeScript projects and re-parse them from disk (e.g. after switching branches)',
+    options: {
+      path: workspacePath('A tsconfig.json or any path inside the project to reload (default: clear every cached project)').optional(),
+    },
+    output: reloadProjectResultSchema,
+    handler: reloadProject,
+  }),
+  defineTool<UndoOperationOptions, UndoOperationResult>({
+    name: 'undo_last_operation',
+    description: 'Restore every file touched by the most recent refactoring, including moved and deleted files',
+    options: {
+      force: flag('Whether to undo even if the files were edited after the operation', false),
+    },
+    output: undoOperationResultSchema,
+    handler: undoLastOperation,
+  }),
+  defineTool<ListOperationsOptions, ListOperationsResult>({
+    name: 'list_operations',
+    description: 'List the refactorings that can be undone, most recent first',
+    options: {
+      limit: z.number().int().min(1).optional().describe('Maximum number of operations to return'),
+    },
+    output: listOperationsResultSchema,
+    handler: listOperations,
+  }),
+];
+
+export const { listTools, callTool } = createToolRegistry(tools);
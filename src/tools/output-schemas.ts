@@ -0,0 +1,415 @@
+import { z } from 'zod';
+import type {
+  BatchRefactorResult,
+  ChangePreview,
+  CheckDeletableResult,
+  ConditionalOptimizationResult,
+  DeletableAnalysisResult,
+  DependencyAnalysisResult,
+  DependencyVisualizationResult,
+  FileMergeResult,
+  FileMoveResult,
+  FileRenameResult,
+  FileSplitResult,
+  FileSymbolRenameResult,
+  ImportOptimizationResult,
+  ListOperationsResult,
+  MultiFileMoveResult,
+  OperationRecord,
+  PackageValidationResult,
+  ReloadProjectResult,
+  RenameResult,
+  SymbolMoveResult,
+  UndoOperationResult,
+} from '../types';
+import type { ImportPathRepairResult } from '../services/import-path-repair/index';
+import type { CommentOrganizationResult } from '../services/comment-organization/index';
+import { ERROR_CODES } from '../utils/errors';
+import { MODULE_REFERENCE_KINDS } from '../utils/module-references';
+import { defineObjectSchema } from './registry';
+
+export const errorCodeSchema = z.enum(ERROR_CODES);
+
+const errorFields = {
+  error: z.string().optional(),
+  errorCode: errorCodeSchema.optional(),
+};
+
+const moduleReferenceKindSchema = z.enum(MODULE_REFERENCE_KINDS);
+
+// Rewritten references, one entry each, and how many there were of each kind
+const affectedImportFields = {
+  affectedImports: z
+    .array(z.object({ file: z.string(), kind: moduleReferenceKindSchema, oldImport: z.string(), newImport: z.string() }))
+    .optional(),
+  referenceKinds: z.record(moduleReferenceKindSchema, z.number()).optional(),
+};
+
+const changePreviewSchema = defineObjectSchema<ChangePreview>({
+  diffs: z.array(z.object({ filePath: z.string(), diff: z.string() })),
+  createdFiles: z.array(z.string()),
+  deletedFiles: z.array(z.string()),
+  movedFiles: z.array(z.object({ from: z.string(), to: z.string() })),
+});
+
+const operationRecordSchema = defineObjectSchema<OperationRecord>({
+  id: z.string(),
+  tool: z.string(),
+  description: z.string(),
+  timestamp: z.string(),
+  files: z.array(
+    z.object({
+      filePath: z.string(),
+      action: z.enum(['created', 'modified', 'deleted']),
+    })
+  ),
+});
+
+const deletableAnalysisSchema = defineObjectSchema<DeletableAnalysisResult>({
+  filePath: z.string(),
+  isDeletable: z.boolean(),
+  references: z.array(
+    z.object({
+      file: z.string(),
+      line: z.number(),
+      column: z.number(),
+      type: z.enum(['import', 'export', 'dynamic_import']),
+      text: z.string(),
+      importedNames: z.array(z.string()),
+      isTypeOnly: z.boolean(),
+    })
+  ),
+  exports: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum(['function', 'class', 'variable', 'type', 'interface', 'default']),
+      isTypeOnly: z.boolean(),
+    })
+  ),
+  summary: z.string().optional(),
+  ...errorFields,
+});
+
+export const fileMoveResultSchema = defineObjectSchema<FileMoveResult>({
+  success: z.boolean(),
+  movedFiles: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  ...affectedImportFields,
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const renameResultSchema = defineObjectSchema<RenameResult>({
+  success: z.boolean(),
+  updatedFiles: z.array(z.string()).optional(),
+  conflicts: z
+    .array(
+      z.object({
+        filePath: z.string(),
+        line: z.number(),
+        column: z.number(),
+        kind: z.enum(['invalid_identifier', 'reserved_word', 'scope_collision', 'member_collision', 'export_collision']),
+        message: z.string(),
+      })
+    )
+    .optional(),
+  nonCodeOccurrences: z
+    .array(
+      z.object({
+        filePath: z.string(),
+        line: z.number(),
+        column: z.number(),
+        kind: z.enum(['jsdoc', 'comment', 'string']),
+        text: z.string(),
+      })
+    )
+    .optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const dependencyAnalysisResultSchema = defineObjectSchema<DependencyAnalysisResult>({
+  target: z.string(),
+  dependencies: z.array(
+    z.object({
+      filePath: z.string(),
+      imports: z.array(z.string()),
+      exports: z.array(z.string()),
+      references: z.array(
+        z.object({
+          file: z.string(),
+          line: z.number(),
+          column: z.number(),
+          text: z.string(),
+        })
+      ),
+    })
+  ),
+  ...errorFields,
+});
+
+export const packageValidationResultSchema = defineObjectSchema<PackageValidationResult>({
+  packagePath: z.string(),
+  isValid: z.boolean(),
+  issues: z.array(z.string()),
+  warnings: z.array(z.string()),
+  fileResolution: z.array(
+    z.object({
+      field: z.string(),
+      value: z.string(),
+      resolvedPath: z.string().optional(),
+      exists: z.boolean(),
+      isDirectory: z.boolean().optional(),
+      error: z.string().optional(),
+    })
+  ),
+  exportsValidation: z
+    .array(
+      z.object({
+        path: z.string(),
+        condition: z.string().optional(),
+        resolvedFile: z.string().optional(),
+        exists: z.boolean(),
+        error: z.string().optional(),
+      })
+    )
+    .optional(),
+  typesVersionsValidation: z
+    .array(
+      z.object({
+        version: z.string(),
+        paths: z.array(
+          z.object({
+            pattern: z.string(),
+            mappings: z.array(z.string()),
+            resolved: z.array(z.object({ file: z.string(), exists: z.boolean() })),
+          })
+        ),
+      })
+    )
+    .optional(),
+  ...errorFields,
+});
+
+export const importOptimizationResultSchema = defineObjectSchema<ImportOptimizationResult>({
+  filePath: z.string(),
+  optimized: z.boolean(),
+  changes: z.array(
+    z.object({
+      type: z.enum(['removed', 'consolidated', 'separated', 'optimized_path']),
+      originalImport: z.string(),
+      newImport: z.string().optional(),
+      reason: z.string(),
+    })
+  ),
+  optimizedCode: z.string().optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const conditionalOptimizationResultSchema = defineObjectSchema<ConditionalOptimizationResult>({
+  filePath: z.string(),
+  optimized: z.boolean(),
+  optimizations: z.array(
+    z.object({
+      type: z.enum(['if_to_switch', 'flatten_nested', 'boolean_optimization']),
+      originalCode: z.string(),
+      optimizedCode: z.string(),
+      reason: z.string(),
+      lineNumber: z.number(),
+    })
+  ),
+  optimizedCode: z.string().optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const dependencyVisualizationResultSchema = defineObjectSchema<DependencyVisualizationResult>({
+  format: z.string(),
+  content: z.string(),
+  nodes: z.array(
+    z.object({
+      id: z.string(),
+      filePath: z.string(),
+      type: z.enum(['file', 'directory', 'external']),
+      imports: z.array(z.string()),
+      exports: z.array(z.string()),
+      size: z.number().optional(),
+    })
+  ),
+  circularDependencies: z
+    .array(
+      z.object({
+        cycle: z.array(z.string()),
+        severity: z.enum(['warning', 'error']),
+        suggestion: z.string().optional(),
+      })
+    )
+    .optional(),
+  statistics: z.object({
+    totalFiles: z.number(),
+    totalImports: z.number(),
+    maxDepth: z.number(),
+    circularCount: z.number(),
+  }),
+  ...errorFields,
+});
+
+export const fileRenameResultSchema = defineObjectSchema<FileRenameResult>({
+  success: z.boolean(),
+  updatedFiles: z.array(z.string()).optional(),
+  ...affectedImportFields,
+  colocatedFiles: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  isDirectory: z.boolean().optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const fileSymbolRenameResultSchema = defineObjectSchema<FileSymbolRenameResult>({
+  success: z.boolean(),
+  oldName: z.string().optional(),
+  newName: z.string().optional(),
+  sourcePath: z.string().optional(),
+  destinationPath: z.string().optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const symbolMoveResultSchema = defineObjectSchema<SymbolMoveResult>({
+  success: z.boolean(),
+  movedSymbols: z.array(z.string()).optional(),
+  exportedSymbols: z.array(z.string()).optional(),
+  createdFile: z.boolean().optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const fileSplitResultSchema = defineObjectSchema<FileSplitResult>({
+  success: z.boolean(),
+  modules: z
+    .array(
+      z.object({
+        destination: z.string(),
+        movedSymbols: z.array(z.string()),
+        createdFile: z.boolean(),
+      })
+    )
+    .optional(),
+  exportedSymbols: z.array(z.string()).optional(),
+  reExportedSymbols: z.array(z.string()).optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const fileMergeResultSchema = defineObjectSchema<FileMergeResult>({
+  success: z.boolean(),
+  mergedSymbols: z.array(z.string()).optional(),
+  createdFile: z.boolean().optional(),
+  deletedFiles: z.array(z.string()).optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const multiFileMoveResultSchema = defineObjectSchema<MultiFileMoveResult>({
+  success: z.boolean(),
+  movedFiles: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  updatedFiles: z.array(z.string()).optional(),
+  ...affectedImportFields,
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const batchRefactorResultSchema = defineObjectSchema<BatchRefactorResult>({
+  success: z.boolean(),
+  operations: z.array(
+    z.object({
+      operation: z.enum(['move', 'rename_file', 'rename_symbol', 'optimize_imports']),
+      success: z.boolean(),
+      updatedFiles: z.array(z.string()).optional(),
+      ...errorFields,
+    })
+  ),
+  updatedFiles: z.array(z.string()).optional(),
+  movedFiles: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  diagnostics: z
+    .array(
+      z.object({
+        filePath: z.string().optional(),
+        line: z.number().optional(),
+        code: z.number(),
+        message: z.string(),
+      })
+    )
+    .optional(),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const checkDeletableResultSchema = defineObjectSchema<CheckDeletableResult>({
+  analysis: deletableAnalysisSchema,
+  testFileGenerated: z.string().optional(),
+  mockFilesGenerated: z.array(z.string()).optional(),
+  ...errorFields,
+});
+
+export const importPathRepairResultSchema = defineObjectSchema<ImportPathRepairResult>({
+  filePath: z.string(),
+  repairedImports: z.array(
+    z.object({
+      originalPath: z.string(),
+      repairedPath: z.string().nullable(),
+      importType: z.enum(['named', 'default', 'namespace', 'side-effect']),
+      namedImports: z.array(z.string()).optional(),
+      status: z.enum(['repaired', 'not_found', 'multiple_matches', 'already_valid']),
+      candidateFiles: z.array(z.string()).optional(),
+      selectedFile: z.string().optional(),
+      reason: z.string().optional(),
+    })
+  ),
+  errors: z.array(z.string()),
+  totalImportsChecked: z.number(),
+  totalImportsRepaired: z.number(),
+  preview: changePreviewSchema.optional(),
+  errorCode: errorCodeSchema.optional(),
+});
+
+export const commentOrganizationResultSchema = defineObjectSchema<CommentOrganizationResult>({
+  success: z.boolean(),
+  message: z.string(),
+  changes: z.object({
+    removed: z.array(z.string()),
+    moved: z.array(z.string()),
+    deduplicated: z.array(z.string()),
+  }),
+  preview: changePreviewSchema.optional(),
+  ...errorFields,
+});
+
+export const reloadProjectResultSchema = defineObjectSchema<ReloadProjectResult>({
+  success: z.boolean(),
+  reloaded: z.array(
+    z.object({
+      tsConfigPath: z.string().optional(),
+      rootDir: z.string(),
+      fileCount: z.number(),
+    })
+  ),
+  clearedCount: z.number(),
+  ...errorFields,
+});
+
+export const undoOperationResultSchema = defineObjectSchema<UndoOperationResult>({
+  success: z.boolean(),
+  operation: operationRecordSchema.optional(),
+  restoredFiles: z.array(z.string()),
+  conflicts: z.array(z.string()).optional(),
+  ...errorFields,
+});
+
+export const listOperationsResultSchema = defineObjectSchema<ListOperationsResult>({
+  operations: z.array(operationRecordSchema),
+});
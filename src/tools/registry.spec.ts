@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { callTool, listTools, tools } from './index';
+import { validateToolArguments } from './registry';
+
+const getTool = (name: string) => tools.find(tool => tool.name === name)!;
+
+describe('tool registry', () => {
+  it('should derive input schemas from the tool definitions', () => {
+    const moveTool = listTools().find(tool => tool.name === 'move_typescript_file')!;
+
+    expect(moveTool.inputSchema.type).toBe('object');
+    expect(moveTool.inputSchema.required).toEqual(['source', 'destination']);
+    expect(moveTool.inputSchema.properties).toMatchObject({
+      source: { type: 'string', description: 'Source file path' },
+      updateImports: { type: 'boolean', default: true },
+      preview: { type: 'boolean', default: false },
+    });
+    expect(moveTool.inputSchema.$schema).toBeUndefined();
+  });
+
+  it('should list every tool once', () => {
+    const names = listTools().map(tool => tool.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toContain('organize_comments');
+    expect(names).toContain('undo_last_operation');
+  });
+
+  it('should apply defaults to valid arguments', () => {
+    const validation = validateToolArguments(getTool('visualize_dependencies'), { rootPath: 'src' });
+
+    expect(validation).toEqual({
+      success: true,
+      options: {
+        rootPath: path.resolve('src'),
+        format: 'mermaid',
+        includeNodeModules: false,
+        maxDepth: 10,
+        detectCircular: true,
+      },
+    });
+  });
+
+  it('should report every invalid field', () => {
+    const validation = validateToolArguments(getTool('rename_typescript_symbol'), {
+      filePath: 42,
+      oldName: 'a',
+      type: 'module',
+      extra: true,
+    });
+
+    expect(validation.success).toBe(false);
+    if (!validation.success) {
+      expect(validation.issues.map(issue => issue.path).sort()).toEqual(['extra', 'filePath', 'newName', 'type']);
+      expect(validation.issues.find(issue => issue.path === 'extra')?.message).toBe('Unknown argument');
+    }
+  });
+
+  it('should return validation errors instead of calling the service', async () => {
+    const result = await callTool('move_typescript_file', { source: 'a.ts' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toEqual({
+      error: 'Invalid arguments for move_typescript_file',
+      errorCode: 'INVALID_ARGUMENTS',
+      issues: [{ path: 'destination', message: 'Required' }],
+    });
+  });
+
+  it('should report unknown tools with an error code', async () => {
+    const result = await callTool('does_not_exist', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.errorCode).toBe('UNKNOWN_TOOL');
+  });
+
+  describe('organize_comments', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-registry-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should pass the file path separately from the options', async () => {
+      const filePath = path.join(testDir, 'commented.ts');
+      fs.writeFileSync(filePath, '/** @file Shared values */\nexport const a = 1;\n/** @file Shared values */\n');
+
+      const result = await callTool('organize_comments', { filePath, preview: true });
+      const output = result.structuredContent as { success: boolean; preview?: { diffs: unknown[] } };
+
+      expect(result.isError).toBe(false);
+      expect(output.success).toBe(true);
+      expect(output.preview?.diffs).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ErrorCode, OperationContext } from '../types';
+import { ERROR_CODES, describeError } from '../utils/errors';
+
+// One zod schema per property. Every key of the type must be declared, and
+// each schema must produce a value the type accepts.
+export type SchemaShape<T> = {
+  [K in keyof Required<T>]-?: z.ZodType<T[K], z.ZodTypeDef, unknown>;
+};
+
+export type ToolDefinition<TOptions, TResult> = {
+  name: string;
+  description: string;
+  options: SchemaShape<TOptions>;
+  output: z.ZodType<TResult, z.ZodTypeDef, unknown>;
+  handler: (options: TOptions, context: OperationContext) => TResult | Promise<TResult>;
+};
+
+export type JsonObjectSchema = {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+};
+
+export type RegisteredTool = {
+  name: string;
+  description: string;
+  inputSchema: JsonObjectSchema;
+  outputSchema: JsonObjectSchema;
+  schema: z.ZodTypeAny;
+  handler: (options: unknown, context: OperationContext) => unknown;
+};
+
+export type ArgumentIssue = {
+  path: string;
+  message: string;
+};
+
+export type ArgumentValidation =
+  | { success: true; options: unknown }
+  | { success: false; issues: ArgumentIssue[]; errorCode: ErrorCode };
+
+// Returned instead of the tool result when the call never reached the service
+export type ToolCallFailure = {
+  error: string;
+  errorCode: ErrorCode;
+  issues?: ArgumentIssue[];
+};
+
+const toolCallFailureSchema = z.object({
+  error: z.string(),
+  errorCode: z.enum(ERROR_CODES),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export const defineObjectSchema = <T>(shape: SchemaShape<T>): z.ZodType<T, z.ZodTypeDef, unknown> => {
+  return z.object(shape as z.ZodRawShape) as unknown as z.ZodType<T, z.ZodTypeDef, unknown>;
+};
+
+export const defineTool = <TOptions, TResult>(definition: ToolDefinition<TOptions, TResult>): RegisteredTool => {
+  const schema = z.object(definition.options as z.ZodRawShape).strict();
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: toJsonSchema(schema),
+    // Results follow the tool's own schema, or the failure shape when the
+    // arguments were rejected
+    outputSchema: {
+      type: 'object',
+      anyOf: [toJsonSchema(definition.output), toJsonSchema(toolCallFailureSchema)],
+    },
+    schema,
+    handler: definition.handler as RegisteredTool['handler'],
+  };
+};
+
+// Applies defaults and reports every invalid field at once
+export const validateToolArguments = (tool: RegisteredTool, args: unknown): ArgumentValidation => {
+  const parsed = tool.schema.safeParse(args ?? {});
+  if (parsed.success) {
+    return { success: true, options: parsed.data };
+  }
+
+  // Refinements may report a more specific code than INVALID_ARGUMENTS
+  const codedIssue = parsed.error.issues.find(
+    issue => issue.code === 'custom' && ERROR_CODES.includes(issue.params?.errorCode)
+  );
+
+  return {
+    success: false,
+    errorCode: codedIssue?.code === 'custom' ? codedIssue.params!.errorCode : 'INVALID_ARGUMENTS',
+    issues: parsed.error.issues.flatMap(issue =>
+      issue.code === 'unrecognized_keys'
+        ? issue.keys.map(key => ({ path: key, message: 'Unknown argument' }))
+        : [{ path: issue.path.join('.') || '(root)', message: issue.message }]
+    ),
+  };
+};
+
+export const createToolRegistry = (tools: RegisteredTool[]) => {
+  const toolsByName = new Map(tools.map(tool => [tool.name, tool]));
+
+  const listTools = () =>
+    tools.map(({ name, description, inputSchema, outputSchema }) => ({ name, description, inputSchema, outputSchema }));
+
+  // Never throws: every failure is reported as a result with `isError` and an `errorCode`
+  const callTool = async (name: string, args: unknown, context: OperationContext = {}): Promise<CallToolResult> => {
+    const tool = toolsByName.get(name);
+    if (!tool) {
+      return toCallToolResult({ error: `Unknown tool: ${name}`, errorCode: 'UNKNOWN_TOOL' });
+    }
+
+    const validation = validateToolArguments(tool, args);
+    if (!validation.success) {
+      return toCallToolResult({
+        error: `Invalid arguments for ${name}`,
+        errorCode: validation.errorCode,
+        issues: validation.issues,
+      });
+    }
+
+    try {
+      return toCallToolResult(await tool.handler(validation.options, context));
+    } catch (error) {
+      return toCallToolResult(describeError(error));
+    }
+  };
+
+  return { listTools, callTool };
+};
+
+const toJsonSchema = (schema: z.ZodTypeAny): JsonObjectSchema => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as JsonObjectSchema;
+  return jsonSchema;
+};
+
+// A result carries an `errorCode` exactly when the tool failed
+const toCallToolResult = (result: unknown): CallToolResult => {
+  const structuredContent = JSON.parse(JSON.stringify(result ?? {})) as Record<string, unknown>;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(structuredContent, null, 2),
+      },
+    ],
+    structuredContent,
+    isError: structuredContent.errorCode !== undefined,
+  };
+};
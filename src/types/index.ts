@@ -1,26 +1,259 @@
+export type ErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'UNKNOWN_TOOL'
+  | 'PATH_OUTSIDE_ROOTS'
+  | 'FILE_NOT_FOUND'
+  | 'DESTINATION_EXISTS'
+  | 'SYMBOL_NOT_FOUND'
+  | 'NOT_RENAMEABLE'
+  | 'RENAME_CONFLICT'
+  | 'NAME_COLLISION'
+  | 'TSCONFIG_NOT_FOUND'
+  | 'PARSE_ERROR'
+  | 'NOTHING_TO_UNDO'
+  | 'UNDO_CONFLICT'
+  | 'CANCELLED'
+  | 'COMPILE_ERRORS'
+  | 'INTERNAL_ERROR';
+
+export type ProgressUpdate = {
+  progress: number;
+  total?: number;
+  message?: string;
+};
+
+// Passed to long-running services by the tool registry
+export type OperationContext = {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => void;
+};
+
+export type FileDiff = {
+  filePath: string;
+  diff: string;
+};
+
+export type ChangePreview = {
+  diffs: FileDiff[];
+  createdFiles: string[];
+  deletedFiles: string[];
+  movedFiles: Array<{
+    from: string;
+    to: string;
+  }>;
+};
+
 export type FileMoveOptions = {
   source: string;
   destination: string;
   updateImports?: boolean;
+  // Also move the files next to the source that share its name (styles,
+  // stories, tests), renamed the same way
+  includeColocated?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+// Every construct that names another module or file: declarations, `import()`
+// calls and types, CommonJS `require`, test mocks, `declare module` augmentations
+// and `/// <reference path>` directives
+export type ModuleReferenceKind =
+  | 'import'
+  | 'export'
+  | 'importEquals'
+  | 'dynamicImport'
+  | 'importType'
+  | 'require'
+  | 'requireResolve'
+  | 'mock'
+  | 'moduleAugmentation'
+  | 'referencePath';
+
+export type AffectedImport = {
+  file: string;
+  kind: ModuleReferenceKind;
+  oldImport: string;
+  newImport: string;
 };
 
 export type FileMoveResult = {
   success: boolean;
+  // The source and, with includeColocated, the files moved along with it
+  movedFiles?: Array<{
+    from: string;
+    to: string;
+  }>;
   updatedFiles?: string[];
+  affectedImports?: AffectedImport[];
+  // Number of rewritten references per kind
+  referenceKinds?: Partial<Record<ModuleReferenceKind, number>>;
+  preview?: ChangePreview;
   error?: string;
+  errorCode?: ErrorCode;
 };
 
+export type SymbolKind =
+  | 'variable'
+  | 'function'
+  | 'type'
+  | 'interface'
+  | 'class'
+  | 'enum'
+  | 'enumMember'
+  | 'namespace'
+  | 'method'
+  | 'property'
+  | 'parameter'
+  | 'typeParameter';
+
 export type RenameOptions = {
   filePath: string;
-  oldName: string;
+  oldName?: string;
   newName: string;
-  type: 'variable' | 'function' | 'type' | 'interface' | 'class';
+  type?: SymbolKind;
+  // 1-based position of the identifier to rename, as shown by editors
+  line?: number;
+  column?: number;
+  // 0-based character offset, an alternative to line and column
+  offset?: number;
+  // Apply the rename even when conflicts are found
+  force?: boolean;
+  // Keep the public name of re-exports through an alias (default: true)
+  preserveAliases?: boolean;
+  // Update references in JSDoc tags and `{@link}`s (default: true)
+  renameInJsDoc?: boolean;
+  // Replace the name as text in comments and string literals (default: false)
+  renameInComments?: boolean;
+  renameInStrings?: boolean;
+  // Also update the other packages of the monorepo and referenced projects
+  crossProject?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type RenameConflict = {
+  filePath: string;
+  line: number;
+  column: number;
+  kind: 'invalid_identifier' | 'reserved_word' | 'scope_collision' | 'member_collision' | 'export_collision';
+  message: string;
+};
+
+export type NonCodeOccurrence = {
+  filePath: string;
+  line: number;
+  column: number;
+  kind: 'jsdoc' | 'comment' | 'string';
+  // The source line before the rename
+  text: string;
 };
 
 export type RenameResult = {
   success: boolean;
   updatedFiles?: string[];
+  conflicts?: RenameConflict[];
+  nonCodeOccurrences?: NonCodeOccurrence[];
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type SymbolMoveOptions = {
+  filePath: string;
+  symbolName: string;
+  // File to move the declaration to; created when it does not exist
+  destination: string;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type SymbolMoveResult = {
+  success: boolean;
+  // The requested declaration and the local helpers moved with it
+  movedSymbols?: string[];
+  // Declarations left in the source file and exported for the destination to import
+  exportedSymbols?: string[];
+  createdFile?: boolean;
+  updatedFiles?: string[];
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type FileSplitOptions = {
+  filePath: string;
+  // Symbol name -> file to move it to; symbols sharing a file move together
+  mapping: Record<string, string>;
+  // Re-export the moved public symbols from the original file
+  reExport?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type FileSplitResult = {
+  success: boolean;
+  modules?: Array<{
+    destination: string;
+    // The requested declarations and the local helpers moved with them
+    movedSymbols: string[];
+    createdFile: boolean;
+  }>;
+  // Declarations left in the original file and exported for the new files to import
+  exportedSymbols?: string[];
+  reExportedSymbols?: string[];
+  updatedFiles?: string[];
+  preview?: ChangePreview;
   error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type FileMergeOptions = {
+  // Files whose declarations move into the destination; they are deleted afterwards
+  sources: string[];
+  // File to merge into; created when it does not exist
+  destination: string;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type FileMergeResult = {
+  success: boolean;
+  // Every top-level declaration of the merged files
+  mergedSymbols?: string[];
+  createdFile?: boolean;
+  deletedFiles?: string[];
+  updatedFiles?: string[];
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type MultiFileMoveOptions = {
+  // Glob of the files to move, e.g. `src/features/*/api.ts`; used with `destination`
+  pattern?: string;
+  // Where each match goes: `{dir}` is the name of its folder, `{path}` its folder
+  // below the static part of the pattern, `{name}` its name without extension
+  // and `{ext}` its extension without the dot
+  destination?: string;
+  // Source file -> destination, instead of pattern and destination
+  mapping?: Record<string, string>;
+  updateImports?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type MultiFileMoveResult = {
+  success: boolean;
+  movedFiles?: Array<{
+    from: string;
+    to: string;
+  }>;
+  updatedFiles?: string[];
+  affectedImports?: AffectedImport[];
+  referenceKinds?: Partial<Record<ModuleReferenceKind, number>>;
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type DependencyDirection = 'upstream' | 'downstream' | 'both';
@@ -29,6 +262,7 @@ export type DependencyAnalysisOptions = {
   filePath: string;
   direction: DependencyDirection;
   includeTypes?: boolean;
+  projectRoot?: string;
 };
 
 export type DependencyInfo = {
@@ -47,24 +281,58 @@ export type DependencyAnalysisResult = {
   target: string;
   dependencies: DependencyInfo[];
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type FileRenameOptions = {
   sourcePath: string;
   destinationPath: string;
   updateImports?: boolean;
+  // For files: also rename the files next to it that share its name
+  includeColocated?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
 };
 
 export type FileRenameResult = {
   success: boolean;
   error?: string;
+  errorCode?: ErrorCode;
   updatedFiles?: string[];
-  affectedImports?: Array<{
-    file: string;
-    oldImport: string;
-    newImport: string;
+  affectedImports?: AffectedImport[];
+  referenceKinds?: Partial<Record<ModuleReferenceKind, number>>;
+  // Files renamed along with the source by includeColocated
+  colocatedFiles?: Array<{
+    from: string;
+    to: string;
   }>;
   isDirectory?: boolean;
+  preview?: ChangePreview;
+};
+
+export type FileNameCase = 'kebab' | 'camel' | 'pascal';
+
+export type FileSymbolRenameOptions = {
+  filePath: string;
+  newName: string;
+  // Exported symbol to rename (default: the file's primary export)
+  oldName?: string;
+  // Casing of the new file name (default: the casing of the current one)
+  fileNameCase?: FileNameCase;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type FileSymbolRenameResult = {
+  success: boolean;
+  oldName?: string;
+  newName?: string;
+  sourcePath?: string;
+  destinationPath?: string;
+  updatedFiles?: string[];
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type PackageValidationOptions = {
@@ -112,6 +380,7 @@ export type PackageValidationResult = {
   exportsValidation?: ExportsValidationInfo[];
   typesVersionsValidation?: TypesVersionsValidationInfo[];
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type ImportOptimizationOptions = {
@@ -120,6 +389,7 @@ export type ImportOptimizationOptions = {
   optimizeIndexPaths?: boolean;
   consolidateImports?: boolean;
   separateTypeImports?: boolean;
+  preview?: boolean;
 };
 
 export type ImportOptimizationChange = {
@@ -134,7 +404,9 @@ export type ImportOptimizationResult = {
   optimized: boolean;
   changes: ImportOptimizationChange[];
   optimizedCode?: string;
+  preview?: ChangePreview;
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type ConditionalOptimizationOptions = {
@@ -142,6 +414,7 @@ export type ConditionalOptimizationOptions = {
   convertToSwitch?: boolean;
   flattenNestedConditions?: boolean;
   optimizeBoolean?: boolean;
+  preview?: boolean;
 };
 
 export type ConditionalOptimization = {
@@ -157,7 +430,9 @@ export type ConditionalOptimizationResult = {
   optimized: boolean;
   optimizations: ConditionalOptimization[];
   optimizedCode?: string;
+  preview?: ChangePreview;
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type DependencyVisualizationOptions = {
@@ -195,6 +470,7 @@ export type DependencyVisualizationResult = {
     circularCount: number;
   };
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type CheckDeletableOptions = {
@@ -202,6 +478,8 @@ export type CheckDeletableOptions = {
   includeTypes?: boolean;
   generateTests?: boolean;
   createMocks?: boolean;
+  overwrite?: boolean;
+  projectRoot?: string;
 };
 
 export type DeletableAnalysisResult = {
@@ -223,6 +501,7 @@ export type DeletableAnalysisResult = {
   }>;
   summary?: string;
   error?: string;
+  errorCode?: ErrorCode;
 };
 
 export type CheckDeletableResult = {
@@ -230,4 +509,120 @@ export type CheckDeletableResult = {
   testFileGenerated?: string;
   mockFilesGenerated?: string[];
   error?: string;
-};
\ No newline at end of file
+  errorCode?: ErrorCode;
+};
+
+export type BatchOperation =
+  | {
+      operation: 'move';
+      source: string;
+      destination: string;
+      updateImports?: boolean;
+    }
+  | {
+      operation: 'rename_file';
+      sourcePath: string;
+      destinationPath: string;
+      updateImports?: boolean;
+    }
+  | {
+      operation: 'rename_symbol';
+      filePath: string;
+      oldName: string;
+      newName: string;
+      type: SymbolKind;
+    }
+  | {
+      operation: 'optimize_imports';
+      filePath: string;
+      removeUnused?: boolean;
+      optimizeIndexPaths?: boolean;
+      consolidateImports?: boolean;
+      separateTypeImports?: boolean;
+    };
+
+export type BatchRefactorOptions = {
+  operations: BatchOperation[];
+  typeCheck?: boolean;
+  preview?: boolean;
+  projectRoot?: string;
+};
+
+export type BatchOperationResult = {
+  operation: BatchOperation['operation'];
+  success: boolean;
+  updatedFiles?: string[];
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type CompileDiagnostic = {
+  filePath?: string;
+  line?: number;
+  code: number;
+  message: string;
+};
+
+export type BatchRefactorResult = {
+  success: boolean;
+  operations: BatchOperationResult[];
+  updatedFiles?: string[];
+  movedFiles?: Array<{
+    from: string;
+    to: string;
+  }>;
+  diagnostics?: CompileDiagnostic[];
+  preview?: ChangePreview;
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type ReloadProjectOptions = {
+  path?: string;
+};
+
+export type ReloadProjectResult = {
+  success: boolean;
+  reloaded: Array<{
+    tsConfigPath?: string;
+    rootDir: string;
+    fileCount: number;
+  }>;
+  clearedCount: number;
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type OperationFileAction = 'created' | 'modified' | 'deleted';
+
+export type OperationRecord = {
+  id: string;
+  tool: string;
+  description: string;
+  timestamp: string;
+  files: Array<{
+    filePath: string;
+    action: OperationFileAction;
+  }>;
+};
+
+export type UndoOperationOptions = {
+  force?: boolean;
+};
+
+export type UndoOperationResult = {
+  success: boolean;
+  operation?: OperationRecord;
+  restoredFiles: string[];
+  conflicts?: string[];
+  error?: string;
+  errorCode?: ErrorCode;
+};
+
+export type ListOperationsOptions = {
+  limit?: number;
+};
+
+export type ListOperationsResult = {
+  operations: OperationRecord[];
+};
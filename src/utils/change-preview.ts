@@ -0,0 +1,265 @@
+import type { Project } from 'ts-morph';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChangePreview, FileDiff } from '../types';
+import type { FileChange } from './operation-journal';
+import { createUnifiedDiff } from './unified-diff';
+
+export type PathMove = {
+  from: string;
+  to: string;
+};
+
+export const createEmptyPreview = (): ChangePreview => ({
+  diffs: [],
+  createdFiles: [],
+  deletedFiles: [],
+  movedFiles: [],
+});
+
+export const createFileDiff = (
+  originalPath: string | undefined,
+  newPath: string,
+  originalText: string,
+  newText: string
+): FileDiff | undefined => {
+  const diff = createUnifiedDiff(
+    originalPath ? toDisplayPath('a', originalPath) : '/dev/null',
+    toDisplayPath('b', newPath),
+    originalText,
+    newText
+  );
+
+  return diff ? { filePath: newPath, diff } : undefined;
+};
+
+export const createFilePreview = (filePath: string, originalText: string, newText: string): ChangePreview => {
+  const fileDiff = createFileDiff(filePath, filePath, originalText, newText);
+  return { ...createEmptyPreview(), diffs: fileDiff ? [fileDiff] : [] };
+};
+
+// Builds a preview from every source file edited in memory but not saved.
+// `moves` lists files or directories that are (or will be) relocated so that
+// each diff compares the original location with the final one.
+export const collectProjectChanges = (project: Project, moves: PathMove[] = []): ChangePreview => {
+  const preview = createEmptyPreview();
+  const resolvedMoves = moves.map(move => ({ from: path.resolve(move.from), to: path.resolve(move.to) }));
+  preview.movedFiles.push(...resolvedMoves);
+
+  for (const sourceFile of project.getSourceFiles()) {
+    if (sourceFile.isSaved()) {
+      continue;
+    }
+
+    const filePath = sourceFile.getFilePath();
+    const { originalPath, finalPath } = resolveMovedPaths(filePath, resolvedMoves);
+    const originalText = readFileIfExists(originalPath);
+
+    if (originalText === undefined) {
+      preview.createdFiles.push(finalPath);
+    }
+
+    const fileDiff = createFileDiff(
+      originalText === undefined ? undefined : originalPath,
+      finalPath,
+      originalText ?? '',
+      sourceFile.getFullText()
+    );
+    if (fileDiff) {
+      preview.diffs.push(fileDiff);
+    }
+  }
+
+  return preview;
+};
+
+// Lists the writes and deletions that persist a project's unsaved edits. Every
+// file under a moved path (assets included) is written to its new location,
+// with in-memory edits applied, and removed from the old one.
+export const collectProjectFileChanges = (project: Project, moves: PathMove[] = []): FileChange[] => {
+  const changes: FileChange[] = [];
+  const handledPaths = new Set<string>();
+
+  for (const move of moves.map(move => ({ from: path.resolve(move.from), to: path.resolve(move.to) }))) {
+    for (const originalPath of listFiles(move.from)) {
+      const finalPath = move.to + originalPath.slice(move.from.length);
+      const editedFile = [project.getSourceFile(finalPath), project.getSourceFile(originalPath)].find(
+        sourceFile => sourceFile && !sourceFile.isSaved()
+      );
+
+      changes.push(
+        { filePath: finalPath, content: editedFile ? editedFile.getFullText() : fs.readFileSync(originalPath) },
+        { filePath: originalPath }
+      );
+      handledPaths.add(originalPath).add(finalPath);
+    }
+  }
+
+  for (const sourceFile of project.getSourceFiles()) {
+    const filePath = sourceFile.getFilePath();
+    if (!sourceFile.isSaved() && !handledPaths.has(filePath)) {
+      changes.push({ filePath, content: sourceFile.getFullText() });
+    }
+  }
+
+  return changes;
+};
+
+export type MoveTracker = ReturnType<typeof createMoveTracker>;
+
+// Follows where every file on disk ends up across a sequence of in-memory
+// moves, so that chained moves (a -> b -> c) and folder moves of files that
+// were moved earlier are written as one relocation per file.
+export const createMoveTracker = () => {
+  // Original path on disk -> current path, for relocated files only
+  const locations = new Map<string, string>();
+
+  const move = (from: string, to: string): void => {
+    const source = path.resolve(from);
+    const destination = path.resolve(to);
+
+    for (const [originalPath, currentPath] of locations) {
+      if (isWithin(currentPath, source)) {
+        locations.set(originalPath, destination + currentPath.slice(source.length));
+      }
+    }
+    for (const originalPath of listFiles(source)) {
+      if (!locations.has(originalPath)) {
+        locations.set(originalPath, destination + originalPath.slice(source.length));
+      }
+    }
+  };
+
+  // Whether a file, or a folder holding files, is at the path after the moves so far
+  const exists = (targetPath: string): boolean => {
+    const resolvedPath = path.resolve(targetPath);
+    return (
+      [...locations.values()].some(currentPath => isWithin(currentPath, resolvedPath)) ||
+      listFiles(resolvedPath).some(originalPath => !locations.has(originalPath))
+    );
+  };
+
+  const getMoves = (): PathMove[] => {
+    return [...locations]
+      .filter(([originalPath, currentPath]) => originalPath !== currentPath)
+      .map(([from, to]) => ({ from, to }));
+  };
+
+  const getOriginalPath = (currentPath: string): string | undefined => {
+    const movedHere = getMoves().find(move => move.to === currentPath);
+    if (movedHere) {
+      return movedHere.from;
+    }
+    return locations.has(currentPath) ? undefined : currentPath;
+  };
+
+  return { move, exists, getMoves, getOriginalPath };
+};
+
+// Deletes every relocated original, then writes each file at its final path
+// with its in-memory edits, so that files trading places keep their contents
+export const collectTrackedFileChanges = (project: Project, tracker: MoveTracker): FileChange[] => {
+  const moves = tracker.getMoves();
+  const destinations = new Set(moves.map(move => move.to));
+  const changes: FileChange[] = moves.map(move => ({ filePath: move.from }));
+
+  for (const move of moves) {
+    const sourceFile = project.getSourceFile(move.to);
+    changes.push({ filePath: move.to, content: sourceFile ? sourceFile.getFullText() : fs.readFileSync(move.from) });
+  }
+
+  for (const sourceFile of project.getSourceFiles()) {
+    const filePath = sourceFile.getFilePath();
+    if (!sourceFile.isSaved() && !destinations.has(filePath)) {
+      changes.push({ filePath, content: sourceFile.getFullText() });
+    }
+  }
+
+  return changes;
+};
+
+export const collectTrackedChanges = (project: Project, tracker: MoveTracker): ChangePreview => {
+  const preview = createEmptyPreview();
+  const moves = tracker.getMoves();
+  const destinations = new Set(moves.map(move => move.to));
+  preview.movedFiles.push(...moves);
+
+  for (const sourceFile of project.getSourceFiles()) {
+    const filePath = sourceFile.getFilePath();
+    if (sourceFile.isSaved() && !destinations.has(filePath)) {
+      continue;
+    }
+
+    const originalPath = tracker.getOriginalPath(filePath);
+    const originalText = originalPath === undefined ? undefined : readFileIfExists(originalPath);
+    if (originalText === undefined) {
+      preview.createdFiles.push(filePath);
+    }
+
+    const fileDiff = createFileDiff(
+      originalText === undefined ? undefined : originalPath,
+      filePath,
+      originalText ?? '',
+      sourceFile.getFullText()
+    );
+    if (fileDiff) {
+      preview.diffs.push(fileDiff);
+    }
+  }
+
+  return preview;
+};
+
+const listFiles = (targetPath: string): string[] => {
+  const stats = fs.statSync(targetPath, { throwIfNoEntry: false });
+  if (!stats) {
+    return [];
+  }
+  if (!stats.isDirectory()) {
+    return [targetPath];
+  }
+
+  return fs
+    .readdirSync(targetPath, { withFileTypes: true })
+    .flatMap(entry => listFiles(path.join(targetPath, entry.name)));
+};
+
+const resolveMovedPaths = (
+  filePath: string,
+  moves: PathMove[]
+): { originalPath: string; finalPath: string } => {
+  const existsOnDisk = fs.existsSync(filePath);
+
+  for (const move of moves) {
+    // Already relocated in memory: the original content is still at the old location
+    if (!existsOnDisk && isWithin(filePath, move.to)) {
+      return { originalPath: move.from + filePath.slice(move.to.length), finalPath: filePath };
+    }
+    // Edited in place and relocated afterwards (e.g. a folder rename)
+    if (existsOnDisk && isWithin(filePath, move.from)) {
+      return { originalPath: filePath, finalPath: move.to + filePath.slice(move.from.length) };
+    }
+  }
+
+  return { originalPath: filePath, finalPath: filePath };
+};
+
+const isWithin = (filePath: string, target: string): boolean => {
+  return filePath === target || filePath.startsWith(target + '/');
+};
+
+const readFileIfExists = (filePath: string): string | undefined => {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+};
+
+// Paths inside the working directory use git-style a/ and b/ prefixes
+const toDisplayPath = (prefix: 'a' | 'b', filePath: string): string => {
+  const relativePath = path.relative(process.cwd(), filePath).replace(/\\/g, '/');
+  return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+    ? filePath
+    : `${prefix}/${relativePath}`;
+};
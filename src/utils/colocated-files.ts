@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PathMove } from './change-preview';
+
+// Files next to a module that share its name, such as `Button.module.css`,
+// `Button.stories.tsx` and `Button.spec.ts` for `Button.tsx`, moved along with
+// it and renamed the same way
+export const getColocatedMoves = (source: string, destination: string): PathMove[] => {
+  const sourceName = path.basename(source);
+  const sourceStem = path.basename(source, path.extname(source));
+  const destinationStem = path.basename(destination, path.extname(destination));
+  const sourceDir = path.dirname(source);
+
+  return fs
+    .readdirSync(sourceDir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && entry.name !== sourceName && entry.name.startsWith(sourceStem + '.'))
+    .map(entry => ({
+      from: path.join(sourceDir, entry.name),
+      to: path.join(path.dirname(destination), destinationStem + entry.name.slice(sourceStem.length)),
+    }))
+    .sort((left, right) => left.from.localeCompare(right.from));
+};
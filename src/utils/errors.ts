@@ -0,0 +1,63 @@
+import * as path from 'path';
+import type { ErrorCode } from '../types';
+
+export const ERROR_CODE_DESCRIPTIONS: Record<ErrorCode, string> = {
+  INVALID_ARGUMENTS: 'The arguments do not match the tool input schema',
+  UNKNOWN_TOOL: 'No tool with the requested name exists',
+  PATH_OUTSIDE_ROOTS: 'A path argument, or a file the tool would write, lies outside the workspace roots, or the roots could not be listed',
+  FILE_NOT_FOUND: 'A file or directory passed to the tool does not exist',
+  DESTINATION_EXISTS: 'The target path of a move or rename is already taken',
+  SYMBOL_NOT_FOUND: 'No symbol with the requested name and kind exists in the file',
+  NOT_RENAMEABLE: 'The requested position is not a symbol that can be renamed',
+  RENAME_CONFLICT: 'The new name is invalid or collides with an existing name',
+  NAME_COLLISION: 'A moved declaration or its imports would clash with a name already declared at the destination',
+  TSCONFIG_NOT_FOUND: 'The tsconfig.json of the project could not be found',
+  PARSE_ERROR: 'A file could not be parsed',
+  NOTHING_TO_UNDO: 'The operation journal is empty',
+  UNDO_CONFLICT: 'Files were edited after the operation being undone',
+  CANCELLED: 'The client cancelled the request before any file was written',
+  COMPILE_ERRORS: 'The refactored project would have type errors it did not have before',
+  INTERNAL_ERROR: 'An unexpected error occurred',
+};
+
+export const ERROR_CODES = Object.keys(ERROR_CODE_DESCRIPTIONS) as [ErrorCode, ...ErrorCode[]];
+
+// An error reported with a specific code instead of one derived from its type
+export const createToolError = (message: string, errorCode: ErrorCode): Error => {
+  return Object.assign(new Error(message), { errorCode });
+};
+
+// The `error` and `errorCode` fields of a failed result
+export const describeError = (error: unknown): { error: string; errorCode: ErrorCode } => {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    errorCode: getErrorCode(error),
+  };
+};
+
+const getErrorCode = (error: unknown): ErrorCode => {
+  const { errorCode } = (error ?? {}) as { errorCode?: unknown };
+  if (typeof errorCode === 'string' && errorCode in ERROR_CODE_DESCRIPTIONS) {
+    return errorCode as ErrorCode;
+  }
+
+  if (error instanceof SyntaxError) {
+    return 'PARSE_ERROR';
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'CANCELLED';
+  }
+
+  // Node.js and ts-morph file system errors both carry `code` and `path`
+  const { code, path: errorPath } = (error ?? {}) as { code?: unknown; path?: unknown };
+  if (code === 'ENOENT') {
+    return typeof errorPath === 'string' && path.basename(errorPath) === 'tsconfig.json'
+      ? 'TSCONFIG_NOT_FOUND'
+      : 'FILE_NOT_FOUND';
+  }
+  if (code === 'EEXIST') {
+    return 'DESTINATION_EXISTS';
+  }
+
+  return 'INTERNAL_ERROR';
+};
@@ -0,0 +1,102 @@
+import { ts, type Project, type SourceFile } from 'ts-morph';
+import * as path from 'path';
+
+export type ImportStyle = {
+  // Node16/NodeNext resolution: relative imports name the emitted file
+  // (`./foo.js`) and directory imports do not resolve
+  requiresExtensions: boolean;
+};
+
+// Source extension -> extension of the emitted file
+const RUNTIME_EXTENSIONS: Record<string, string> = {
+  '.ts': '.js',
+  '.tsx': '.js',
+  '.mts': '.mjs',
+  '.cts': '.cjs',
+  '.js': '.js',
+  '.jsx': '.jsx',
+  '.mjs': '.mjs',
+  '.cjs': '.cjs',
+};
+
+// Emitted extension -> the source extensions it is built from
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+export const getImportStyle = (project: Project): ImportStyle => {
+  const { module, moduleResolution } = project.getCompilerOptions();
+  // `module: node16/nodenext` implies the matching resolution
+  const isNodeModule = module !== undefined && module >= ts.ModuleKind.Node16 && module <= ts.ModuleKind.NodeNext;
+  return {
+    requiresExtensions:
+      moduleResolution === ts.ModuleResolutionKind.Node16 ||
+      moduleResolution === ts.ModuleResolutionKind.NodeNext ||
+      (moduleResolution === undefined && isNodeModule),
+  };
+};
+
+// The extension an import of a file should end with, following the import it
+// replaces: `./foo.js` stays `.js`, and `./foo.ts` (allowImportingTsExtensions)
+// keeps naming the source. Undefined for extensionless imports, which only
+// resolve outside Node16/NodeNext.
+export const getImportExtension = (
+  filePath: string,
+  previousSpecifier: string,
+  style: ImportStyle
+): string | undefined => {
+  const extension = getExtension(filePath);
+  if (!extension) {
+    return undefined;
+  }
+
+  const previousExtension = getExtension(previousSpecifier);
+  if (previousExtension && TS_EXTENSIONS.includes(previousExtension)) {
+    return extension;
+  }
+  if (previousExtension || style.requiresExtensions) {
+    return previousExtension === '.jsx' && extension === '.tsx' ? '.jsx' : RUNTIME_EXTENSIONS[extension];
+  }
+  return undefined;
+};
+
+// `./foo.js` may name `foo.ts` or `foo.tsx`: the paths a resolved specifier
+// can refer to in source, besides itself
+export const getSourcePaths = (resolvedPath: string): string[] => {
+  const extension = getExtension(resolvedPath);
+  const sourceExtensions = extension ? SOURCE_EXTENSIONS[extension] ?? [] : [];
+  const base = resolvedPath.slice(0, resolvedPath.length - (extension?.length ?? 0));
+  return [resolvedPath, ...sourceExtensions.map(sourceExtension => base + sourceExtension)];
+};
+
+// Like SourceFile.getRelativePathAsModuleSpecifierTo, which always drops the
+// extension, but naming the file the way the project's resolution requires
+export const getRelativeModuleSpecifier = (file: SourceFile, target: SourceFile): string => {
+  const specifier = file.getRelativePathAsModuleSpecifierTo(target);
+  const extension = getImportExtension(target.getFilePath(), '', getImportStyle(file.getProject()));
+  if (!extension) {
+    return specifier;
+  }
+
+  const relativePath = path.relative(path.dirname(file.getFilePath()), stripExtension(target.getFilePath())).replace(/\\/g, '/');
+  return `${relativePath.startsWith('.') ? relativePath : `./${relativePath}`}${extension}`;
+};
+
+export const stripExtension = (filePath: string): string => {
+  const extension = getExtension(filePath);
+  return extension ? filePath.slice(0, -extension.length) : filePath;
+};
+
+// Declaration files are imported without extension in every resolution mode
+const getExtension = (filePath: string): string | undefined => {
+  if (/\.d\.[mc]?ts$/.test(filePath)) {
+    return undefined;
+  }
+  const extension = path.extname(filePath);
+  return extension in RUNTIME_EXTENSIONS ? extension : undefined;
+};
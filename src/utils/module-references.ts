@@ -0,0 +1,152 @@
+import { Node, SyntaxKind, type SourceFile, type StringLiteral } from 'ts-morph';
+import type { AffectedImport, ModuleReferenceKind } from '../types';
+
+export type ModuleReference = {
+  kind: ModuleReferenceKind;
+  // The module specifier, or the file path of a `/// <reference path>`
+  specifier: string;
+};
+
+export const MODULE_REFERENCE_KIND_DESCRIPTIONS: Record<ModuleReferenceKind, string> = {
+  import: "`import ... from './x'` and side-effect imports",
+  export: "`export ... from './x'`",
+  importEquals: "`import x = require('./x')`",
+  dynamicImport: "`import('./x')` calls",
+  importType: "`import('./x').Type` type queries",
+  require: "CommonJS `require('./x')`",
+  requireResolve: "`require.resolve('./x')`",
+  mock: "`jest.mock('./x')`, `vi.mock('./x')` and the other test module helpers",
+  moduleAugmentation: "`declare module './x'` augmentations",
+  referencePath: '`/// <reference path="./x.d.ts" />` directives',
+};
+
+export const MODULE_REFERENCE_KINDS = Object.keys(MODULE_REFERENCE_KIND_DESCRIPTIONS) as [
+  ModuleReferenceKind,
+  ...ModuleReferenceKind[],
+];
+
+// Test framework calls whose first argument is a module specifier
+const MOCK_CALLS = new Set([
+  'jest.mock',
+  'jest.unmock',
+  'jest.doMock',
+  'jest.dontMock',
+  'jest.setMock',
+  'jest.requireActual',
+  'jest.requireMock',
+  'jest.createMockFromModule',
+  'vi.mock',
+  'vi.unmock',
+  'vi.doMock',
+  'vi.doUnmock',
+  'vi.importActual',
+  'vi.importMock',
+]);
+
+// The references of a file, in document order with path directives last
+export const getModuleReferences = (sourceFile: SourceFile): ModuleReference[] => {
+  return [
+    ...collectReferenceLiterals(sourceFile).map(({ kind, literal }) => ({ kind, specifier: literal.getLiteralValue() })),
+    ...sourceFile
+      .getPathReferenceDirectives()
+      .map(directive => ({ kind: 'referencePath' as const, specifier: directive.getFileName() })),
+  ];
+};
+
+// Rewrites every reference the callback returns a new specifier for. The index
+// is the reference's position in getModuleReferences().
+export const updateModuleReferences = (
+  sourceFile: SourceFile,
+  getNewSpecifier: (reference: ModuleReference, index: number) => string | undefined
+): AffectedImport[] => {
+  const filePath = sourceFile.getFilePath();
+  const updates: AffectedImport[] = [];
+  const literals = collectReferenceLiterals(sourceFile);
+
+  literals.forEach(({ kind, literal }, index) => {
+    const specifier = literal.getLiteralValue();
+    const newSpecifier = getNewSpecifier({ kind, specifier }, index);
+    if (newSpecifier !== undefined) {
+      // setLiteralValue keeps the quote style
+      literal.setLiteralValue(newSpecifier);
+      updates.push({ file: filePath, kind, oldImport: specifier, newImport: newSpecifier });
+    }
+  });
+
+  // Directives live in comments, so they are edited as text, from the end so
+  // earlier positions stay valid
+  const directiveUpdates = sourceFile.getPathReferenceDirectives().flatMap((directive, index) => {
+    const specifier = directive.getFileName();
+    const newSpecifier = getNewSpecifier({ kind: 'referencePath', specifier }, literals.length + index);
+    return newSpecifier === undefined ? [] : [{ pos: directive.getPos(), end: directive.getEnd(), specifier, newSpecifier }];
+  });
+  [...directiveUpdates].reverse().forEach(({ pos, end, newSpecifier }) => sourceFile.replaceText([pos, end], newSpecifier));
+  directiveUpdates.forEach(({ specifier, newSpecifier }) =>
+    updates.push({ file: filePath, kind: 'referencePath', oldImport: specifier, newImport: newSpecifier })
+  );
+
+  return updates;
+};
+
+export const countReferenceKinds = (
+  affectedImports: AffectedImport[]
+): Partial<Record<ModuleReferenceKind, number>> => {
+  const counts: Partial<Record<ModuleReferenceKind, number>> = {};
+  for (const { kind } of affectedImports) {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+  }
+  return counts;
+};
+
+type ReferenceLiteral = { kind: ModuleReferenceKind; literal: StringLiteral };
+
+const collectReferenceLiterals = (sourceFile: SourceFile): ReferenceLiteral[] => {
+  const literals: ReferenceLiteral[] = [];
+  sourceFile.forEachDescendant(node => {
+    const reference = getReferenceLiteral(node);
+    if (reference && Node.isStringLiteral(reference.literal)) {
+      literals.push({ kind: reference.kind, literal: reference.literal });
+    }
+  });
+  return literals;
+};
+
+const getReferenceLiteral = (node: Node): { kind: ModuleReferenceKind; literal?: Node } | undefined => {
+  if (Node.isImportDeclaration(node)) {
+    return { kind: 'import', literal: node.getModuleSpecifier() };
+  }
+  if (Node.isExportDeclaration(node)) {
+    return { kind: 'export', literal: node.getModuleSpecifier() };
+  }
+  if (Node.isImportEqualsDeclaration(node)) {
+    // `import x = require('./x')`, not `import x = Namespace.x`
+    const reference = node.getModuleReference();
+    return { kind: 'importEquals', literal: Node.isExternalModuleReference(reference) ? reference.getExpression() : undefined };
+  }
+  if (Node.isImportTypeNode(node)) {
+    const argument = node.getArgument();
+    return { kind: 'importType', literal: Node.isLiteralTypeNode(argument) ? argument.getLiteral() : undefined };
+  }
+  if (Node.isModuleDeclaration(node)) {
+    return { kind: 'moduleAugmentation', literal: node.getNameNode() };
+  }
+  if (Node.isCallExpression(node)) {
+    const kind = getCallKind(node.getExpression());
+    return kind && { kind, literal: node.getArguments()[0] };
+  }
+  return undefined;
+};
+
+const getCallKind = (expression: Node): ModuleReferenceKind | undefined => {
+  if (expression.getKind() === SyntaxKind.ImportKeyword) {
+    return 'dynamicImport';
+  }
+  const callee = expression.getText();
+  if (callee === 'require') {
+    return 'require';
+  }
+  if (callee === 'require.resolve') {
+    return 'requireResolve';
+  }
+  return MOCK_CALLS.has(callee) ? 'mock' : undefined;
+};
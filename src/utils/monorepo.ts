@@ -0,0 +1,299 @@
+import { ts } from 'ts-morph';
+import { globSync } from 'glob';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type MonorepoPackage = {
+  name: string;
+  directory: string;
+  // Module specifiers (`@org/core`, `@org/core/utils`, `@org/core/*`) and the
+  // source files they are built from
+  entryPoints: Record<string, string>;
+};
+
+export type MonorepoLayout = {
+  rootDir: string;
+  packages: MonorepoPackage[];
+  // Workspace packages and referenced projects
+  directories: string[];
+  // The package.json, pnpm-workspace.yaml and tsconfig files the layout was read from
+  manifestFiles: string[];
+};
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+// Export conditions are tried in this order; unknown conditions come last
+const CONDITION_ORDER = ['types', 'import', 'require', 'node', 'default'];
+
+// Where packages without a tsconfig usually build to, and from
+const CONVENTIONAL_OUT_DIRS = ['dist', 'lib', 'build', 'out'];
+
+// The nearest directory above a path that declares workspaces
+export const findMonorepoRoot = (startPath: string): string | undefined => {
+  let currentDir = path.resolve(startPath);
+
+  while (currentDir !== path.dirname(currentDir)) {
+    const manifest = readJson(path.join(currentDir, 'package.json'));
+    if (fs.existsSync(path.join(currentDir, 'pnpm-workspace.yaml')) || (isRecord(manifest) && manifest.workspaces)) {
+      return currentDir;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+
+  return undefined;
+};
+
+export const readMonorepoLayout = (rootDir: string, tsConfigPath?: string): MonorepoLayout => {
+  const manifestFiles: string[] = [];
+  const directories = new Set(findWorkspacePackages(rootDir, manifestFiles));
+  if (tsConfigPath) {
+    collectProjectReferences(tsConfigPath, directories, manifestFiles, new Set());
+  }
+
+  const packages: MonorepoPackage[] = [];
+  for (const directory of directories) {
+    const monorepoPackage = readPackage(directory);
+    if (monorepoPackage) {
+      manifestFiles.push(path.join(directory, 'package.json'));
+      packages.push(monorepoPackage);
+    }
+  }
+
+  return { rootDir, packages, directories: [...directories], manifestFiles };
+};
+
+// `paths` that resolve package imports to source instead of the build output,
+// after the aliases the root tsconfig already declares
+export const getMonorepoPathMappings = (layout: MonorepoLayout, tsConfigPath?: string): Record<string, string[]> => {
+  const options = tsConfigPath ? readTsConfig(tsConfigPath)?.options : undefined;
+  const baseDir = options?.baseUrl ?? (tsConfigPath ? path.dirname(tsConfigPath) : layout.rootDir);
+  const mappings: Record<string, string[]> = {};
+
+  for (const [alias, targets] of Object.entries(options?.paths ?? {})) {
+    mappings[alias] = targets.map(target => path.resolve(baseDir, target));
+  }
+  for (const monorepoPackage of layout.packages) {
+    for (const [specifier, sourcePath] of Object.entries(monorepoPackage.entryPoints)) {
+      mappings[specifier] ??= [sourcePath];
+    }
+  }
+
+  return mappings;
+};
+
+const findWorkspacePackages = (rootDir: string, manifestFiles: string[]): string[] => {
+  const patterns: string[] = [];
+
+  const packageJsonPath = path.join(rootDir, 'package.json');
+  const manifest = readJson(packageJsonPath);
+  const workspaces = isRecord(manifest) ? manifest.workspaces : undefined;
+  if (workspaces) {
+    manifestFiles.push(packageJsonPath);
+    // An array of globs, or Yarn's `{ packages: [...] }`
+    const globs = isRecord(workspaces) ? workspaces.packages : workspaces;
+    if (Array.isArray(globs)) {
+      patterns.push(...globs.filter((pattern): pattern is string => typeof pattern === 'string'));
+    }
+  }
+
+  const pnpmWorkspacePath = path.join(rootDir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    manifestFiles.push(pnpmWorkspacePath);
+    patterns.push(...readPnpmPackages(fs.readFileSync(pnpmWorkspacePath, 'utf-8')));
+  }
+
+  const included = patterns.filter(pattern => !pattern.startsWith('!'));
+  if (included.length === 0) {
+    return [];
+  }
+
+  const excluded = patterns.filter(pattern => pattern.startsWith('!'));
+  return globSync(
+    included.map(pattern => `${pattern.replace(/\/+$/, '')}/package.json`),
+    {
+      cwd: rootDir,
+      absolute: true,
+      ignore: ['**/node_modules/**', ...excluded.flatMap(pattern => [`${pattern.slice(1)}/package.json`, `${pattern.slice(1)}/**`])],
+    }
+  )
+    .map(packageJson => path.dirname(packageJson))
+    .sort();
+};
+
+// Only the `packages` list of pnpm-workspace.yaml matters here, which is a
+// plain block or flow sequence of strings
+const readPnpmPackages = (content: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s#.*$|^#.*$/, '').trimEnd();
+    if (!line.trim()) {
+      continue;
+    }
+
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+      const flow = line.match(/^packages\s*:\s*\[(.*)\]/);
+      if (flow) {
+        patterns.push(...flow[1]!.split(',').map(unquote).filter(Boolean));
+      }
+      continue;
+    }
+
+    const item = inPackages ? line.match(/^\s*-\s*(.+)$/) : null;
+    if (item) {
+      patterns.push(unquote(item[1]!));
+    }
+  }
+
+  return patterns;
+};
+
+const unquote = (value: string): string => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+const collectProjectReferences = (
+  tsConfigPath: string,
+  directories: Set<string>,
+  manifestFiles: string[],
+  visited: Set<string>
+): void => {
+  if (visited.has(tsConfigPath)) {
+    return;
+  }
+  visited.add(tsConfigPath);
+  manifestFiles.push(tsConfigPath);
+
+  for (const reference of readTsConfig(tsConfigPath)?.projectReferences ?? []) {
+    const referencePath = ts.resolveProjectReferencePath(reference);
+    if (fs.existsSync(referencePath)) {
+      directories.add(path.dirname(referencePath));
+      collectProjectReferences(referencePath, directories, manifestFiles, visited);
+    }
+  }
+};
+
+const readPackage = (directory: string): MonorepoPackage | undefined => {
+  const manifest = readJson(path.join(directory, 'package.json'));
+  if (!isRecord(manifest) || typeof manifest.name !== 'string') {
+    return undefined;
+  }
+  const name = manifest.name;
+
+  const tsConfigPath = path.join(directory, 'tsconfig.json');
+  const options = (fs.existsSync(tsConfigPath) ? readTsConfig(tsConfigPath)?.options : undefined) ?? {};
+  const entryPoints: Record<string, string> = {};
+
+  for (const [subpath, targets] of Object.entries(getExportTargets(manifest))) {
+    const sourcePath = targets.map(target => toSourcePath(directory, target, options)).find(Boolean);
+    if (sourcePath) {
+      entryPoints[`${name}${subpath.slice(1)}`] = sourcePath;
+    }
+  }
+
+  return { name, directory, entryPoints };
+};
+
+// Subpaths of the package (`.`, `./utils`, `./*`) and the files they point to,
+// most type-like first
+const getExportTargets = (manifest: Record<string, unknown>): Record<string, string[]> => {
+  const { exports } = manifest;
+  if (exports === undefined || exports === null) {
+    return {
+      '.': [manifest.types, manifest.typings, manifest.main ?? 'index.js'].filter(
+        (target): target is string => typeof target === 'string'
+      ),
+    };
+  }
+
+  const isSubpathMap = isRecord(exports) && Object.keys(exports).some(key => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return { '.': collectTargets(exports) };
+  }
+
+  return Object.fromEntries(Object.entries(exports).map(([subpath, value]) => [subpath, collectTargets(value)]));
+};
+
+const collectTargets = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectTargets);
+  }
+  if (value && typeof value === 'object') {
+    const rank = (condition: string) => {
+      const index = CONDITION_ORDER.indexOf(condition);
+      return index === -1 ? CONDITION_ORDER.length : index;
+    };
+    return Object.entries(value)
+      .sort(([left], [right]) => rank(left) - rank(right))
+      .flatMap(([, target]) => collectTargets(target));
+  }
+  return [];
+};
+
+// Maps a published entry point (`./dist/index.js`, `./dist/index.d.ts`) back to
+// the source it is built from, through the package's outDir and rootDir.
+// Declaration files without a source are left to normal module resolution.
+const toSourcePath = (directory: string, target: string, options: ts.CompilerOptions): string | undefined => {
+  const builtPath = path.resolve(directory, target).replace(/(\.d)?\.[mc]?[jt]sx?$/, '');
+  const outDirs = [options.declarationDir, options.outDir].filter((outDir): outDir is string => outDir !== undefined);
+  if (outDirs.length === 0) {
+    outDirs.push(...CONVENTIONAL_OUT_DIRS.map(outDir => path.join(directory, outDir)));
+  }
+  const srcDir = path.join(directory, 'src');
+  const rootDir = options.rootDir ?? (fs.existsSync(srcDir) ? srcDir : directory);
+
+  const candidates = [
+    ...outDirs.filter(outDir => isWithin(builtPath, outDir)).map(outDir => path.join(rootDir, path.relative(outDir, builtPath))),
+    builtPath,
+  ];
+
+  for (const candidate of candidates) {
+    const wildcard = candidate.indexOf('*');
+    if (wildcard !== -1) {
+      if (fs.existsSync(candidate.slice(0, wildcard)) && !outDirs.some(outDir => isWithin(candidate, outDir))) {
+        return candidate;
+      }
+      continue;
+    }
+
+    const sourcePath = [
+      ...SOURCE_EXTENSIONS.map(extension => `${candidate}${extension}`),
+      ...SOURCE_EXTENSIONS.map(extension => path.join(candidate, `index${extension}`)),
+    ].find(filePath => fs.existsSync(filePath));
+    if (sourcePath) {
+      return sourcePath;
+    }
+  }
+
+  return undefined;
+};
+
+// Compiler options, `extends` and references of a tsconfig, without listing its files
+const readTsConfig = (tsConfigPath: string): ts.ParsedCommandLine | undefined => {
+  const { config, error } = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+  if (error) {
+    return undefined;
+  }
+  const host = { ...ts.sys, readDirectory: () => [] };
+  return ts.parseJsonConfigFileContent(config, host, path.dirname(tsConfigPath), undefined, tsConfigPath);
+};
+
+const readJson = (filePath: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isWithin = (targetPath: string, directory: string): boolean => {
+  const relativePath = path.relative(directory, targetPath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+};
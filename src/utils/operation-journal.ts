@@ -0,0 +1,388 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { OperationFileAction, OperationRecord } from '../types';
+import { createToolError } from './errors';
+import { throwIfCancelled } from './progress';
+import { getWorkspaceRootsError, isWithinWorkspace } from './workspace-roots';
+
+export type FileChange = {
+  filePath: string;
+  // Omitting the content deletes the file
+  content?: string | Buffer;
+};
+
+export type OperationDetails = {
+  tool: string;
+  description: string;
+  changes: FileChange[];
+  // Directories to remove once the changes leave them empty (e.g. a renamed folder)
+  removeEmptyDirectories?: string[];
+  // Checked once every file is staged; nothing is written after cancellation
+  signal?: AbortSignal;
+};
+
+type FileState = {
+  content: Buffer;
+  mode?: number;
+};
+
+type FileTransition = {
+  filePath: string;
+  before?: FileState;
+  after?: FileState;
+};
+
+type JournalEntry = {
+  record: OperationRecord;
+  transitions: FileTransition[];
+  createdDirectories: string[];
+  removedDirectories: string[];
+};
+
+const DEFAULT_MAX_OPERATIONS = 20;
+// Operations made outside of a client session, e.g. from the CLI
+const DEFAULT_SESSION = '';
+
+const sessionStorage = new AsyncLocalStorage<string>();
+const journals = new Map<string, JournalEntry[]>();
+let queue: Promise<unknown> = Promise.resolve();
+let tempFileCounter = 0;
+let writeCount = 0;
+let maxOperations = Number(process.env.TS_TOOLS_JOURNAL_SIZE) || DEFAULT_MAX_OPERATIONS;
+
+export const configureOperationJournal = (options: { maxOperations?: number }): void => {
+  if (options.maxOperations !== undefined) {
+    maxOperations = Math.max(1, options.maxOperations);
+    for (const journal of journals.values()) {
+      journal.splice(0, Math.max(0, journal.length - maxOperations));
+    }
+  }
+};
+
+// Runs a tool call on behalf of a client session. Every session keeps its own
+// journal, so a client can only list and undo the operations it made itself.
+export const withOperationSession = <T>(sessionId: string, operation: () => T): T => {
+  return sessionStorage.run(sessionId, operation);
+};
+
+// Writes every change atomically (temp file + rename) and records the previous
+// contents so the operation can be undone. When any write fails the files
+// already replaced are restored before the error is rethrown. Nothing is
+// written when a change lies outside the workspace roots of the calling client,
+// e.g. an importer in a neighbouring project.
+export const applyOperation = async (details: OperationDetails): Promise<OperationRecord | undefined> => {
+  assertRootsKnown();
+  const outsidePath = [...details.changes.map(change => change.filePath), ...(details.removeEmptyDirectories ?? [])]
+    .map(targetPath => path.resolve(targetPath))
+    .find(targetPath => !isWithinWorkspace(targetPath));
+  if (outsidePath) {
+    throw createToolError(`Refusing to write outside the workspace roots: ${outsidePath}`, 'PATH_OUTSIDE_ROOTS');
+  }
+
+  return serialize(async () => {
+    const transitions = await planTransitions(details.changes);
+    const createdDirectories = await applyTransitions(transitions, details.signal);
+    const removedDirectories: string[] = [];
+    for (const directory of details.removeEmptyDirectories ?? []) {
+      removedDirectories.push(...(await removeEmptyDirectories(path.resolve(directory))));
+    }
+
+    if (transitions.length === 0 && removedDirectories.length === 0) {
+      return undefined;
+    }
+
+    const record: OperationRecord = {
+      id: randomUUID(),
+      tool: details.tool,
+      description: details.description,
+      timestamp: new Date().toISOString(),
+      files: transitions.map(transition => ({
+        filePath: transition.filePath,
+        action: getAction(transition),
+      })),
+    };
+
+    const journal = getJournal();
+    journal.push({ record, transitions, createdDirectories, removedDirectories });
+    journal.splice(0, Math.max(0, journal.length - maxOperations));
+
+    return record;
+  });
+};
+
+// Increases whenever operations or undos write files, so caches of the disk
+// can tell that they are stale
+export const getWriteCount = (): number => {
+  return writeCount;
+};
+
+// Most recent operation first
+export const getOperationHistory = (): OperationRecord[] => {
+  return getJournal().map(entry => entry.record).reverse();
+};
+
+export const getLastOperation = (): OperationRecord | undefined => {
+  const journal = getJournal();
+  return journal[journal.length - 1]?.record;
+};
+
+// Files whose current contents differ from what the operation left behind
+export const findChangedFiles = async (operationId: string): Promise<string[]> => {
+  const entry = getUndoableEntry(operationId);
+  const changedFiles: string[] = [];
+
+  for (const transition of entry.transitions) {
+    const current = await readFileState(transition.filePath);
+    if (!isSameContent(current, transition.after)) {
+      changedFiles.push(transition.filePath);
+    }
+  }
+
+  return changedFiles;
+};
+
+// Restores the files touched by the most recent operation and drops it from
+// the journal. Returns the restored paths.
+export const revertOperation = async (operationId: string): Promise<string[]> => {
+  assertRootsKnown();
+  return serialize(async () => {
+    const entry = getUndoableEntry(operationId);
+
+    for (const directory of [...entry.removedDirectories].reverse()) {
+      await fs.mkdir(directory, { recursive: true });
+    }
+
+    const transitions = await Promise.all(
+      entry.transitions.map(async transition => ({
+        filePath: transition.filePath,
+        before: await readFileState(transition.filePath),
+        after: transition.before,
+      }))
+    );
+    await applyTransitions(transitions);
+
+    await removeDirectories(entry.createdDirectories);
+
+    getJournal().pop();
+    return entry.transitions.map(transition => transition.filePath);
+  });
+};
+
+// Drops the journal of one session, or of every session
+export const clearOperationJournal = (sessionId?: string): number => {
+  const sessions = sessionId === undefined ? [...journals.keys()] : [sessionId];
+  let count = 0;
+  for (const session of sessions) {
+    count += journals.get(session)?.length ?? 0;
+    journals.delete(session);
+  }
+  return count;
+};
+
+const serialize = async <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.catch(() => undefined).then(task);
+  queue = run;
+  return run;
+};
+
+const getJournal = (): JournalEntry[] => {
+  const sessionId = sessionStorage.getStore() ?? DEFAULT_SESSION;
+  let journal = journals.get(sessionId);
+  if (!journal) {
+    journal = [];
+    journals.set(sessionId, journal);
+  }
+  return journal;
+};
+
+const getUndoableEntry = (operationId: string): JournalEntry => {
+  const journal = getJournal();
+  const entry = journal[journal.length - 1];
+  if (!entry || entry.record.id !== operationId) {
+    throw new Error(`Operation ${operationId} is not the most recent operation`);
+  }
+  return entry;
+};
+
+const getAction = (transition: FileTransition): OperationFileAction => {
+  if (!transition.before) {
+    return 'created';
+  }
+  return transition.after ? 'modified' : 'deleted';
+};
+
+const planTransitions = async (changes: FileChange[]): Promise<FileTransition[]> => {
+  // The last change to a path wins
+  const targets = new Map<string, Buffer | undefined>();
+  for (const change of changes) {
+    const content = change.content === undefined ? undefined : Buffer.from(change.content);
+    targets.set(path.resolve(change.filePath), content);
+  }
+
+  const transitions: FileTransition[] = [];
+  for (const [filePath, content] of targets) {
+    const before = await readFileState(filePath);
+    const after = content ? { content, mode: before?.mode } : undefined;
+    if (!isSameContent(before, after)) {
+      transitions.push({ filePath, before, after });
+    }
+  }
+
+  return transitions;
+};
+
+// Moves every file from its `before` state to its `after` state. Writes are
+// staged in temporary files first so a failure never leaves a file truncated.
+// Returns the directories that had to be created.
+const applyTransitions = async (transitions: FileTransition[], signal?: AbortSignal): Promise<string[]> => {
+  writeCount++;
+  const createdDirectories: string[] = [];
+  const staged = new Map<string, string>();
+  const applied: FileTransition[] = [];
+
+  try {
+    for (const transition of transitions) {
+      if (transition.after) {
+        createdDirectories.push(...(await createParentDirectories(transition.filePath)));
+        staged.set(transition.filePath, await stageFile(transition.filePath, transition.after));
+      }
+    }
+    throwIfCancelled(signal);
+
+    // Writes go first so that a move never loses its only copy
+    for (const transition of transitions.filter(candidate => candidate.after)) {
+      await fs.rename(staged.get(transition.filePath)!, transition.filePath);
+      staged.delete(transition.filePath);
+      applied.push(transition);
+    }
+    for (const transition of transitions.filter(candidate => !candidate.after)) {
+      await fs.rm(transition.filePath, { force: true });
+      applied.push(transition);
+    }
+  } catch (error) {
+    await rollback(applied, staged, createdDirectories);
+    throw error;
+  }
+
+  return createdDirectories;
+};
+
+const rollback = async (
+  applied: FileTransition[],
+  staged: Map<string, string>,
+  createdDirectories: string[]
+): Promise<void> => {
+  for (const tempPath of staged.values()) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+  }
+
+  for (const transition of [...applied].reverse()) {
+    try {
+      if (transition.before) {
+        await fs.mkdir(path.dirname(transition.filePath), { recursive: true });
+        const tempPath = await stageFile(transition.filePath, transition.before);
+        await fs.rename(tempPath, transition.filePath);
+      } else {
+        await fs.rm(transition.filePath, { force: true });
+      }
+    } catch {
+      // Keep restoring the remaining files
+    }
+  }
+
+  await removeDirectories(createdDirectories);
+};
+
+// Removes directories deepest first, leaving any that are no longer empty
+const removeDirectories = async (directories: string[]): Promise<void> => {
+  const deepestFirst = [...directories].sort((left, right) => right.length - left.length);
+  for (const directory of deepestFirst) {
+    await fs.rmdir(directory).catch(() => undefined);
+  }
+};
+
+const stageFile = async (filePath: string, state: FileState): Promise<string> => {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${++tempFileCounter}.tmp`
+  );
+
+  await fs.writeFile(tempPath, state.content);
+  if (state.mode !== undefined) {
+    await fs.chmod(tempPath, state.mode);
+  }
+
+  return tempPath;
+};
+
+// Creates the missing ancestors of a file, returning them deepest first
+const createParentDirectories = async (filePath: string): Promise<string[]> => {
+  const missing: string[] = [];
+  let directory = path.dirname(filePath);
+
+  while (!(await pathExists(directory))) {
+    missing.push(directory);
+    directory = path.dirname(directory);
+  }
+
+  if (missing.length > 0) {
+    await fs.mkdir(missing[0]!, { recursive: true });
+  }
+
+  return missing;
+};
+
+// Removes a directory tree that contains no files, returning the removed
+// directories deepest first
+const removeEmptyDirectories = async (directory: string): Promise<string[]> => {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => undefined);
+  if (!entries) {
+    return [];
+  }
+
+  const removed: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      removed.push(...(await removeEmptyDirectories(path.join(directory, entry.name))));
+    }
+  }
+
+  if ((await fs.readdir(directory)).length === 0) {
+    await fs.rmdir(directory);
+    removed.push(directory);
+  }
+
+  return removed;
+};
+
+const readFileState = async (filePath: string): Promise<FileState | undefined> => {
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+    return { content, mode: stats.mode & 0o7777 };
+  } catch {
+    return undefined;
+  }
+};
+
+const isSameContent = (left: FileState | undefined, right: FileState | undefined): boolean => {
+  if (!left || !right) {
+    return left === right;
+  }
+  return left.content.equals(right.content);
+};
+
+const pathExists = async (targetPath: string): Promise<boolean> => {
+  return fs.access(targetPath).then(
+    () => true,
+    () => false
+  );
+};
+
+const assertRootsKnown = (): void => {
+  const rootsError = getWorkspaceRootsError();
+  if (rootsError) {
+    throw createToolError(`Refusing to write files: the workspace roots could not be listed (${rootsError})`, 'PATH_OUTSIDE_ROOTS');
+  }
+};
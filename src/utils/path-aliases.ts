@@ -0,0 +1,113 @@
+import type { Project } from 'ts-morph';
+import * as path from 'path';
+
+type PathAlias = {
+  // `@/*`, `~lib/*` or an exact specifier such as `config`
+  pattern: string;
+  // Absolute paths the pattern maps to, with the same wildcard
+  targets: string[];
+};
+
+export type PathAliases = {
+  baseUrl?: string;
+  aliases: PathAlias[];
+};
+
+// The `paths` and `baseUrl` of a project, with targets made absolute
+export const getPathAliases = (project: Project): PathAliases => {
+  const options = project.getCompilerOptions();
+  const configDir = typeof options.configFilePath === 'string' ? path.dirname(options.configFilePath) : process.cwd();
+  const pathsBase = options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? configDir;
+
+  return {
+    baseUrl: options.baseUrl,
+    aliases: Object.entries(options.paths ?? {}).map(([pattern, targets]) => ({
+      pattern,
+      targets: targets.map(target => path.resolve(pathsBase, target)),
+    })),
+  };
+};
+
+// Absolute paths, without extension probing, that a non-relative specifier may
+// resolve to: `paths` matches first, most specific pattern first, then `baseUrl`
+export const resolveAliasedSpecifier = (pathAliases: PathAliases, specifier: string): string[] => {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return [];
+  }
+
+  const matches = pathAliases.aliases
+    .map(alias => ({ alias, captured: matchPattern(alias.pattern, specifier) }))
+    .filter((match): match is { alias: PathAlias; captured: string } => match.captured !== undefined)
+    .sort((left, right) => getPrefix(right.alias.pattern).length - getPrefix(left.alias.pattern).length);
+
+  const candidates = matches.flatMap(({ alias, captured }) => alias.targets.map(target => target.replace('*', captured)));
+  if (pathAliases.baseUrl) {
+    candidates.push(path.resolve(pathAliases.baseUrl, specifier));
+  }
+  return candidates;
+};
+
+// The aliased specifier for a module path (absolute, as it should appear after
+// the alias: usually without extension). The alias the import used before is
+// kept when it still reaches the module; otherwise the most specific one wins.
+// Returns undefined when no alias reaches it, leaving relative paths to the caller.
+export const toAliasedSpecifier = (
+  pathAliases: PathAliases,
+  modulePath: string,
+  previousSpecifier: string
+): string | undefined => {
+  const candidates = pathAliases.aliases.flatMap(alias =>
+    alias.targets.flatMap(target => {
+      const captured = matchPattern(normalizeTarget(target), modulePath);
+      return captured === undefined
+        ? []
+        : [{ alias, specifier: alias.pattern.replace('*', captured), specificity: getPrefix(target).length }];
+    })
+  );
+
+  const previous = candidates.find(candidate => matchPattern(candidate.alias.pattern, previousSpecifier) !== undefined);
+  if (previous) {
+    return previous.specifier;
+  }
+
+  const [best] = candidates.sort(
+    (left, right) => right.specificity - left.specificity || left.specifier.length - right.specifier.length
+  );
+  if (best) {
+    return best.specifier;
+  }
+
+  // Otherwise modules under `baseUrl` are imported relative to it
+  if (pathAliases.baseUrl) {
+    const relativePath = path.relative(pathAliases.baseUrl, modulePath).replace(/\\/g, '/');
+    if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+      return relativePath;
+    }
+  }
+  return undefined;
+};
+
+// What `*` stands for when the value matches a pattern ('' for exact patterns)
+const matchPattern = (pattern: string, value: string): string | undefined => {
+  const wildcard = pattern.indexOf('*');
+  if (wildcard === -1) {
+    return pattern === value ? '' : undefined;
+  }
+
+  const prefix = pattern.slice(0, wildcard);
+  const suffix = pattern.slice(wildcard + 1);
+  if (value.length < prefix.length + suffix.length || !value.startsWith(prefix) || !value.endsWith(suffix)) {
+    return undefined;
+  }
+  return value.slice(prefix.length, value.length - suffix.length);
+};
+
+const getPrefix = (pattern: string): string => {
+  const wildcard = pattern.indexOf('*');
+  return wildcard === -1 ? pattern : pattern.slice(0, wildcard);
+};
+
+// Targets name files the way imports do: without extension or `/index`
+const normalizeTarget = (target: string): string => {
+  return target.replace(/\.(d\.ts|ts|tsx|js|jsx)$/, '').replace(/\/index$/, '');
+};
@@ -0,0 +1,31 @@
+import type { OperationContext } from '../types';
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    const error = new Error('The operation was cancelled');
+    error.name = 'AbortError';
+    throw error;
+  }
+};
+
+// Counts processed items for one request. Every step is a cancellation point;
+// notifications are throttled, but the last step is always reported.
+export const createProgressTracker = (context: OperationContext | undefined, total: number) => {
+  let progress = 0;
+  let lastReported = 0;
+
+  return {
+    step: (message: string): void => {
+      throwIfCancelled(context?.signal);
+      progress++;
+
+      const now = Date.now();
+      if (context?.onProgress && (progress >= total || now - lastReported >= PROGRESS_INTERVAL_MS)) {
+        lastReported = now;
+        context.onProgress({ progress, total, message });
+      }
+    },
+  };
+};
@@ -0,0 +1,464 @@
+import { Project } from 'ts-morph';
+import { globSync } from 'glob';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findMonorepoRoot, getMonorepoPathMappings, readMonorepoLayout } from './monorepo';
+import { getWriteCount } from './operation-journal';
+import { cleanupProject } from './project-cleanup';
+import { findWorkspaceRoot } from './workspace-roots';
+
+export type ProjectLocation = {
+  tsConfigPath?: string;
+  rootDir: string;
+  // Load every workspace package and referenced project, with package imports
+  // resolved to their source
+  monorepo?: boolean;
+};
+
+export type CachedProjectInfo = {
+  key: string;
+  tsConfigPath?: string;
+  rootDir: string;
+  fileCount: number;
+  lastUsed: number;
+};
+
+type RegistryEntry = {
+  key: string;
+  location: ProjectLocation;
+  project: Project;
+  // Directories scanned for source files
+  directories: string[];
+  tsConfigSignature?: string;
+  fileSignatures: Map<string, string>;
+  // Modification times of the directories the last scan for new files walked,
+  // and the journal's write count at the time
+  scannedDirectories: Map<string, number | undefined>;
+  scannedWriteCount?: number;
+  activeOperations: number;
+  disposed: boolean;
+  cleanedUp: boolean;
+  lastUsed: number;
+};
+
+const SOURCE_FILE_PATTERN = '**/*.{ts,tsx}';
+
+const IGNORED_PATHS = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/.turbo/**',
+  '**/out/**',
+  '**/*.d.ts',
+];
+
+const DEFAULT_MAX_PROJECTS = 4;
+
+const entries = new Map<string, RegistryEntry>();
+const queues = new Map<string, Promise<unknown>>();
+let maxProjects = Number(process.env.TS_TOOLS_PROJECT_CACHE_SIZE) || DEFAULT_MAX_PROJECTS;
+
+export const configureProjectRegistry = (options: { maxProjects?: number }): void => {
+  if (options.maxProjects !== undefined) {
+    maxProjects = Math.max(1, options.maxProjects);
+    evictLeastRecentlyUsed();
+  }
+};
+
+export const findTsConfig = (startPath: string): string | undefined => {
+  let currentDir = path.resolve(startPath);
+  if (fs.statSync(currentDir, { throwIfNoEntry: false })?.isFile()) {
+    currentDir = path.dirname(currentDir);
+  }
+
+  while (currentDir !== path.dirname(currentDir)) {
+    const tsConfigPath = path.join(currentDir, 'tsconfig.json');
+    if (fs.existsSync(tsConfigPath)) {
+      return tsConfigPath;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+
+  return undefined;
+};
+
+// Locate the project owning a path. An explicit project root (a directory or
+// its tsconfig file) wins; otherwise the nearest tsconfig.json above the path
+// is used. Without a tsconfig the enclosing workspace root, or the working
+// directory, is scanned.
+export const resolveProjectLocation = (startPath: string, projectRoot?: string): ProjectLocation => {
+  if (projectRoot) {
+    const resolvedRoot = path.resolve(projectRoot);
+    if (path.extname(resolvedRoot) === '.json') {
+      return { tsConfigPath: resolvedRoot, rootDir: path.dirname(resolvedRoot) };
+    }
+
+    const tsConfigPath = path.join(resolvedRoot, 'tsconfig.json');
+    return {
+      tsConfigPath: fs.existsSync(tsConfigPath) ? tsConfigPath : undefined,
+      rootDir: resolvedRoot,
+    };
+  }
+
+  const tsConfigPath = findTsConfig(startPath);
+  return {
+    tsConfigPath,
+    rootDir: tsConfigPath ? path.dirname(tsConfigPath) : findWorkspaceRoot(startPath) ?? process.cwd(),
+  };
+};
+
+// The whole monorepo around a path: the nearest directory declaring workspaces,
+// or the project owning the path when there is none, with its references
+export const resolveMonorepoLocation = (startPath: string, projectRoot?: string): ProjectLocation => {
+  const monorepoRoot = projectRoot ? undefined : findMonorepoRoot(startPath);
+  if (!monorepoRoot) {
+    return { ...resolveProjectLocation(startPath, projectRoot), monorepo: true };
+  }
+
+  const tsConfigPath = path.join(monorepoRoot, 'tsconfig.json');
+  return {
+    tsConfigPath: fs.existsSync(tsConfigPath) ? tsConfigPath : undefined,
+    rootDir: monorepoRoot,
+    monorepo: true,
+  };
+};
+
+// Returns the cached project for a location, creating it on first use and
+// re-reading only the files that changed on disk since the last call.
+export const acquireProject = (location: ProjectLocation): Project => {
+  const entry = acquireEntry(location);
+  // The project being handed out is never evicted
+  evictLeastRecentlyUsed(entry);
+  return entry.project;
+};
+
+// Runs an operation against the cached project. Operations on the same project
+// are serialized so concurrent tool calls never see each other's in-memory edits.
+export const withProject = async <T>(
+  location: ProjectLocation,
+  operation: (project: Project) => Promise<T>
+): Promise<T> => {
+  const key = getProjectKey(location);
+
+  return enqueue(key, async () => {
+    const entry = acquireEntry(location);
+    const project = entry.project;
+    entry.activeOperations++;
+    try {
+      evictLeastRecentlyUsed();
+      return await operation(project);
+    } finally {
+      entry.activeOperations--;
+
+      if (entry.disposed) {
+        // Cleanup was deferred while this operation was still using the project
+        disposeEntry(entry);
+      } else {
+        settleEntry(entry);
+      }
+    }
+  });
+};
+
+// Drops the cached project and parses it again from disk once pending
+// operations on it have finished.
+export const rebuildProject = async (location: ProjectLocation): Promise<Project> => {
+  const key = getProjectKey(location);
+
+  return enqueue(key, async () => {
+    invalidateProject(location);
+    return acquireProject(location);
+  });
+};
+
+export const invalidateProject = (location: ProjectLocation): boolean => {
+  const entry = entries.get(getProjectKey(location));
+  if (!entry) {
+    return false;
+  }
+  disposeEntry(entry);
+  return true;
+};
+
+export const clearProjectRegistry = (): number => {
+  const count = entries.size;
+  for (const entry of [...entries.values()]) {
+    disposeEntry(entry);
+  }
+  return count;
+};
+
+export const getCachedProjects = (): CachedProjectInfo[] => {
+  return [...entries.values()].map(entry => ({
+    key: entry.key,
+    tsConfigPath: entry.location.tsConfigPath,
+    rootDir: entry.location.rootDir,
+    fileCount: entry.project.getSourceFiles().length,
+    lastUsed: entry.lastUsed,
+  }));
+};
+
+const enqueue = async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const previous = queues.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+
+  queues.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (queues.get(key) === run) {
+      queues.delete(key);
+    }
+  }
+};
+
+const getProjectKey = (location: ProjectLocation): string => {
+  const key = location.tsConfigPath
+    ? path.resolve(location.tsConfigPath)
+    : `${path.resolve(location.rootDir)}${path.sep}`;
+  return location.monorepo ? `monorepo:${key}` : key;
+};
+
+// Monorepo projects also depend on the package manifests and referenced tsconfigs
+const getConfigSignature = (location: ProjectLocation): string | undefined => {
+  if (!location.monorepo) {
+    return getFileSignature(location.tsConfigPath);
+  }
+  const { manifestFiles } = readMonorepoLayout(location.rootDir, location.tsConfigPath);
+  return [location.tsConfigPath, ...manifestFiles].map(getFileSignature).join('|');
+};
+
+const getModifiedTime = (directory: string): number | undefined => {
+  return fs.statSync(directory, { throwIfNoEntry: false })?.mtimeMs;
+};
+
+const getFileSignature = (filePath: string | undefined): string | undefined => {
+  if (!filePath) {
+    return undefined;
+  }
+  const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+  return stats ? `${stats.mtimeMs}:${stats.size}` : undefined;
+};
+
+const createEntry = (key: string, location: ProjectLocation): RegistryEntry => {
+  const layout = location.monorepo ? readMonorepoLayout(location.rootDir, location.tsConfigPath) : undefined;
+  const project = new Project({
+    ...(location.tsConfigPath ? { tsConfigFilePath: location.tsConfigPath } : {}),
+    ...(layout ? { compilerOptions: { paths: getMonorepoPathMappings(layout, location.tsConfigPath) } } : {}),
+    useInMemoryFileSystem: false,
+  });
+
+  const entry: RegistryEntry = {
+    key,
+    location,
+    project,
+    // Packages inside the root are already covered by scanning it
+    directories: [
+      location.rootDir,
+      ...(layout?.directories ?? []).filter(directory => path.relative(location.rootDir, directory).startsWith('..')),
+    ],
+    tsConfigSignature: getConfigSignature(location),
+    fileSignatures: new Map(),
+    scannedDirectories: new Map(),
+    activeOperations: 0,
+    disposed: false,
+    cleanedUp: false,
+    lastUsed: Date.now(),
+  };
+
+  addUntrackedFiles(entry);
+  recordNewFiles(entry);
+
+  return entry;
+};
+
+// Syncs or creates the entry for a location and marks it most recently used
+const acquireEntry = (location: ProjectLocation): RegistryEntry => {
+  const key = getProjectKey(location);
+  let entry = entries.get(key);
+
+  if (entry && entry.tsConfigSignature !== getConfigSignature(location)) {
+    disposeEntry(entry);
+    entry = undefined;
+  }
+
+  if (entry) {
+    syncEntry(entry);
+  } else {
+    entry = createEntry(key, location);
+    entries.set(key, entry);
+  }
+
+  touchEntry(entry);
+  return entry;
+};
+
+const syncEntry = (entry: RegistryEntry): void => {
+  const { project, fileSignatures } = entry;
+
+  for (const sourceFile of project.getSourceFiles()) {
+    const filePath = sourceFile.getFilePath();
+    const signature = getFileSignature(filePath);
+
+    if (!signature) {
+      project.removeSourceFile(sourceFile);
+      fileSignatures.delete(filePath);
+      continue;
+    }
+
+    // Discard in-memory edits that never reached disk. Files edited in place
+    // leave their directory untouched, so only their own signature shows it.
+    if (signature !== fileSignatures.get(filePath) || !sourceFile.isSaved()) {
+      sourceFile.refreshFromFileSystemSync();
+      fileSignatures.set(filePath, signature);
+    }
+  }
+
+  addUntrackedFiles(entry);
+  recordNewFiles(entry);
+};
+
+// Brings the project back in line with the disk after an operation. Files the
+// operation wrote keep their parsed state and get their new signature, edits
+// that never reached disk (previews, failed operations) are discarded, and
+// files moved or removed only in memory are dropped or read back.
+const settleEntry = (entry: RegistryEntry): void => {
+  const { project, fileSignatures } = entry;
+
+  // The journal writes files itself, so ts-morph still counts everything an
+  // operation edited as unsaved. Re-reading is its only way to drop edits; for
+  // files that were written it reads back the text it already has.
+  for (const sourceFile of project.getSourceFiles().filter(candidate => !candidate.isSaved())) {
+    const filePath = sourceFile.getFilePath();
+    const signature = getFileSignature(filePath);
+
+    if (signature) {
+      sourceFile.refreshFromFileSystemSync();
+      fileSignatures.set(filePath, signature);
+    } else {
+      project.removeSourceFile(sourceFile);
+      fileSignatures.delete(filePath);
+    }
+  }
+
+  const vacatedPaths = [...fileSignatures.keys()].filter(filePath => !project.getSourceFile(filePath));
+  // Re-reading a file forgets its nodes, but ts-morph's map of which files
+  // reference which still holds their module specifier literals. Adding a file
+  // walks that map and throws on the forgotten literals, unless a query for
+  // referencing files has rebuilt it from the current trees first.
+  if (vacatedPaths.length > 0) {
+    project.getSourceFiles()[0]?.getReferencingSourceFiles();
+  }
+
+  for (const filePath of vacatedPaths) {
+    fileSignatures.delete(filePath);
+    // SourceFile.move() and delete() queue the old path for deletion on the
+    // next save, and ts-morph reports queued paths as missing, so the file on
+    // disk could not be added back. Only adding a file at the path dequeues it,
+    // hence the throwaway file.
+    project.removeSourceFile(project.createSourceFile(filePath, '', { overwrite: true }));
+    if (fs.existsSync(filePath)) {
+      try {
+        project.addSourceFileAtPath(filePath);
+      } catch {
+        // Ignore files that cannot be read
+      }
+    }
+  }
+
+  recordNewFiles(entry);
+};
+
+// Adding or removing a file updates the modification time of its directory,
+// so the tree is only walked again when a directory from the last walk changed
+// or the journal wrote files since
+const addUntrackedFiles = (entry: RegistryEntry): void => {
+  const { project, directories, scannedDirectories } = entry;
+
+  const isUnchanged =
+    entry.scannedWriteCount === getWriteCount() &&
+    [...scannedDirectories].every(([directory, modifiedAt]) => getModifiedTime(directory) === modifiedAt);
+  if (isUnchanged) {
+    return;
+  }
+
+  entry.scannedWriteCount = getWriteCount();
+  scannedDirectories.clear();
+  const filePaths = new Set<string>();
+  for (const directory of directories) {
+    try {
+      // Directories are marked with a trailing separator
+      globSync([SOURCE_FILE_PATTERN, '**/'], {
+        cwd: directory,
+        ignore: IGNORED_PATHS,
+        absolute: true,
+        mark: true,
+      }).forEach(foundPath => {
+        if (foundPath.endsWith(path.sep)) {
+          scannedDirectories.set(foundPath, getModifiedTime(foundPath));
+        } else {
+          filePaths.add(foundPath);
+        }
+      });
+    } catch {
+      // Fall back to the files tsconfig.json already provided, and walk the
+      // tree again next time
+      entry.scannedWriteCount = undefined;
+    }
+  }
+
+  for (const filePath of filePaths) {
+    if (!project.getSourceFile(filePath)) {
+      try {
+        project.addSourceFileAtPath(filePath);
+      } catch {
+        // Ignore files that cannot be read
+      }
+    }
+  }
+};
+
+const recordNewFiles = (entry: RegistryEntry): void => {
+  for (const sourceFile of entry.project.getSourceFiles()) {
+    const filePath = sourceFile.getFilePath();
+    if (!entry.fileSignatures.has(filePath) && sourceFile.isSaved()) {
+      const signature = getFileSignature(filePath);
+      if (signature) {
+        entry.fileSignatures.set(filePath, signature);
+      }
+    }
+  }
+};
+
+const touchEntry = (entry: RegistryEntry): void => {
+  entry.lastUsed = Date.now();
+  entries.delete(entry.key);
+  entries.set(entry.key, entry);
+};
+
+const evictLeastRecentlyUsed = (keep?: RegistryEntry): void => {
+  // Projects with an operation in flight are never evicted
+  const candidates = [...entries.values()].filter(entry => entry.activeOperations === 0 && entry !== keep);
+  let excess = entries.size - maxProjects;
+
+  for (const entry of candidates) {
+    if (excess <= 0) {
+      return;
+    }
+    disposeEntry(entry);
+    excess--;
+  }
+};
+
+const disposeEntry = (entry: RegistryEntry): void => {
+  if (entries.get(entry.key) === entry) {
+    entries.delete(entry.key);
+  }
+  entry.disposed = true;
+
+  if (entry.activeOperations === 0 && !entry.cleanedUp) {
+    entry.cleanedUp = true;
+    cleanupProject(entry.project);
+  }
+};
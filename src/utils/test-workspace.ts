@@ -0,0 +1,40 @@
+import { afterEach, beforeEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearOperationJournal } from './operation-journal';
+import { clearProjectRegistry } from './project-registry';
+
+export type TestWorkspace = {
+  file: (relativePath: string) => string;
+  read: (relativePath: string) => string;
+  write: (relativePath: string, content: string) => void;
+};
+
+// A temporary directory for the specs of services that write files. Call it at
+// the top of a describe block: every test gets a fresh directory, and the
+// journal and cached projects it leaves behind are dropped afterwards.
+export const useTestWorkspace = (name: string): TestWorkspace => {
+  let testDir = '';
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), `${name}-test-`)));
+  });
+
+  afterEach(() => {
+    clearOperationJournal();
+    clearProjectRegistry();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const file = (relativePath: string) => path.join(testDir, relativePath);
+
+  return {
+    file,
+    read: relativePath => fs.readFileSync(file(relativePath), 'utf-8'),
+    write: (relativePath, content) => {
+      fs.mkdirSync(path.dirname(file(relativePath)), { recursive: true });
+      fs.writeFileSync(file(relativePath), content);
+    },
+  };
+};
@@ -0,0 +1,206 @@
+type DiffOperation = {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+};
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE_SENTINEL = '\u0000';
+
+export const createUnifiedDiff = (
+  oldFileName: string,
+  newFileName: string,
+  oldText: string,
+  newText: string
+): string => {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  const operations = diffLines(oldLines, newLines);
+
+  const header = [`--- ${oldFileName}`, `+++ ${newFileName}`];
+  const hunks = buildHunks(operations);
+
+  return [...header, ...hunks].join('\n') + '\n';
+};
+
+// A last line without a trailing newline is marked so that it never compares
+// equal to the same text followed by a newline.
+const splitLines = (text: string): string[] => {
+  if (text === '') {
+    return [];
+  }
+
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE_SENTINEL;
+  }
+
+  return lines;
+};
+
+// Myers' O(ND) diff over lines, with the common prefix and suffix trimmed first
+// so that typical small edits in large files stay cheap.
+const diffLines = (oldLines: string[], newLines: string[]): DiffOperation[] => {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  const operations: DiffOperation[] = [
+    ...oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...myers(a, b),
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+
+  return operations;
+};
+
+const myers = (a: string[], b: string[]): DiffOperation[] => {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0) {
+    return b.map(line => ({ type: 'insert', line }));
+  }
+  if (m === 0) {
+    return a.map(line => ({ type: 'delete', line }));
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d before step d
+  const trace: Int32Array[] = [];
+
+  let finalD = -1;
+  for (let d = 0; d <= max && finalD < 0; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+        x = v[offset + k + 1]!;
+      } else {
+        x = v[offset + k - 1]! + 1;
+      }
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        finalD = d;
+        break;
+      }
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = finalD; d > 0; d--) {
+    const snapshot = trace[d]!;
+    const at = (k: number): number => snapshot[k + d]!;
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: 'equal', line: a[x - 1]! });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      operations.push({ type: 'insert', line: b[prevY]! });
+    } else {
+      operations.push({ type: 'delete', line: a[prevX]! });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    operations.push({ type: 'equal', line: a[x - 1]! });
+    x--;
+    y--;
+  }
+
+  return operations.reverse();
+};
+
+const buildHunks = (operations: DiffOperation[]): string[] => {
+  const output: string[] = [];
+  const changeIndexes = operations
+    .map((operation, index) => (operation.type === 'equal' ? -1 : index))
+    .filter(index => index >= 0);
+
+  let cursor = 0;
+  while (cursor < changeIndexes.length) {
+    const hunkStart = Math.max(0, changeIndexes[cursor]! - CONTEXT_LINES);
+    let hunkEnd = changeIndexes[cursor]!;
+
+    // Merge changes whose context windows overlap into one hunk
+    while (cursor + 1 < changeIndexes.length && changeIndexes[cursor + 1]! - hunkEnd <= CONTEXT_LINES * 2) {
+      cursor++;
+      hunkEnd = changeIndexes[cursor]!;
+    }
+    hunkEnd = Math.min(operations.length - 1, hunkEnd + CONTEXT_LINES);
+    cursor++;
+
+    let oldStart = 0;
+    let newStart = 0;
+    for (let i = 0; i < hunkStart; i++) {
+      if (operations[i]!.type !== 'insert') oldStart++;
+      if (operations[i]!.type !== 'delete') newStart++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = hunkStart; i <= hunkEnd; i++) {
+      const operation = operations[i]!;
+      const prefix = operation.type === 'equal' ? ' ' : operation.type === 'delete' ? '-' : '+';
+      if (operation.line.endsWith(NO_NEWLINE_SENTINEL)) {
+        body.push(`${prefix}${operation.line.slice(0, -1)}`, '\\ No newline at end of file');
+      } else {
+        body.push(`${prefix}${operation.line}`);
+      }
+
+      if (operation.type !== 'insert') oldCount++;
+      if (operation.type !== 'delete') newCount++;
+    }
+
+    const oldRange = `${oldCount === 0 ? oldStart : oldStart + 1},${oldCount}`;
+    const newRange = `${newCount === 0 ? newStart : newStart + 1},${newCount}`;
+    output.push(`@@ -${oldRange} +${newRange} @@`, ...body);
+  }
+
+  return output;
+};
@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+
+type WorkspaceScope = {
+  roots: string[];
+  // Why the roots of a client that declares them are unknown
+  rootsError?: string;
+};
+
+const rootsStorage = new AsyncLocalStorage<WorkspaceScope>();
+
+// Runs a tool call with the directories its client allows the tools to work
+// in. Each connected client has its own roots; outside of such a call every
+// path is allowed and relative paths resolve against the working directory.
+export const withWorkspaceRoots = <T>(roots: string[], operation: () => T, rootsError?: string): T => {
+  return rootsStorage.run({ roots: roots.map(root => path.resolve(root)), rootsError }, operation);
+};
+
+export const getWorkspaceRoots = (): string[] => {
+  return [...(rootsStorage.getStore()?.roots ?? [])];
+};
+
+// Set when the client declares roots but listing them failed, in which case
+// no file may be written
+export const getWorkspaceRootsError = (): string | undefined => {
+  return rootsStorage.getStore()?.rootsError;
+};
+
+// Relative paths are taken from the first workspace root, so they do not
+// depend on the directory the server was launched from
+export const resolveWorkspacePath = (targetPath: string): string => {
+  return path.resolve(getWorkspaceRoots()[0] ?? process.cwd(), targetPath);
+};
+
+export const isWithinWorkspace = (targetPath: string): boolean => {
+  return getWorkspaceRoots().length === 0 || findWorkspaceRoot(targetPath) !== undefined;
+};
+
+// The innermost workspace root containing a path
+export const findWorkspaceRoot = (targetPath: string): string | undefined => {
+  const realTarget = toRealPath(path.resolve(targetPath));
+
+  return getWorkspaceRoots()
+    .filter(root => isWithin(realTarget, toRealPath(root)))
+    .sort((left, right) => right.length - left.length)[0];
+};
+
+const isWithin = (targetPath: string, root: string): boolean => {
+  const relativePath = path.relative(root, targetPath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+};
+
+// Resolves symlinks through the deepest existing ancestor, so that paths that
+// do not exist yet (move destinations) compare like their parents
+const toRealPath = (targetPath: string): string => {
+  const missingSegments: string[] = [];
+  let current = targetPath;
+
+  while (!fs.existsSync(current) && current !== path.dirname(current)) {
+    missingSegments.unshift(path.basename(current));
+    current = path.dirname(current);
+  }
+
+  try {
+    return path.join(fs.realpathSync(current), ...missingSegments);
+  } catch {
+    return targetPath;
+  }
+};